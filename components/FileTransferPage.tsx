@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { WebRTCConnectionManager, ConnectionState } from '../services/WebRTCConnectionManager';
-import { FileTransferManager, TransferStatus, FileProgress, ReceivedFile } from '../services/webrtcService';
+import { FileTransferManager, TransferStatus, FileProgress, ReceivedFile, TransferManifest, ManifestFile, DEFAULT_PARALLEL_STREAMS, getFileId } from '../services/webrtcService';
+import { RateDecision } from '../services/rateController';
+import { TokenBucket } from '../services/tokenBucket';
 import { EncryptionPipeline } from '../services/EncryptionPipeline';
 import SenderView from './SenderView';
 import ReceiverView from './ReceiverView';
@@ -8,8 +10,16 @@ import { LinkIcon, ShareIcon } from './icons/Icons';
 import { TransferHistoryEntry } from '../types';
 import { getHistory, addHistoryEntry, clearHistory } from '../utils/history';
 import { saveScheduledJob, getScheduledJob, clearScheduledJob } from '../utils/scheduledTransferDB';
+import { getRelativePath, withRelativePath } from '../utils/relativePaths';
+import { DeviceIdentity, TrustedDevice, getDeviceIdentity, clearDeviceIdentity, getTrustedDevices, removeTrustedDevice } from '../utils/identityDB';
+import { PeerIdentity, createDeviceIdentity, signIdentity, checkPeerIdentity, checkIdentityContinuity, trustPeerIdentity } from '../services/identityService';
+import { TransferReceipt, issueReceipt, checkSessionReceipt } from '../services/receiptService';
+import { generateIdentityKeyPair } from '../services/cryptoService';
 import TransferHistory from './TransferHistory';
 import ErrorNotificationModal from './ErrorNotificationModal';
+import TrustedDevicesPanel from './TrustedDevicesPanel';
+import ReceiptVerifier from './ReceiptVerifier';
+import { ClientSignalingMessage, parseServerMessage } from '../shared/signalingMessages';
 
 const getSignalingServerUrl = (): string => {
   const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
@@ -26,18 +36,74 @@ const ICE_SERVERS = { iceServers: [
     { urls: 'stun:stun2.l.google.com:19302' },
 ]};
 
+// Remembers the room a receiver joined so a page reload can rejoin it and resume.
+const RESUME_ROOM_KEY = 'swaz-resume-room';
+// Remembers the receiver's peer ID so the sender recognises it when it rejoins.
+const RESUME_PEER_KEY = 'swaz-resume-peer';
+
 export type TransferState = 'idle' | 'connecting' | 'scheduled' | 'transferring' | 'paused' | 'done' | 'error';
 type View = 'initial' | 'host' | 'receiver';
+type OutgoingSignalingPayload<T extends ClientSignalingMessage['type']> = Omit<Extract<ClientSignalingMessage, { type: T }>['payload'], 'roomId'>;
+
+// Everything needed to talk to one remote peer. A sender holds one per receiver; a receiver holds one for the sender.
+type PeerSession = {
+    webRTCManager: WebRTCConnectionManager;
+    fileManager: FileTransferManager;
+    encryptionPipeline: EncryptionPipeline;
+};
+
+// What the views show about each remote peer.
+export type PeerStatus = {
+    peerId: string;
+    label: string;
+    connected: boolean;
+    securityCode: string | null;
+    securityCodeConfirmed: boolean;
+    // Label of the negotiated cipher suite, once the key exchange has completed.
+    cipherSuite: string | null;
+    // The peer's verified device identity, if it signed its key offer with one.
+    identity: PeerIdentity | null;
+    // The receiver's signed receipt for the files it has acknowledged, once it sends one.
+    receipt: TransferReceipt | null;
+    // The rate controller's latest decision for the connection to this peer, while sending.
+    rate: RateDecision | null;
+    // Relative paths of the files this receiver chose not to accept.
+    declinedPaths: string[];
+    // Files either side cancelled partway through.
+    cancelledFileIds: string[];
+    // Files still waiting to start, in the order the sender will send them.
+    queuedFileIds: string[];
+    // Whether the peer has paused the transfer from its side.
+    pausedByPeer: boolean;
+    // The download cap this receiver asked for, in bytes per second; 0 means none.
+    downloadLimit: number;
+    progress: Record<string, FileProgress>;
+};
+
+const getResumePeerId = (): string => {
+    let peerId = sessionStorage.getItem(RESUME_PEER_KEY);
+    if (!peerId) {
+        peerId = crypto.randomUUID();
+        sessionStorage.setItem(RESUME_PEER_KEY, peerId);
+    }
+    return peerId;
+};
 
 const FileTransferPage: React.FC = () => {
     const [view, setView] = useState<View>('initial');
     const [roomId, setRoomId] = useState('');
     const [joinRoomId, setJoinRoomId] = useState('');
     const [status, setStatusInternal] = useState<TransferStatus>({ type: 'info', message: 'Ready to connect.' });
-    const [peerConnected, setPeerConnected] = useState(false);
-    const [progress, setProgress] = useState<Record<string, FileProgress>>({});
+    const [peers, setPeers] = useState<Record<string, PeerStatus>>({});
     const [receivedFiles, setReceivedFiles] = useState<ReceivedFile[]>([]);
     const [filesToSend, setFilesToSend] = useState<File[]>([]);
+    // Empty folders in the selection; folders with files in them travel as part of each file's path.
+    const [directoriesToSend, setDirectoriesToSend] = useState<string[]>([]);
+    const [receivedDirectories, setReceivedDirectories] = useState<string[]>([]);
+    // Manifests from the sender waiting for the user to accept or reject them, oldest first.
+    const [pendingManifests, setPendingManifests] = useState<TransferManifest[]>([]);
+    // Every file this receiver accepted, so queued files can be listed before they start.
+    const [acceptedFiles, setAcceptedFiles] = useState<ManifestFile[]>([]);
     
     const [transferState, setTransferState] = useState<TransferState>('idle');
     const [transferSpeed, setTransferSpeed] = useState(0); // B/s
@@ -49,20 +115,125 @@ const FileTransferPage: React.FC = () => {
     const [history, setHistory] = useState<TransferHistoryEntry[]>(getHistory());
     const [speedDataPoints, setSpeedDataPoints] = useState<number[]>([]);
     const [errorDetails, setErrorDetails] = useState<{ title: string; message: string; suggestions: string[] } | null>(null);
-    
+    const [saveDirectoryName, setSaveDirectoryName] = useState<string | null>(null);
+    const [parallelStreams, setParallelStreams] = useState(DEFAULT_PARALLEL_STREAMS);
+    // User-set caps in bytes per second; 0 means unlimited.
+    const [uploadLimit, setUploadLimit] = useState(0);
+    const [downloadLimit, setDownloadLimit] = useState(0);
+    const [passphrase, setPassphrase] = useState('');
+    const [deviceIdentity, setDeviceIdentity] = useState<DeviceIdentity | null>(null);
+    const [trustedDevices, setTrustedDevices] = useState<TrustedDevice[]>([]);
+    const [receipt, setReceipt] = useState<TransferReceipt | null>(null);
+    // Set while a restored scheduled transfer waits for the host to re-enter its room passphrase.
+    const [scheduleNeedsPassphrase, setScheduleNeedsPassphrase] = useState(false);
+
     const ws = useRef<WebSocket | null>(null);
-    const webRTCManager = useRef<WebRTCConnectionManager | null>(null);
-    const fileManager = useRef<FileTransferManager | null>(null);
-    const encryptionPipeline = useRef<EncryptionPipeline | null>(null);
+    // The room this client is in, as confirmed by the server. Signaling handlers outlive renders, so this is a ref.
+    const currentRoomId = useRef('');
+    const peerSessions = useRef<Map<string, PeerSession>>(new Map());
+    const connectedPeers = useRef<Set<string>>(new Set());
+    const peerLabels = useRef<Map<string, string>>(new Map());
+    // The trusted identity each peer presented, so one that reconnects without it or with another key is flagged.
+    const trustedIdentitiesByPeer = useRef<Map<string, PeerIdentity>>(new Map());
     const isSender = useRef(false);
     const scheduleTimerId = useRef<number | null>(null);
-    
+
     const progressHistory = useRef<{ time: number, bytes: number }[]>([]);
-    const peerConnectedRef = useRef(peerConnected);
+    const filesToSendRef = useRef(filesToSend);
+    const directoriesToSendRef = useRef(directoriesToSend);
+    const scheduledTimeRef = useRef(scheduledTime);
+    // Files each receiver has fully acknowledged, so a receiver that rejoins only gets what it is missing.
+    const sentFilesByPeer = useRef<Map<string, Set<File>>>(new Map());
+    // Files each receiver declined when it reviewed the manifest. They are not offered to it again.
+    const declinedFilesByPeer = useRef<Map<string, Set<File>>>(new Map());
+    // IDs of the files cancelled for each receiver. They are not offered to it again either.
+    const cancelledFileIdsByPeer = useRef<Map<string, Set<string>>>(new Map());
+    // The chunk size each file was announced to each receiver with, so a resumed file keeps its chunk grid.
+    const chunkSizesByPeer = useRef<Map<string, Map<string, number>>>(new Map());
+    const saveDirectory = useRef<FileSystemDirectoryHandle | null>(null);
+    const parallelStreamsRef = useRef(parallelStreams);
+    // One bucket for every receiver, so the upload cap holds however many are connected.
+    const uploadLimiter = useRef(new TokenBucket());
+    const downloadLimitRef = useRef(downloadLimit);
+    // The passphrase of the current room, fixed when the room is created or joined. Empty if the room has none.
+    const roomPassphrase = useRef('');
+    // Read by the signaling handler, which must not wait for a re-render to see a new identity.
+    const deviceIdentityRef = useRef<DeviceIdentity | null>(null);
+    // Signs receipts when this device has no identity. Generated once per page, on first use.
+    const receiptKeyPair = useRef<Promise<CryptoKeyPair> | null>(null);
+    // How many files the last receipt issued to each sender covered, so each finished transfer gets one receipt.
+    const receiptFileCounts = useRef<Map<string, number>>(new Map());
+
+    const peerList = Object.values<PeerStatus>(peers);
+    const peerConnected = peerList.some(peer => peer.connected);
+    // A receiver only ever has one peer: the sender that hosts the room.
+    const hostPeer = view === 'receiver' ? peerList[0] : undefined;
+
+    useEffect(() => {
+        filesToSendRef.current = filesToSend;
+    }, [filesToSend]);
 
     useEffect(() => {
-        peerConnectedRef.current = peerConnected;
-    }, [peerConnected]);
+        directoriesToSendRef.current = directoriesToSend;
+    }, [directoriesToSend]);
+
+    useEffect(() => {
+        scheduledTimeRef.current = scheduledTime;
+    }, [scheduledTime]);
+
+    // Effect to load this device's identity and the trusted devices list
+    useEffect(() => {
+        Promise.all([getDeviceIdentity(), getTrustedDevices()])
+            .then(([identity, devices]) => {
+                deviceIdentityRef.current = identity;
+                setDeviceIdentity(identity);
+                setTrustedDevices(devices);
+            })
+            .catch(error => console.error('Failed to load device identities:', error));
+    }, []);
+
+    // Effect to mark the receiver's transfer as done once every accepted file was received or cancelled
+    useEffect(() => {
+        if (view !== 'receiver' || acceptedFiles.length === 0 || pendingManifests.length > 0) return;
+        const receivedPaths = new Set(receivedFiles.map(file => file.path));
+        const cancelledFileIds = new Set(hostPeer?.cancelledFileIds ?? []);
+        const finished = acceptedFiles.every(file => receivedPaths.has(file.path) || cancelledFileIds.has(file.fileId));
+        if (finished) {
+            setTransferState('done');
+        } else if (transferState === 'done') {
+            // The sender offered more files.
+            setTransferState('transferring');
+        }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [view, acceptedFiles, receivedFiles, pendingManifests, hostPeer?.cancelledFileIds]);
+
+    // Effect to issue a signed receipt once the transfer is done, and hand it to the sender
+    useEffect(() => {
+        if (view !== 'receiver' || transferState !== 'done' || !hostPeer || receivedFiles.length === 0) return;
+        if (receiptFileCounts.current.get(hostPeer.peerId) === receivedFiles.length) return;
+        const session = peerSessions.current.get(hostPeer.peerId);
+        const sessionFingerprints = session?.encryptionPipeline.getSessionFingerprints();
+        if (!session || !sessionFingerprints) return;
+        receiptFileCounts.current.set(hostPeer.peerId, receivedFiles.length);
+        let cancelled = false;
+        if (!receiptKeyPair.current) receiptKeyPair.current = generateIdentityKeyPair();
+        receiptKeyPair.current
+            .then(keyPair => issueReceipt({
+                roomId: currentRoomId.current,
+                cipherSuite: hostPeer.cipherSuite ?? 'unknown',
+                sessionFingerprints,
+                senderIdentity: hostPeer.identity?.status === 'missing' ? null : hostPeer.identity,
+                receiverIdentity: deviceIdentityRef.current,
+            }, receivedFiles.map(file => file.manifest), keyPair))
+            .then(signed => {
+                if (cancelled) return;
+                setReceipt(signed);
+                session.fileManager.sendReceipt(signed);
+            })
+            .catch(error => console.error('Failed to issue transfer receipt:', error));
+        return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [transferState]);
     
     // Effect to check for persisted scheduled jobs on load
     useEffect(() => {
@@ -70,7 +241,7 @@ const FileTransferPage: React.FC = () => {
             try {
                 const job = await getScheduledJob();
                 if (job) {
-                    const { files, scheduledTime: time, roomId: savedRoomId } = job;
+                    const { files, paths = [], directories = [], scheduledTime: time, roomId: savedRoomId, passphraseProtected = false } = job;
                     const now = Date.now();
                     const timeRemaining = time - now;
     
@@ -82,20 +253,22 @@ const FileTransferPage: React.FC = () => {
                     }
     
                     setStatusInternal({ type: 'info', message: 'Found a pending scheduled transfer.' });
-                    setFilesToSend(files);
+                    // IndexedDB keeps the files but not the paths they were dropped with.
+                    setFilesToSend(files.map((file, i) => paths[i] ? withRelativePath(file, paths[i]) : file));
+                    setDirectoriesToSend(directories);
                     setScheduledTime(time);
                     setRoomId(savedRoomId);
                     setView('host');
                     
                     // Re-arm the schedule
-                    initializeModules();
-                    connectWebSocket(() => sendMessage('join-room', { roomId: savedRoomId }));
+                    isSender.current = true;
                     setTransferState('scheduled');
-                    
-                    // If the time is in the past (but within the 5min grace period), it means the browser was closed.
-                    // We don't start immediately, but wait for the peer to connect. The peer connection logic will trigger the start.
-                    if (timeRemaining > 0) {
-                         scheduleTimerId.current = window.setTimeout(startScheduledTransfer, timeRemaining);
+                    if (passphraseProtected) {
+                        // The passphrase was not stored; the room is recreated once the host enters it again.
+                        setScheduleNeedsPassphrase(true);
+                        setStatusInternal({ type: 'info', message: 'Enter the room passphrase to restore the scheduled transfer.' });
+                    } else {
+                        rejoinScheduledRoom(savedRoomId, time, '');
                     }
                 }
             } catch (error) {
@@ -128,13 +301,21 @@ const FileTransferPage: React.FC = () => {
             handleStartReceiving(roomIdFromUrl);
             // Optional: remove the query parameter from the URL
             window.history.replaceState({}, document.title, window.location.pathname);
+            return;
+        }
+        // A receiver that reloaded mid-transfer rejoins its room; persisted chunks let the transfer resume.
+        const roomIdToResume = sessionStorage.getItem(RESUME_ROOM_KEY);
+        if (roomIdToResume) {
+            setJoinRoomId(roomIdToResume);
+            handleStartReceiving(roomIdToResume);
+            setStatusInternal({ type: 'info', message: `Rejoining room ${roomIdToResume} to resume the interrupted transfer...` });
         }
     // eslint-disable-next-line react-hooks/exhaustive-deps
     }, []);
 
     useEffect(() => {
         return () => {
-            webRTCManager.current?.disconnect();
+            peerSessions.current.forEach(session => session.webRTCManager.disconnect());
             ws.current?.close();
             if (scheduleTimerId.current) clearTimeout(scheduleTimerId.current);
         };
@@ -153,11 +334,11 @@ const FileTransferPage: React.FC = () => {
         }
 
         const interval = setInterval(() => {
-            const totalBytes = filesToSend.reduce((sum, f) => sum + f.size, 0);
-            const transferredBytes = Object.values(progress).reduce((sum, p) => {
-                const file = filesToSend.find(f => f.name === p.fileName);
-                return sum + ((file?.size || 0) * p.progress) / 100;
-            }, 0);
+            // Every receiver gets its own copy of each file, so totals are summed across peers.
+            const currentPeers = Object.values<PeerStatus>(peers);
+            const totalBytes = filesToSend.reduce((sum, f) => sum + f.size, 0) * Math.max(1, currentPeers.length);
+            const transferredBytes = currentPeers.reduce((peerSum, peer) =>
+                peerSum + Object.values<FileProgress>(peer.progress).reduce((sum, p) => sum + (p.fileSize * p.progress) / 100, 0), 0);
 
             const now = Date.now();
             if (!transferStartTime) {
@@ -193,7 +374,7 @@ const FileTransferPage: React.FC = () => {
         
         return () => clearInterval(interval);
 
-    }, [progress, filesToSend, transferState, transferStartTime]);
+    }, [peers, filesToSend, transferState, transferStartTime]);
 
     const handleError = (title: string, message: string, suggestions: string[]) => {
         setErrorDetails({ title, message, suggestions });
@@ -215,7 +396,7 @@ const FileTransferPage: React.FC = () => {
         const getFileDisplayNameForError = (ctx: typeof context): string => {
             if (ctx?.fileName) return `"${ctx.fileName}"`;
             if (ctx?.fileId) {
-                const progressEntry = progress[ctx.fileId];
+                const progressEntry = peerList.map(peer => peer.progress[ctx.fileId]).find(Boolean);
                 if (progressEntry?.fileName) {
                     return `"${progressEntry.fileName}"`;
                 }
@@ -285,49 +466,47 @@ const FileTransferPage: React.FC = () => {
                 'For developers: Ensure the local signaling server is running on port 8080.'
             ]);
         };
-        ws.current.onclose = () => { if (peerConnectedRef.current) setStatusInternal({ type: 'error', message: 'Signaling server disconnected.' }); };
+        ws.current.onclose = () => { if (connectedPeers.current.size > 0) setStatusInternal({ type: 'error', message: 'Signaling server disconnected.' }); };
     };
 
-    const initializeModules = () => {
-        if (webRTCManager.current) return;
-        
+    const updatePeer = (peerId: string, changes: Partial<PeerStatus>) => {
+        setPeers(prev => {
+            const current: PeerStatus = prev[peerId] ?? {
+                peerId, label: peerLabels.current.get(peerId) ?? 'Sender',
+                connected: false, securityCode: null, securityCodeConfirmed: false, cipherSuite: null, identity: null, receipt: null, rate: null, declinedPaths: [], cancelledFileIds: [], queuedFileIds: [], pausedByPeer: false, downloadLimit: 0, progress: {},
+            };
+            return { ...prev, [peerId]: { ...current, ...changes } };
+        });
+    };
+
+    const getPeerLabel = (peerId: string) => peerLabels.current.get(peerId) ?? 'Peer';
+
+    // Sets up the connection, encryption and transfer modules for a newly joined peer,
+    // replacing any stale session left behind by the same peer before it rejoined.
+    const createPeerSession = (peerId: string): PeerSession => {
+        closePeerSession(peerId);
+        if (isSender.current && !peerLabels.current.has(peerId)) {
+            peerLabels.current.set(peerId, `Receiver ${peerLabels.current.size + 1}`);
+        }
+
         const onFileSentOrReceived = (file: {name: string; size: number; type: string;}, status: 'Sent' | 'Received') => {
             const duration = transferStartTime ? (Date.now() - transferStartTime) / 1000 : 0;
-            const finalAverageSpeed = averageSpeed; 
+            const finalAverageSpeed = averageSpeed;
             const newHistory = addHistoryEntry({
                 fileName: file.name, fileSize: file.size, status, fileType: file.type,
                 duration: Math.round(duration), averageSpeed: finalAverageSpeed
             });
             setHistory(newHistory);
         };
-        
-        webRTCManager.current = new WebRTCConnectionManager(ICE_SERVERS, {
-            onConnectionStateChange: (state: ConnectionState) => {
-                const connected = state === 'connected';
-                setPeerConnected(connected);
-                if (connected) {
-                     setStatusInternal({ type: 'success', message: 'Peer connection established!' });
-                     // If a schedule was set and the time has passed, start the transfer now that peer is connected.
-                     if (isSender.current && scheduledTime && Date.now() >= scheduledTime) {
-                         startScheduledTransfer();
-                     } else if (isSender.current && filesToSend.length > 0 && !scheduledTime) {
-                        setTransferState('transferring');
-                        fileManager.current?.sendFiles(filesToSend);
-                     }
-                }
-                if (['disconnected', 'failed', 'closed'].includes(state)) {
-                    setPeerConnected(false);
-                    setStatusInternal({ type: 'error', message: 'Peer has disconnected.' });
-                     handleError('Peer Disconnected', 'The other user has disconnected, and the transfer has been canceled.', [
-                        'You may need to start a new transfer session.',
-                        'Contact the other user to ensure they are still available.'
-                    ]);
-                }
-            },
-            onIceCandidate: (candidate) => sendMessage('ice-candidate', { candidate }),
-            onDataChannel: (dataChannel) => fileManager.current?.setDataChannel(dataChannel),
+
+        const webRTCManager = new WebRTCConnectionManager(ICE_SERVERS, {
+            onConnectionStateChange: (state: ConnectionState) => handlePeerConnectionStateChange(peerId, state),
+            onIceCandidate: (candidate) => sendMessage('ice-candidate', { to: peerId, candidate: candidate.toJSON() }),
+            onDataChannel: (dataChannel) => fileManager.setDataChannel(dataChannel),
             onError: (error) => {
                 setStatusInternal({ type: 'error', message: `WebRTC Error: ${error.message}` });
+                // One unreachable receiver should not stop the transfer to everyone else.
+                if (isSender.current && peerSessions.current.size > 1) return;
                 handleError('Peer Connection Failed', 'A direct, secure connection to the other user could not be established.', [
                     'Ensure both you and your peer have a stable internet connection.',
                     'Try having the other user create the room and send you the ID instead.',
@@ -335,35 +514,154 @@ const FileTransferPage: React.FC = () => {
                 ]);
             }
         });
-        fileManager.current = new FileTransferManager(webRTCManager.current, {
+        const fileManager = new FileTransferManager(webRTCManager, {
             onStatusUpdate: setStatus,
-            onFileProgress: (p) => setProgress(prev => ({ ...prev, [p.fileId]: p })),
+            onFileProgress: (p) => setPeers(prev => prev[peerId]
+                ? { ...prev, [peerId]: { ...prev[peerId], progress: { ...prev[peerId].progress, [p.fileId]: p } } }
+                : prev),
             onFileReceived: (file) => {
                 setReceivedFiles(prev => [...prev, file]);
                 onFileSentOrReceived(file, 'Received');
             },
+            onDirectoriesReceived: (paths) => setReceivedDirectories(prev => [...new Set([...prev, ...paths])]),
+            onManifestReceived: (manifest) => setPendingManifests(prev => [...prev, manifest]),
+            onFilesDeclined: (files) => {
+                const declinedFiles = declinedFilesByPeer.current.get(peerId) ?? new Set<File>();
+                files.forEach(file => declinedFiles.add(file));
+                declinedFilesByPeer.current.set(peerId, declinedFiles);
+                updatePeer(peerId, { declinedPaths: [...declinedFiles].map(getRelativePath) });
+            },
+            onFileCancelled: (fileId) => {
+                const cancelledFileIds = cancelledFileIdsByPeer.current.get(peerId) ?? new Set<string>();
+                cancelledFileIds.add(fileId);
+                cancelledFileIdsByPeer.current.set(peerId, cancelledFileIds);
+                updatePeer(peerId, { cancelledFileIds: [...cancelledFileIds] });
+            },
+            onQueueChanged: (fileIds) => updatePeer(peerId, { queuedFileIds: fileIds }),
             onFileSent: (file) => {
+                const sentFiles = sentFilesByPeer.current.get(peerId) ?? new Set<File>();
+                sentFiles.add(file);
+                sentFilesByPeer.current.set(peerId, sentFiles);
                 onFileSentOrReceived(file, 'Sent');
-            }
+            },
+            onReceiptReceived: async (receipt) => {
+                const sessionFingerprints = peerSessions.current.get(peerId)?.encryptionPipeline.getSessionFingerprints();
+                if (sessionFingerprints && await checkSessionReceipt(receipt, currentRoomId.current, sessionFingerprints)) {
+                    updatePeer(peerId, { receipt });
+                } else {
+                    setStatusInternal({ type: 'error', message: `The receipt from ${getPeerLabel(peerId)} could not be verified and was discarded.` });
+                }
+            },
+            onRateUpdate: (rate) => updatePeer(peerId, { rate }),
+            onPeerPauseChanged: (pausedByPeer) => updatePeer(peerId, { pausedByPeer }),
+            onPeerRateLimit: (bytesPerSecond) => updatePeer(peerId, { downloadLimit: bytesPerSecond }),
         });
-        encryptionPipeline.current = new EncryptionPipeline();
+        if (!chunkSizesByPeer.current.has(peerId)) chunkSizesByPeer.current.set(peerId, new Map());
+        fileManager.setChunkSizeMemory(chunkSizesByPeer.current.get(peerId)!);
+        fileManager.setSaveDirectory(saveDirectory.current);
+        fileManager.setMaxParallelStreams(parallelStreamsRef.current);
+        fileManager.setUploadLimiter(uploadLimiter.current);
+        fileManager.setDownloadLimit(downloadLimitRef.current);
+
+        const encryptionPipeline = new EncryptionPipeline(currentRoomId.current, roomPassphrase.current || undefined);
+        const session: PeerSession = { webRTCManager, fileManager, encryptionPipeline };
+        peerSessions.current.set(peerId, session);
+        updatePeer(peerId, { connected: false, securityCode: null, securityCodeConfirmed: false, cipherSuite: null, identity: null, receipt: null, rate: null,
+            declinedPaths: [...(declinedFilesByPeer.current.get(peerId) ?? [])].map(getRelativePath),
+            cancelledFileIds: [...(cancelledFileIdsByPeer.current.get(peerId) ?? [])], queuedFileIds: [], pausedByPeer: false, downloadLimit: 0,
+        });
+        return session;
+    };
+
+    // Tears down the connection to a single peer. Its progress stays visible so a rejoin can pick up from it.
+    const closePeerSession = (peerId: string) => {
+        const session = peerSessions.current.get(peerId);
+        if (!session) return;
+        peerSessions.current.delete(peerId);
+        connectedPeers.current.delete(peerId);
+        session.fileManager.close();
+        session.webRTCManager.disconnect();
+    };
+
+    const handlePeerConnectionStateChange = (peerId: string, state: ConnectionState) => {
+        const connected = state === 'connected';
+        updatePeer(peerId, { connected });
+        if (connected) {
+            connectedPeers.current.add(peerId);
+            setStatusInternal({ type: 'success', message: isSender.current ? `${getPeerLabel(peerId)} connected!` : 'Peer connection established!' });
+            if (!isSender.current) return;
+            const scheduledAt = scheduledTimeRef.current;
+            const unsentFiles = getUnsentFiles(peerId);
+            // If a schedule was set and the time has passed, start the transfer now that peer is connected.
+            if (scheduledAt && Date.now() >= scheduledAt) {
+                startScheduledTransfer();
+            } else if (!scheduledAt && unsentFiles.length > 0) {
+                setTransferState('transferring');
+                peerSessions.current.get(peerId)?.fileManager.sendFiles(unsentFiles, directoriesToSendRef.current);
+            }
+            return;
+        }
+        if (['disconnected', 'failed', 'closed'].includes(state)) {
+            connectedPeers.current.delete(peerId);
+            if (isSender.current) {
+                // Keep the room open: the receiver can rejoin and its transfer resumes where it stopped.
+                setStatusInternal({ type: 'info', message: `Connection to ${getPeerLabel(peerId)} lost. Waiting for them to rejoin...` });
+                return;
+            }
+            setStatusInternal({ type: 'error', message: 'Peer has disconnected.' });
+            handleError('Peer Disconnected', 'The other user has disconnected, and the transfer has been canceled.', [
+                'You may need to start a new transfer session.',
+                'Contact the other user to ensure they are still available.'
+            ]);
+        }
+    };
+
+    const getUnsentFiles = (peerId: string) => {
+        const sentFiles = sentFilesByPeer.current.get(peerId);
+        const declinedFiles = declinedFilesByPeer.current.get(peerId);
+        const cancelledFileIds = cancelledFileIdsByPeer.current.get(peerId);
+        return filesToSendRef.current.filter(file => !sentFiles?.has(file) && !declinedFiles?.has(file) && !cancelledFileIds?.has(getFileId(file)));
     };
 
     const handleSignalingMessage = async (message: MessageEvent) => {
-        const data = JSON.parse(message.data);
-        if (!webRTCManager.current || !encryptionPipeline.current || !fileManager.current) {
-            console.error("Modules not initialized!");
+        const result = parseServerMessage(message.data);
+        if (result.ok === false) {
+            console.error('Rejected signaling message from server:', result.error);
             return;
         }
+        const data = result.message;
 
         switch (data.type) {
             case 'room-joined':
                 const newRoomId = data.payload.roomId;
+                currentRoomId.current = newRoomId;
                 setRoomId(newRoomId);
+                // Without the passphrase the key exchange cannot succeed, so ask for it before going any further.
+                // A receiver rejoining after a reload keeps its resume state, so joining with the passphrase resumes.
+                if (!isSender.current && data.payload.passphraseProtected && !roomPassphrase.current) {
+                    await handleCancelTransfer({ keepResumeState: true });
+                    setJoinRoomId(newRoomId);
+                    setErrorDetails({
+                        title: 'Passphrase Required',
+                        message: 'This room is protected by a passphrase.',
+                        suggestions: [
+                            'Ask the sender for the room passphrase, enter it below the Room ID and join again.',
+                            'An interrupted transfer picks up where it left off once you rejoin.',
+                        ]
+                    });
+                    return;
+                }
                 // If this room creation was for a scheduled transfer, save job to DB.
                 if (scheduledTime && isSender.current) {
                     try {
-                        await saveScheduledJob({ files: filesToSend, scheduledTime, roomId: newRoomId });
+                        await saveScheduledJob({
+                            files: filesToSend,
+                            paths: filesToSend.map(getRelativePath),
+                            directories: directoriesToSend,
+                            scheduledTime,
+                            roomId: newRoomId,
+                            passphraseProtected: !!roomPassphrase.current,
+                        });
                         setTransferState('scheduled');
                     } catch (error) {
                         console.error("Failed to save scheduled job:", error);
@@ -375,55 +673,143 @@ const FileTransferPage: React.FC = () => {
                         handleCancelTransfer();
                     }
                 }
-                break;
-            case 'peer-joined':
-                setStatusInternal({ type: 'info', message: 'Peer has joined. Negotiating secure channel...' });
-                isSender.current = data.payload.initiator;
-                const localPublicKey = await encryptionPipeline.current.initialize();
-                sendMessage('public-key', { publicKey: localPublicKey });
-                break;
-            case 'public-key':
-                await encryptionPipeline.current.deriveSharedSecret(data.payload.publicKey);
-                fileManager.current.setEncryptionPipeline(encryptionPipeline.current);
-                setStatusInternal({ type: 'success', message: 'Secure channel established. Starting WebRTC handshake...' });
+                return;
+            case 'peer-joined': {
+                const { peerId, initiator } = data.payload;
+                isSender.current = initiator;
+                // The session must exist before the first await so the peer's next messages find it.
+                const session = createPeerSession(peerId);
+                setStatusInternal({ type: 'info', message: `${initiator ? getPeerLabel(peerId) : 'Peer'} has joined. Negotiating secure channel...` });
+                // Commit to our key first; it is only revealed once the peer has committed to theirs.
+                sendMessage('key-commitment', { to: peerId, commitment: await session.encryptionPipeline.getKeyCommitment() });
+                return;
+            }
+            case 'peer-left': {
+                const { peerId } = data.payload;
                 if (isSender.current) {
-                    const dataChannel = webRTCManager.current.createDataChannel('fileTransfer');
-                    fileManager.current.setDataChannel(dataChannel);
-                    const offer = await webRTCManager.current.createOffer();
-                    sendMessage('offer', { sdp: offer });
+                    closePeerSession(peerId);
+                    // A receiver that was turned away has already been removed from the list.
+                    setPeers(prev => prev[peerId] ? { ...prev, [peerId]: { ...prev[peerId], connected: false } } : prev);
+                    const message = getUnsentFiles(peerId).length > 0
+                        ? `${getPeerLabel(peerId)} has left the room. Waiting for them to rejoin to resume the transfer...`
+                        : `${getPeerLabel(peerId)} has left the room.`;
+                    setStatusInternal({ type: 'info', message });
+                    return;
                 }
-                break;
-            case 'offer':
-                const answer = await webRTCManager.current.handleOffer(data.payload.sdp);
-                sendMessage('answer', { sdp: answer });
-                break;
-            case 'answer': await webRTCManager.current.handleAnswer(data.payload.sdp); break;
-            case 'ice-candidate': await webRTCManager.current.addIceCandidate(data.payload.candidate); break;
-            case 'peer-left':
                 setStatusInternal({ type: 'error', message: 'Peer has left the room.' });
                 handleCancelTransfer();
-                break;
-            case 'error': 
+                return;
+            }
+            case 'error':
                  setStatusInternal({ type: 'error', message: `Signaling Error: ${data.payload.message}` });
                  handleError('Room Error', `The server reported an error: ${data.payload.message}.`, [
                      'This may happen if the Room ID is incorrect or the room is already full.',
                      'Please verify the Room ID and try again.'
                  ]);
-                 break;
+                 return;
+        }
+
+        // Everything else is relayed from a specific peer and handled by that peer's session.
+        const peerId = data.payload.from;
+        const session = peerSessions.current.get(peerId);
+        if (!session) {
+            console.warn(`Ignoring "${data.type}" from unknown peer ${peerId}.`);
+            return;
+        }
+        const { webRTCManager, fileManager, encryptionPipeline } = session;
+
+        switch (data.type) {
+            case 'key-commitment': {
+                encryptionPipeline.setRemoteKeyCommitment(data.payload.commitment);
+                const offer = await encryptionPipeline.initialize();
+                const identity = deviceIdentityRef.current;
+                sendMessage('public-key', {
+                    to: peerId,
+                    ...offer,
+                    ...(identity && { identity: await signIdentity(identity, offer, currentRoomId.current) }),
+                });
+                break;
+            }
+            case 'public-key':
+                try {
+                    const { identity, ...offer } = data.payload;
+                    // A signed identity is checked before any key is derived; a bad signature aborts the exchange.
+                    const presentedIdentity = identity ? await checkPeerIdentity(identity, offer, currentRoomId.current) : null;
+                    await encryptionPipeline.deriveSharedSecret(offer);
+                    const peerIdentity = checkIdentityContinuity(trustedIdentitiesByPeer.current.get(peerId), presentedIdentity);
+                    if (peerIdentity?.status === 'trusted') trustedIdentitiesByPeer.current.set(peerId, peerIdentity);
+                    updatePeer(peerId, { identity: peerIdentity });
+                } catch (error) {
+                    setStatusInternal({ type: 'error', message: `Key exchange failed: ${(error as Error).message}` });
+                    handleError('Key Exchange Failed', 'The key received from your peer could not be verified, so no secure channel was established.', [
+                        'This can indicate that someone is tampering with the connection.',
+                        'Cancel and start a new transfer session.'
+                    ]);
+                    break;
+                }
+                // Nothing is sent until both sides prove they derived the same key, which needs the same passphrase.
+                sendMessage('key-confirmation', { to: peerId, confirmation: await encryptionPipeline.getKeyConfirmation() });
+                break;
+            case 'key-confirmation':
+                if (!await encryptionPipeline.verifyKeyConfirmation(data.payload.confirmation)) {
+                    await handleKeyConfirmationFailed(peerId, encryptionPipeline.isPassphraseProtected());
+                    break;
+                }
+                updatePeer(peerId, {
+                    securityCode: encryptionPipeline.getShortAuthString(),
+                    cipherSuite: encryptionPipeline.getCipherSuite()?.label ?? null,
+                });
+                fileManager.setEncryptionPipeline(encryptionPipeline);
+                setStatusInternal({ type: 'success', message: 'Secure channel established. Starting WebRTC handshake...' });
+                if (isSender.current) {
+                    const dataChannel = webRTCManager.createDataChannel('fileTransfer');
+                    fileManager.setDataChannel(dataChannel);
+                    const offer = await webRTCManager.createOffer();
+                    sendMessage('offer', { to: peerId, sdp: offer });
+                }
+                break;
+            case 'offer':
+                const answer = await webRTCManager.handleOffer(data.payload.sdp);
+                sendMessage('answer', { to: peerId, sdp: answer });
+                break;
+            case 'answer': await webRTCManager.handleAnswer(data.payload.sdp); break;
+            case 'ice-candidate': await webRTCManager.addIceCandidate(data.payload.candidate); break;
         }
     };
 
-    const sendMessage = (type: string, payload: any) => {
+    const sendMessage = <T extends ClientSignalingMessage['type']>(type: T, payload: OutgoingSignalingPayload<T> & { roomId?: string }) => {
         if (ws.current?.readyState === WebSocket.OPEN) {
-            ws.current.send(JSON.stringify({ type, payload: { ...payload, roomId: roomId || joinRoomId } }));
+            const message = { type, payload: { roomId: currentRoomId.current || roomId || joinRoomId, ...payload } } as ClientSignalingMessage;
+            ws.current.send(JSON.stringify(message));
         }
     };
-    
+
+    // Recreates the room of a restored scheduled transfer and re-arms its timer.
+    const rejoinScheduledRoom = (savedRoomId: string, time: number, savedPassphrase: string) => {
+        roomPassphrase.current = savedPassphrase;
+        connectWebSocket(() => sendMessage('join-room', { roomId: savedRoomId, asHost: true, passphraseProtected: !!savedPassphrase }));
+        // If the time is in the past (but within the 5min grace period), it means the browser was closed.
+        // We don't start immediately, but wait for the peer to connect. The peer connection logic will trigger the start.
+        const timeRemaining = time - Date.now();
+        if (timeRemaining > 0) {
+             scheduleTimerId.current = window.setTimeout(startScheduledTransfer, timeRemaining);
+        }
+    };
+
+    const handleUnlockSchedule = () => {
+        if (!passphrase || !scheduledTime) return;
+        setScheduleNeedsPassphrase(false);
+        setStatusInternal({ type: 'info', message: 'Found a pending scheduled transfer.' });
+        rejoinScheduledRoom(roomId, scheduledTime, passphrase);
+    };
+
     const startScheduledTransfer = () => {
-        if (peerConnectedRef.current) {
+        if (connectedPeers.current.size > 0) {
             setStatusInternal({ type: 'info', message: 'Starting scheduled transfer...' });
             setTransferState('transferring');
-            fileManager.current?.sendFiles(filesToSend);
+            connectedPeers.current.forEach(peerId => {
+                peerSessions.current.get(peerId)?.fileManager.sendFiles(getUnsentFiles(peerId), directoriesToSendRef.current);
+            });
         } else {
              setStatusInternal({ type: 'error', message: 'Peer not connected at scheduled time.' });
              handleError('Scheduled Transfer Failed', 'Your peer was not connected at the scheduled start time.', [
@@ -435,33 +821,36 @@ const FileTransferPage: React.FC = () => {
         clearScheduledJob();
     };
 
-    const handleStartSending = (selectedFiles: File[]) => {
+    const handleStartSending = (selectedFiles: File[], selectedDirectories: string[]) => {
         setFilesToSend(selectedFiles);
+        setDirectoriesToSend(selectedDirectories);
         setTransferStartTime(null);
         setAverageSpeed(0);
         setSpeedDataPoints([]);
-        setProgress({});
-        initializeModules();
+        setPeers({});
+        isSender.current = true;
         setTransferState('connecting');
         setStatusInternal({ type: 'info', message: 'Creating secure room...' });
-        connectWebSocket(() => sendMessage('join-room', {}));
+        roomPassphrase.current = passphrase;
+        connectWebSocket(() => sendMessage('join-room', { asHost: true, passphraseProtected: !!passphrase }));
     };
-    
-    const handleScheduleTransfer = (time: number, selectedFiles: File[]) => {
+
+    const handleScheduleTransfer = (time: number, selectedFiles: File[], selectedDirectories: string[]) => {
         setScheduledTime(time);
         setFilesToSend(selectedFiles);
+        setDirectoriesToSend(selectedDirectories);
         setTransferStartTime(null);
         setAverageSpeed(0);
         setSpeedDataPoints([]);
-        setProgress({});
+        setPeers({});
         isSender.current = true;
 
-        initializeModules();
         setTransferState('connecting'); // We are 'connecting' to the signaling server to get a room ID
         setStatusInternal({ type: 'info', message: `Scheduling transfer for ${new Date(time).toLocaleString()}` });
-        
+
         // This will request a room, the 'room-joined' handler will then save the job to DB.
-        connectWebSocket(() => sendMessage('join-room', {}));
+        roomPassphrase.current = passphrase;
+        connectWebSocket(() => sendMessage('join-room', { asHost: true, passphraseProtected: !!passphrase }));
 
         const delay = time - Date.now();
         if (delay > 0) {
@@ -470,7 +859,7 @@ const FileTransferPage: React.FC = () => {
             // If time is in the past, it will start when the peer connects.
         }
     };
-    
+
     const handleCancelSchedule = async () => {
         if(scheduleTimerId.current) clearTimeout(scheduleTimerId.current);
         setScheduledTime(null);
@@ -484,29 +873,186 @@ const FileTransferPage: React.FC = () => {
 
     const handleStartReceiving = (id: string = joinRoomId) => {
         if (id.trim()) {
-            initializeModules();
-            connectWebSocket(() => sendMessage('join-room', { roomId: id.trim() }));
+            sessionStorage.setItem(RESUME_ROOM_KEY, id.trim());
+            roomPassphrase.current = passphrase;
+            connectWebSocket(() => sendMessage('join-room', { roomId: id.trim(), peerId: getResumePeerId() }));
             setView('receiver');
             setStatusInternal({ type: 'info', message: `Attempting to join room ${id.trim()}...` });
         }
     };
-    
+
+    const handleConfirmSecurityCode = (peerId: string) => {
+        updatePeer(peerId, { securityCodeConfirmed: true });
+        peerSessions.current.get(peerId)?.fileManager.confirmPeerVerified();
+    };
+
+    // Answers the oldest manifest the sender is waiting on.
+    const handleRespondToManifest = (acceptedFileIds: string[]) => {
+        const [manifest] = pendingManifests;
+        if (!manifest || !hostPeer) return;
+        peerSessions.current.get(hostPeer.peerId)?.fileManager.respondToManifest(manifest.batchId, acceptedFileIds);
+        setPendingManifests(prev => prev.filter(pending => pending.batchId !== manifest.batchId));
+        setAcceptedFiles(prev => [...prev, ...manifest.files.filter(file => acceptedFileIds.includes(file.fileId))]);
+        if (acceptedFileIds.length === 0) {
+            setStatusInternal({ type: 'info', message: 'You rejected the incoming files.' });
+        }
+    };
+
+    const handleCancelFile = (peerId: string, fileId: string) => {
+        peerSessions.current.get(peerId)?.fileManager.cancelFile(fileId);
+    };
+
+    const handlePrioritizeFile = (peerId: string, fileId: string) => {
+        peerSessions.current.get(peerId)?.fileManager.prioritizeFile(fileId);
+    };
+
+    const handleTrustPeer = async (peerId: string) => {
+        const identity = peers[peerId]?.identity;
+        // A peer that presents no identity has no key to trust.
+        if (!identity || identity.status === 'missing') return;
+        try {
+            await trustPeerIdentity(identity);
+            const trustedIdentity: PeerIdentity = { ...identity, status: 'trusted', trustedName: identity.trustedName ?? identity.name };
+            trustedIdentitiesByPeer.current.set(peerId, trustedIdentity);
+            updatePeer(peerId, { identity: trustedIdentity });
+            setTrustedDevices(await getTrustedDevices());
+        } catch (error) {
+            console.error('Failed to trust device:', error);
+            setStatusInternal({ type: 'error', message: 'Could not save the trusted device.' });
+        }
+    };
+
+    const handleCreateIdentity = async (name: string) => {
+        try {
+            const identity = await createDeviceIdentity(name);
+            deviceIdentityRef.current = identity;
+            setDeviceIdentity(identity);
+        } catch (error) {
+            console.error('Failed to create device identity:', error);
+            setStatusInternal({ type: 'error', message: 'Could not create a device identity.' });
+        }
+    };
+
+    const handleDeleteIdentity = async () => {
+        try {
+            await clearDeviceIdentity();
+            deviceIdentityRef.current = null;
+            setDeviceIdentity(null);
+        } catch (error) {
+            console.error('Failed to delete device identity:', error);
+        }
+    };
+
+    const handleRemoveTrustedDevice = async (deviceId: string) => {
+        try {
+            await removeTrustedDevice(deviceId);
+            setTrustedDevices(await getTrustedDevices());
+        } catch (error) {
+            console.error('Failed to remove trusted device:', error);
+        }
+    };
+
+    const handleRejectSecurityCode = async (peerId: string) => {
+        let message = 'The security code on your screen differs from your peer\'s. Someone may be intercepting the connection, so the session has been closed.';
+        if (isSender.current) {
+            // Only the receiver whose code differs is dropped; everyone else keeps receiving.
+            message = `The security code shown for ${getPeerLabel(peerId)} differs from theirs. Someone may be intercepting that connection, so it has been closed.`;
+            closePeerSession(peerId);
+            setPeers(prev => {
+                const { [peerId]: _rejected, ...rest } = prev;
+                return rest;
+            });
+        } else {
+            await handleCancelTransfer();
+        }
+        setErrorDetails({
+            title: 'Security Codes Do Not Match',
+            message,
+            suggestions: [
+                'Do not send sensitive files over this connection.',
+                'Start a new session, ideally from a different network, and compare the codes again.'
+            ]
+        });
+    };
+
+    const handleKeyConfirmationFailed = async (peerId: string, passphraseProtected: boolean) => {
+        const title = passphraseProtected ? 'Wrong Passphrase' : 'Key Exchange Failed';
+        const suggestions = passphraseProtected
+            ? ['Check the room passphrase with the other user, then join again.', 'Passphrases are case-sensitive.']
+            : ['This can indicate that someone is tampering with the connection.', 'Cancel and start a new transfer session.'];
+        if (isSender.current) {
+            // Only this receiver is turned away; everyone else keeps receiving.
+            closePeerSession(peerId);
+            setPeers(prev => {
+                const { [peerId]: _failed, ...rest } = prev;
+                return rest;
+            });
+            const message = passphraseProtected
+                ? `${getPeerLabel(peerId)} used the wrong passphrase and was disconnected.`
+                : `The keys derived with ${getPeerLabel(peerId)} do not match, so the connection was closed.`;
+            setStatusInternal({ type: 'error', message });
+            setErrorDetails({ title, message, suggestions });
+            return;
+        }
+        const roomIdToRetry = currentRoomId.current;
+        await handleCancelTransfer();
+        setJoinRoomId(roomIdToRetry);
+        const message = passphraseProtected
+            ? 'The passphrase does not match the one the sender set for this room.'
+            : 'The keys derived with your peer do not match, so no secure channel was established.';
+        setStatusInternal({ type: 'error', message });
+        setErrorDetails({ title, message, suggestions });
+    };
+
+    const handleChooseSaveDirectory = async () => {
+        if (!window.showDirectoryPicker) return;
+        try {
+            const directory = await window.showDirectoryPicker({ mode: 'readwrite' });
+            saveDirectory.current = directory;
+            peerSessions.current.forEach(session => session.fileManager.setSaveDirectory(directory));
+            setSaveDirectoryName(directory.name);
+        } catch (error) {
+            // The user dismissed the picker; keep the current destination.
+            console.info('Folder selection cancelled:', error);
+        }
+    };
+
+    const handleParallelStreamsChange = (count: number) => {
+        parallelStreamsRef.current = count;
+        setParallelStreams(count);
+        peerSessions.current.forEach(session => session.fileManager.setMaxParallelStreams(count));
+    };
+
+    const handleUploadLimitChange = (bytesPerSecond: number) => {
+        setUploadLimit(bytesPerSecond);
+        uploadLimiter.current.setLimit(bytesPerSecond);
+    };
+
+    const handleDownloadLimitChange = (bytesPerSecond: number) => {
+        downloadLimitRef.current = bytesPerSecond;
+        setDownloadLimit(bytesPerSecond);
+        peerSessions.current.forEach(session => session.fileManager.setDownloadLimit(bytesPerSecond));
+    };
+
     const handlePauseTransfer = () => {
-        fileManager.current?.pause();
+        peerSessions.current.forEach(session => session.fileManager.pause());
         setTransferState('paused');
     };
 
     const handleResumeTransfer = () => {
-        fileManager.current?.resume();
+        peerSessions.current.forEach(session => session.fileManager.resume());
         setTransferState('transferring');
     };
 
-    const handleCancelTransfer = async () => {
+    // Leaves the room and resets the page. `keepResumeState` keeps what a receiver needs to rejoin and resume.
+    const handleCancelTransfer = async ({ keepResumeState = false }: { keepResumeState?: boolean } = {}) => {
         if (isSender.current && ['connecting', 'transferring', 'paused', 'scheduled'].includes(transferState) && filesToSend.length > 0) {
             const duration = transferStartTime ? (Date.now() - transferStartTime) / 1000 : 0;
-            const completedFiles = new Set(Object.values(progress).filter(p => p.progress === 100).map(p => p.fileName));
+            // A file only counts as completed once every receiver has it.
+            const isCompleted = (file: File) => peerList.length > 0 &&
+                peerList.every(peer => Object.values<FileProgress>(peer.progress).some(p => p.fileId === getFileId(file) && p.progress === 100));
             filesToSend.forEach(file => {
-                 if (!completedFiles.has(file.name)) {
+                 if (!isCompleted(file)) {
                      addHistoryEntry({
                         fileName: file.name, fileSize: file.size, status: 'Canceled', fileType: file.type,
                         duration: Math.round(duration), averageSpeed: 0
@@ -523,14 +1069,31 @@ const FileTransferPage: React.FC = () => {
         } catch(e) {
             console.error("Failed to clear scheduled job on cancel:", e);
         }
-        webRTCManager.current?.disconnect();
+        const sessions = [...peerSessions.current.values()];
+        peerSessions.current = new Map();
+        await Promise.all(sessions.map(session => session.fileManager.close()));
+        sessions.forEach(session => session.webRTCManager.disconnect());
         ws.current?.close();
-        ws.current = null; webRTCManager.current = null; fileManager.current = null; encryptionPipeline.current = null;
+        if (!keepResumeState) {
+            sessionStorage.removeItem(RESUME_ROOM_KEY);
+            sessionStorage.removeItem(RESUME_PEER_KEY);
+        }
+        sentFilesByPeer.current = new Map();
+        declinedFilesByPeer.current = new Map();
+        cancelledFileIdsByPeer.current = new Map();
+        chunkSizesByPeer.current = new Map();
+        connectedPeers.current = new Set();
+        peerLabels.current = new Map();
+        trustedIdentitiesByPeer.current = new Map();
+        receiptFileCounts.current = new Map();
+        currentRoomId.current = '';
+        roomPassphrase.current = '';
+        ws.current = null;
         setView('initial'); isSender.current = false;
-        setFilesToSend([]); setRoomId(''); setJoinRoomId(''); setPeerConnected(false);
-        setTransferState('idle'); setProgress({}); setReceivedFiles([]);
+        setFilesToSend([]); setDirectoriesToSend([]); setRoomId(''); setJoinRoomId(''); setPassphrase(''); setPeers({});
+        setTransferState('idle'); setReceivedFiles([]); setReceivedDirectories([]); setPendingManifests([]); setAcceptedFiles([]); setReceipt(null);
         setTransferStartTime(null); setAverageSpeed(0); setSpeedDataPoints([]); setScheduledTime(null);
-        setErrorDetails(null);
+        setScheduleNeedsPassphrase(false); setErrorDetails(null);
         setStatusInternal({ type: 'info', message: 'Ready to connect.' });
     };
 
@@ -560,6 +1123,15 @@ const FileTransferPage: React.FC = () => {
                     aria-label="Enter Room ID to receive files"
                     className="w-full text-center font-mono text-lg px-4 py-2 bg-gray-100 dark:bg-gray-700 rounded-md border border-transparent focus:outline-none focus:ring-2 focus:ring-accent"
                 />
+                <input
+                    type="password"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    placeholder="Room passphrase (if required)"
+                    aria-label="Room passphrase"
+                    autoComplete="off"
+                    className="mt-2 w-full text-center text-lg px-4 py-2 bg-gray-100 dark:bg-gray-700 rounded-md border border-transparent focus:outline-none focus:ring-2 focus:ring-accent"
+                />
                 <button onClick={() => handleStartReceiving()} disabled={!joinRoomId.trim()} className="mt-4 w-full px-6 py-3 bg-accent text-white font-bold rounded-lg shadow-md hover:bg-opacity-80 transition-all active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-accent">
                     Join & Receive
                 </button>
@@ -576,27 +1148,65 @@ const FileTransferPage: React.FC = () => {
                 onScheduleTransfer={handleScheduleTransfer}
                 onPauseTransfer={handlePauseTransfer}
                 onResumeTransfer={handleResumeTransfer}
-                onCancelTransfer={handleCancelTransfer}
+                onCancelTransfer={() => handleCancelTransfer()}
                 onCancelSchedule={handleCancelSchedule}
                 files={filesToSend}
-                progress={progress}
+                peers={peerList}
                 transferState={transferState}
                 transferSpeed={transferSpeed}
                 averageSpeed={averageSpeed}
                 eta={eta}
                 status={status}
                 scheduledTime={scheduledTime}
+                scheduleNeedsPassphrase={scheduleNeedsPassphrase}
+                onUnlockSchedule={handleUnlockSchedule}
                 speedData={speedDataPoints}
+                parallelStreams={parallelStreams}
+                onParallelStreamsChange={handleParallelStreamsChange}
+                uploadLimit={uploadLimit}
+                onUploadLimitChange={handleUploadLimitChange}
+                passphrase={passphrase}
+                onPassphraseChange={setPassphrase}
+                passphraseProtected={!!roomPassphrase.current}
+                onConfirmSecurityCode={handleConfirmSecurityCode}
+                onRejectSecurityCode={handleRejectSecurityCode}
+                onTrustPeer={handleTrustPeer}
+                onCancelFile={handleCancelFile}
+                onPrioritizeFile={handlePrioritizeFile}
             />;
         }
         if (view === 'receiver') {
             return <ReceiverView 
                 peerConnected={peerConnected}
-                progress={progress}
+                progress={hostPeer?.progress ?? {}}
                 receivedFiles={receivedFiles}
+                receivedDirectories={receivedDirectories}
+                manifest={pendingManifests[0] ?? null}
+                onRespondToManifest={handleRespondToManifest}
+                acceptedFiles={acceptedFiles}
+                queuedFileIds={hostPeer?.queuedFileIds ?? []}
+                cancelledFileIds={hostPeer?.cancelledFileIds ?? []}
+                onCancelFile={(fileId) => hostPeer && handleCancelFile(hostPeer.peerId, fileId)}
+                onPrioritizeFile={(fileId) => hostPeer && handlePrioritizeFile(hostPeer.peerId, fileId)}
                 status={status}
-                onCancelTransfer={handleCancelTransfer}
+                onCancelTransfer={() => handleCancelTransfer()}
+                paused={transferState === 'paused'}
+                pausedByPeer={hostPeer?.pausedByPeer ?? false}
+                onPauseTransfer={handlePauseTransfer}
+                onResumeTransfer={handleResumeTransfer}
+                downloadLimit={downloadLimit}
+                onDownloadLimitChange={handleDownloadLimitChange}
                 scheduledTime={scheduledTime}
+                saveDirectoryName={saveDirectoryName}
+                securityCode={hostPeer?.securityCode ?? null}
+                securityCodeConfirmed={hostPeer?.securityCodeConfirmed ?? false}
+                cipherSuite={hostPeer?.cipherSuite ?? null}
+                peerIdentity={hostPeer?.identity ?? null}
+                onTrustPeer={() => hostPeer && handleTrustPeer(hostPeer.peerId)}
+                receipt={receipt}
+                onConfirmSecurityCode={() => hostPeer && handleConfirmSecurityCode(hostPeer.peerId)}
+                onRejectSecurityCode={() => hostPeer && handleRejectSecurityCode(hostPeer.peerId)}
+                onChooseSaveDirectory={window.showDirectoryPicker ? handleChooseSaveDirectory : undefined}
             />;
         }
         return renderInitialView();
@@ -618,6 +1228,16 @@ const FileTransferPage: React.FC = () => {
              <footer className="text-center" aria-live="polite" aria-atomic="true">
                 <p className={`text-sm font-semibold transition-colors ${getStatusColor()}`}>{status.message}</p>
             </footer>
+             {view === 'initial' && (
+                <TrustedDevicesPanel
+                    identity={deviceIdentity}
+                    trustedDevices={trustedDevices}
+                    onCreateIdentity={handleCreateIdentity}
+                    onDeleteIdentity={handleDeleteIdentity}
+                    onRemoveTrustedDevice={handleRemoveTrustedDevice}
+                />
+             )}
+             {view === 'initial' && <ReceiptVerifier trustedDevices={trustedDevices} />}
              <TransferHistory history={history} onClear={handleClearHistory} />
         </div>
     );
@@ -0,0 +1,80 @@
+import React, { useState, useMemo } from 'react';
+import { TransferManifest } from '../services/webrtcService';
+import { InformationCircleIcon } from './icons/Icons';
+import { formatBytes } from '../utils/formatters';
+
+interface ManifestPreviewProps {
+    manifest: TransferManifest;
+    onRespond: (acceptedFileIds: string[]) => void;
+}
+
+// Lists the files the sender wants to send so the receiver can pick which ones to accept before anything streams.
+const ManifestPreview: React.FC<ManifestPreviewProps> = ({ manifest, onRespond }) => {
+    const [selected, setSelected] = useState<Set<string>>(() => new Set(manifest.files.map(file => file.fileId)));
+
+    const totalSize = useMemo(() => manifest.files.reduce((sum, file) => sum + file.size, 0), [manifest]);
+    const selectedSize = useMemo(
+        () => manifest.files.filter(file => selected.has(file.fileId)).reduce((sum, file) => sum + file.size, 0),
+        [manifest, selected],
+    );
+
+    const toggle = (fileId: string) => {
+        const next = new Set(selected);
+        if (next.has(fileId)) {
+            next.delete(fileId);
+        } else {
+            next.add(fileId);
+        }
+        setSelected(next);
+    };
+
+    const handleSelectAll = (e: React.ChangeEvent<HTMLInputElement>) => {
+        setSelected(e.target.checked ? new Set(manifest.files.map(file => file.fileId)) : new Set());
+    };
+
+    return (
+        <div className="mb-6 p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-300 dark:border-blue-700 rounded-lg text-left" role="region" aria-labelledby="manifest-preview-title">
+            <div className="flex items-center justify-center gap-2 mb-2">
+                <InformationCircleIcon className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+                <h4 id="manifest-preview-title" className="font-bold">Incoming Files</h4>
+            </div>
+            <p className="text-sm text-center text-gray-600 dark:text-gray-400 mb-3">
+                The sender wants to send {manifest.files.length} {manifest.files.length === 1 ? 'file' : 'files'} ({formatBytes(totalSize)})
+                {manifest.directories.length > 0 && <> and {manifest.directories.length} empty {manifest.directories.length === 1 ? 'folder' : 'folders'}</>}.
+                Nothing is transferred until you accept.
+            </p>
+            <label className="flex items-center gap-2 px-2 pb-2 text-sm font-semibold border-b border-gray-200 dark:border-gray-700">
+                <input
+                    type="checkbox"
+                    checked={selected.size === manifest.files.length}
+                    ref={el => { if (el) el.indeterminate = selected.size > 0 && selected.size < manifest.files.length; }}
+                    onChange={handleSelectAll}
+                />
+                <span>Select all</span>
+            </label>
+            <div className="max-h-60 overflow-y-auto py-2 space-y-1">
+                {manifest.files.map(file => (
+                    <label key={file.fileId} className="flex items-center gap-2 px-2 py-1 rounded-md hover:bg-blue-100 dark:hover:bg-blue-900/40 text-sm">
+                        <input type="checkbox" checked={selected.has(file.fileId)} onChange={() => toggle(file.fileId)} />
+                        <span className="truncate flex-grow" title={file.path}>{file.path}</span>
+                        <span className="flex-shrink-0 text-xs text-gray-500">{formatBytes(file.size)}</span>
+                    </label>
+                ))}
+            </div>
+            <div className="mt-3 flex flex-wrap gap-3 justify-center">
+                <button onClick={() => onRespond([])} className="px-4 py-2 bg-red-500 text-white font-semibold rounded-lg hover:bg-red-600 transition-all active:scale-95">
+                    Reject Transfer
+                </button>
+                <button
+                    onClick={() => onRespond([...selected])}
+                    disabled={selected.size === 0}
+                    className="px-4 py-2 bg-green-500 text-white font-bold rounded-lg hover:bg-green-600 transition-all active:scale-95 disabled:opacity-50"
+                >
+                    Receive {selected.size} {selected.size === 1 ? 'file' : 'files'} ({formatBytes(selectedSize)})
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default ManifestPreview;
@@ -3,10 +3,12 @@ import { CloseIcon, CopyIcon, CheckIcon } from './icons/Icons';
 
 interface P2PTransferModalProps {
     shareableLink: string;
+    // The passphrase is deliberately not part of the link, so receivers have to get it another way.
+    passphraseProtected?: boolean;
     onClose: () => void;
 }
 
-export const P2PTransferModal: React.FC<P2PTransferModalProps> = ({ shareableLink, onClose }) => {
+export const P2PTransferModal: React.FC<P2PTransferModalProps> = ({ shareableLink, passphraseProtected = false, onClose }) => {
     const [isCopied, setIsCopied] = React.useState(false);
     
     // Using an external API for QR code generation
@@ -53,6 +55,11 @@ export const P2PTransferModal: React.FC<P2PTransferModalProps> = ({ shareableLin
                            {isCopied ? <CheckIcon className="w-5 h-5" /> : <CopyIcon className="w-5 h-5" />}
                         </button>
                     </div>
+                    {passphraseProtected && (
+                        <p className="text-center text-sm text-gray-600 dark:text-gray-400">
+                            This room is protected by a passphrase. Share it separately; it is not included in the link.
+                        </p>
+                    )}
                 </div>
             </div>
         </div>
@@ -0,0 +1,70 @@
+import React from 'react';
+import { ShieldCheckIcon, InformationCircleIcon, XCircleIcon } from './icons/Icons';
+import { PeerIdentity } from '../services/identityService';
+
+interface PeerIdentityNoticeProps {
+    identity: PeerIdentity;
+    onTrust: () => void;
+}
+
+// Tells the user whether the peer's signed device identity is one they already trust.
+const PeerIdentityNotice: React.FC<PeerIdentityNoticeProps> = ({ identity, onTrust }) => {
+    if (identity.status === 'trusted') {
+        return (
+            <div className="flex items-center justify-center gap-2 mb-4 text-sm text-green-600 dark:text-green-400">
+                <ShieldCheckIcon className="w-5 h-5" />
+                <span>Trusted device <span className="font-semibold">{identity.trustedName ?? identity.name}</span></span>
+            </div>
+        );
+    }
+
+    if (identity.status === 'missing') {
+        return (
+            <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-300 dark:border-red-700 rounded-lg" role="alert">
+                <div className="flex items-center justify-center gap-2 mb-2">
+                    <XCircleIcon className="w-5 h-5 text-red-600 dark:text-red-400" />
+                    <h4 className="font-bold text-red-700 dark:text-red-300">Device Identity Missing</h4>
+                </div>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                    This peer identified as trusted device <span className="font-semibold">{identity.trustedName ?? identity.name}</span> earlier in this session, but now presents no device identity.
+                    Someone else may have taken its place. Compare the security code before sending anything.
+                </p>
+            </div>
+        );
+    }
+
+    if (identity.status === 'changed') {
+        return (
+            <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-300 dark:border-red-700 rounded-lg" role="alert">
+                <div className="flex items-center justify-center gap-2 mb-2">
+                    <XCircleIcon className="w-5 h-5 text-red-600 dark:text-red-400" />
+                    <h4 className="font-bold text-red-700 dark:text-red-300">Identity Key Changed</h4>
+                </div>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                    <span className="font-semibold">{identity.trustedName ?? identity.name}</span> is presenting a different identity key than the one you trusted.
+                    They may have reset their device identity, or someone may be impersonating them.
+                </p>
+                <p className="mt-2 text-sm">New fingerprint: <span className="font-mono font-bold">{identity.fingerprint}</span></p>
+                <div className="mt-4 flex justify-center">
+                    <button onClick={onTrust} className="px-4 py-2 bg-red-500 text-white font-semibold rounded-lg hover:bg-red-600 transition-all active:scale-95">
+                        Trust New Key
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="mb-4 p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg text-sm flex flex-wrap items-center justify-center gap-x-3 gap-y-2">
+            <InformationCircleIcon className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+            <span>
+                Unknown device <span className="font-semibold">{identity.name}</span> &middot; <span className="font-mono">{identity.fingerprint}</span>
+            </span>
+            <button onClick={onTrust} className="px-3 py-1 bg-accent text-white font-semibold rounded-lg hover:bg-opacity-80 transition-all active:scale-95">
+                Trust Device
+            </button>
+        </div>
+    );
+};
+
+export default PeerIdentityNotice;
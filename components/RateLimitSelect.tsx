@@ -0,0 +1,31 @@
+import React from 'react';
+import { formatBytes } from '../utils/formatters';
+
+// Caps offered to the user, in bytes per second. 0 means no limit.
+const RATE_LIMIT_OPTIONS = [0, 128 * 1024, 512 * 1024, 1024 * 1024, 5 * 1024 * 1024, 10 * 1024 * 1024, 50 * 1024 * 1024];
+
+interface RateLimitSelectProps {
+    id: string;
+    label: string;
+    bytesPerSecond: number;
+    onChange: (bytesPerSecond: number) => void;
+}
+
+// Lets the user cap the upload or download rate, e.g. on a metered or shared link.
+const RateLimitSelect: React.FC<RateLimitSelectProps> = ({ id, label, bytesPerSecond, onChange }) => (
+    <div className="flex justify-between items-center gap-3 text-sm font-medium text-gray-600 dark:text-gray-400">
+        <label htmlFor={id}>{label}</label>
+        <select
+            id={id}
+            value={bytesPerSecond}
+            onChange={(e) => onChange(Number(e.target.value))}
+            className="px-2 py-1 bg-gray-100 dark:bg-gray-700 rounded-md border border-transparent focus:outline-none focus:ring-2 focus:ring-accent"
+        >
+            {RATE_LIMIT_OPTIONS.map(limit => (
+                <option key={limit} value={limit}>{limit === 0 ? 'Unlimited' : `${formatBytes(limit)}/s`}</option>
+            ))}
+        </select>
+    </div>
+);
+
+export default RateLimitSelect;
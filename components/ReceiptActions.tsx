@@ -0,0 +1,98 @@
+import React from 'react';
+import { TransferReceipt, ReceiptParty } from '../services/receiptService';
+import { DocumentIcon, ShieldCheckIcon } from './icons/Icons';
+import { formatBytes } from '../utils/formatters';
+
+interface ReceiptActionsProps {
+    receipt: TransferReceipt;
+}
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const describeParty = (party: ReceiptParty) => party.device
+    ? `${escapeHtml(party.device.name)} (device ${escapeHtml(party.device.fingerprint)})`
+    : 'No device identity';
+
+const downloadReceipt = (receipt: TransferReceipt) => {
+    const url = URL.createObjectURL(new Blob([JSON.stringify(receipt, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `transfer-receipt-${receipt.roomId}-${receipt.issuedAt.replace(/[:.]/g, '-')}.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Opens a plain, printable copy of the receipt. Every value comes from the peer, so all of it is escaped.
+const printReceipt = (receipt: TransferReceipt) => {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return;
+    const rows = receipt.files.map(file => `
+        <tr>
+            <td>${escapeHtml(file.name)}</td>
+            <td>${escapeHtml(formatBytes(file.size))}</td>
+            <td class="mono">${escapeHtml(file.sha256)}</td>
+            <td>${escapeHtml(new Date(file.receivedAt).toLocaleString())}</td>
+        </tr>`).join('');
+    const signerNote = receipt.signer.kind === 'one-time'
+        ? '<br>One-time key: the receiver had no device identity, so this receipt is not authenticated.'
+        : '';
+    printWindow.document.write(`<!DOCTYPE html>
+<html>
+<head>
+<title>Transfer Receipt</title>
+<style>
+    body { font-family: sans-serif; margin: 2rem; color: #111; }
+    table { border-collapse: collapse; width: 100%; margin-top: 1rem; }
+    th, td { border: 1px solid #999; padding: 0.4rem; text-align: left; font-size: 0.85rem; vertical-align: top; }
+    .mono { font-family: monospace; word-break: break-all; }
+    dt { font-weight: bold; margin-top: 0.5rem; }
+</style>
+</head>
+<body>
+<h1>Transfer Receipt</h1>
+<dl>
+    <dt>Room</dt><dd class="mono">${escapeHtml(receipt.roomId)}</dd>
+    <dt>Issued</dt><dd>${escapeHtml(new Date(receipt.issuedAt).toLocaleString())}</dd>
+    <dt>Cipher suite</dt><dd>${escapeHtml(receipt.cipherSuite)}</dd>
+    <dt>Sender</dt><dd>${describeParty(receipt.sender)}<br>Session key <span class="mono">${escapeHtml(receipt.sender.sessionKeyFingerprint)}</span></dd>
+    <dt>Receiver</dt><dd>${describeParty(receipt.receiver)}<br>Session key <span class="mono">${escapeHtml(receipt.receiver.sessionKeyFingerprint)}</span></dd>
+    <dt>Signed by</dt><dd><span class="mono">${escapeHtml(receipt.signer.fingerprint)}</span>${signerNote}</dd>
+</dl>
+<table>
+    <thead><tr><th>File</th><th>Size</th><th>SHA-256</th><th>Received</th></tr></thead>
+    <tbody>${rows}</tbody>
+</table>
+<p>Signature</p>
+<p class="mono">${escapeHtml(receipt.signature)}</p>
+</body>
+</html>`);
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+};
+
+// Export buttons for a signed transfer receipt.
+const ReceiptActions: React.FC<ReceiptActionsProps> = ({ receipt }) => (
+    <div className="flex flex-wrap items-center justify-center gap-2 text-sm">
+        <ShieldCheckIcon className={`w-5 h-5 ${receipt.signer.kind === 'device' ? 'text-green-500' : 'text-yellow-500'}`} />
+        <span className="text-gray-600 dark:text-gray-400">
+            {receipt.signer.kind === 'device' ? 'Signed receipt' : 'Unauthenticated receipt (one-time key)'} for {receipt.files.length} {receipt.files.length === 1 ? 'file' : 'files'}
+        </span>
+        <button
+            onClick={() => downloadReceipt(receipt)}
+            className="flex items-center gap-1.5 px-3 py-1 bg-gray-200 dark:bg-gray-700 font-semibold rounded-md hover:bg-gray-300 dark:hover:bg-gray-600"
+        >
+            <DocumentIcon className="w-4 h-4" />
+            <span>Receipt</span>
+        </button>
+        <button
+            onClick={() => printReceipt(receipt)}
+            className="px-3 py-1 bg-gray-200 dark:bg-gray-700 font-semibold rounded-md hover:bg-gray-300 dark:hover:bg-gray-600"
+        >
+            Print
+        </button>
+    </div>
+);
+
+export default ReceiptActions;
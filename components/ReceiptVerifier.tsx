@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { TrustedDevice } from '../utils/identityDB';
+import { TransferReceipt, ReceiptFileCheck, ReceiptSignatureStatus, parseReceipt, verifyReceiptSignature, findTrustedSigner, checkReceiptFiles } from '../services/receiptService';
+import { ChevronDownIcon, DocumentIcon, CheckIcon, XCircleIcon, InformationCircleIcon } from './icons/Icons';
+import { formatBytes } from '../utils/formatters';
+
+interface ReceiptVerifierProps {
+    trustedDevices: TrustedDevice[];
+}
+
+type ReceiptCheck = {
+    receipt: TransferReceipt;
+    signatureStatus: ReceiptSignatureStatus;
+    trustedSigner: TrustedDevice | null;
+};
+
+const FILE_CHECK_LABELS: Record<ReceiptFileCheck['status'], string> = {
+    match: 'Matches',
+    mismatch: 'Does not match',
+    missing: 'Not provided',
+};
+
+// Checks an exported transfer receipt: its signature, who signed it, and whether local files match it.
+const ReceiptVerifier: React.FC<ReceiptVerifierProps> = ({ trustedDevices }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [check, setCheck] = useState<ReceiptCheck | null>(null);
+    const [fileChecks, setFileChecks] = useState<ReceiptFileCheck[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isHashing, setIsHashing] = useState(false);
+
+    const handleReceiptSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setCheck(null);
+        setFileChecks(null);
+        setError(null);
+        try {
+            const receipt = parseReceipt(await file.text());
+            const signatureStatus = await verifyReceiptSignature(receipt);
+            const trustedSigner = signatureStatus === 'valid' ? await findTrustedSigner(receipt, trustedDevices) : null;
+            setCheck({ receipt, signatureStatus, trustedSigner });
+        } catch (err) {
+            setError((err as Error).message);
+        }
+    };
+
+    const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from<File>(e.target.files ?? []);
+        e.target.value = '';
+        if (!check || files.length === 0) return;
+        setIsHashing(true);
+        try {
+            setFileChecks(await checkReceiptFiles(check.receipt, files));
+        } catch (err) {
+            setError(`Could not read the selected files: ${(err as Error).message}`);
+        } finally {
+            setIsHashing(false);
+        }
+    };
+
+    return (
+        <div className="max-w-4xl mx-auto mt-8">
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg">
+                <button
+                    onClick={() => setIsOpen(!isOpen)}
+                    className="w-full flex items-center gap-3 p-4 text-left"
+                    aria-expanded={isOpen}
+                    aria-controls="receipt-verifier-content"
+                >
+                    <DocumentIcon className="w-6 h-6 text-accent" />
+                    <h2 className="text-xl font-bold">Verify a Transfer Receipt</h2>
+                    <ChevronDownIcon className={`w-6 h-6 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+                </button>
+                <div id="receipt-verifier-content" className={`overflow-hidden transition-all duration-300 ease-in-out ${isOpen ? 'max-h-[800px] ' : 'max-h-0'}`}>
+                    <div className="px-4 pb-4 border-t border-gray-200 dark:border-gray-700 space-y-4">
+                        <label className="block pt-4 text-sm">
+                            <span className="font-bold">Receipt file</span>
+                            <input type="file" accept="application/json,.json" onChange={handleReceiptSelected} className="mt-1 block w-full text-sm" />
+                        </label>
+                        {error && <p className="text-sm text-red-500" role="alert">{error}</p>}
+                        {check && (
+                            <div className="space-y-3">
+                                {check.signatureStatus === 'valid' && (
+                                    <div className="flex items-center gap-2 text-sm text-green-600 dark:text-green-400">
+                                        <CheckIcon className="w-5 h-5" />
+                                        <span>Signature valid &middot; signed by <span className="font-mono">{check.receipt.signer.fingerprint}</span></span>
+                                    </div>
+                                )}
+                                {check.signatureStatus === 'unbound' && (
+                                    <div className="flex items-center gap-2 text-sm text-yellow-600 dark:text-yellow-400" role="alert">
+                                        <InformationCircleIcon className="w-5 h-5" />
+                                        <span>Not authenticated. The receiver had no device identity and signed with a one-time key, which anyone can create. The receipt has not been altered since it was signed, but it does not show who issued it.</span>
+                                    </div>
+                                )}
+                                {check.signatureStatus === 'invalid' && (
+                                    <div className="flex items-center gap-2 text-sm text-red-600 dark:text-red-400" role="alert">
+                                        <XCircleIcon className="w-5 h-5" />
+                                        <span>The signature is invalid. This receipt has been altered or was not issued by its signer.</span>
+                                    </div>
+                                )}
+                                {check.signatureStatus === 'valid' && check.receipt.receiver.device && (
+                                    <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                                        <InformationCircleIcon className="w-5 h-5" />
+                                        <span>
+                                            {check.trustedSigner
+                                                ? <>Signed by trusted device <span className="font-semibold">{check.trustedSigner.name}</span></>
+                                                : <>Signed by <span className="font-semibold">{check.receipt.receiver.device.name}</span>, which is not a trusted device</>}
+                                        </span>
+                                    </div>
+                                )}
+                                <p className="text-sm text-gray-600 dark:text-gray-400">
+                                    Room <span className="font-mono">{check.receipt.roomId}</span> &middot; issued {new Date(check.receipt.issuedAt).toLocaleString()} &middot; {check.receipt.cipherSuite}
+                                </p>
+                                <label className="block text-sm">
+                                    <span className="font-bold">Local copies to check</span>
+                                    <input type="file" multiple onChange={handleFilesSelected} disabled={isHashing} className="mt-1 block w-full text-sm" />
+                                </label>
+                                <label className="block text-sm">
+                                    <span className="font-bold">Or a folder of received files</span>
+                                    <input type="file" ref={input => input?.setAttribute('webkitdirectory', 'true')} onChange={handleFilesSelected} disabled={isHashing} className="mt-1 block w-full text-sm" />
+                                </label>
+                                {isHashing && <p className="text-sm text-gray-500">Hashing files...</p>}
+                                <div className="space-y-2 max-h-[300px] overflow-y-auto pr-2">
+                                    {(fileChecks ?? check.receipt.files.map(entry => ({ entry, status: null }))).map(({ entry, status }, i) => (
+                                        <div key={`${entry.path}-${i}`} className="flex items-center justify-between gap-3 p-2 bg-gray-50 dark:bg-gray-700/50 rounded-md">
+                                            <div className="min-w-0">
+                                                <p className="font-semibold truncate" title={entry.path}>{entry.path}</p>
+                                                <p className="text-xs font-mono text-gray-500 dark:text-gray-400 truncate" title={entry.sha256}>{formatBytes(entry.size)} &middot; {entry.sha256}</p>
+                                            </div>
+                                            {status && (
+                                                <span className={`flex-shrink-0 text-sm font-semibold ${status === 'match' ? 'text-green-500' : status === 'mismatch' ? 'text-red-500' : 'text-gray-500'}`}>
+                                                    {FILE_CHECK_LABELS[status]}
+                                                </span>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ReceiptVerifier;
@@ -1,15 +1,57 @@
 import React, { useState, useEffect } from 'react';
-import { FileProgress, ReceivedFile, TransferStatus } from '../services/webrtcService';
-import { ShieldCheckIcon, LinkIcon, DocumentIcon, ImageIcon, VideoIcon, AudioIcon, ClockIcon } from './icons/Icons';
+import { FileProgress, ManifestFile, ReceivedFile, TransferManifest, TransferStatus } from '../services/webrtcService';
+import { ShieldCheckIcon, LinkIcon, DocumentIcon, ImageIcon, VideoIcon, AudioIcon, ClockIcon, PauseIcon, PlayIcon } from './icons/Icons';
 import { formatBytes } from '../utils/formatters';
+import SecurityCodePanel from './SecurityCodePanel';
+import PeerIdentityNotice from './PeerIdentityNotice';
+import { PeerIdentity } from '../services/identityService';
+import { TransferReceipt } from '../services/receiptService';
+import ReceiptActions from './ReceiptActions';
+import ManifestPreview from './ManifestPreview';
+import RateLimitSelect from './RateLimitSelect';
+import { writeZipArchive, ZipEntry } from '../services/zipArchive';
 
 interface ReceiverViewProps {
     peerConnected: boolean;
     progress: Record<string, FileProgress>;
     receivedFiles: ReceivedFile[];
+    // Folders the sender selected that have no files in them.
+    receivedDirectories: string[];
+    // The sender's next batch, waiting for the user to pick which files to accept.
+    manifest: TransferManifest | null;
+    onRespondToManifest: (acceptedFileIds: string[]) => void;
+    // Every file accepted so far; the ones in `queuedFileIds` are listed until they start.
+    acceptedFiles: ManifestFile[];
+    // Files the sender has not started yet, in the order it will send them.
+    queuedFileIds: string[];
+    // Files either side cancelled partway through.
+    cancelledFileIds: string[];
+    onCancelFile: (fileId: string) => void;
+    onPrioritizeFile: (fileId: string) => void;
     status: TransferStatus;
     onCancelTransfer: () => void;
+    // Whether this side paused the transfer, and whether the sender did.
+    paused: boolean;
+    pausedByPeer: boolean;
+    onPauseTransfer: () => void;
+    onResumeTransfer: () => void;
+    // Download cap in bytes per second, enforced by the sender; 0 means unlimited.
+    downloadLimit: number;
+    onDownloadLimitChange: (bytesPerSecond: number) => void;
     scheduledTime: number | null;
+    saveDirectoryName: string | null;
+    // Only provided when the browser supports writing into a user-chosen folder.
+    onChooseSaveDirectory?: () => void;
+    securityCode: string | null;
+    securityCodeConfirmed: boolean;
+    cipherSuite: string | null;
+    // The sender's signed device identity, if it has one.
+    peerIdentity: PeerIdentity | null;
+    onTrustPeer: () => void;
+    // Our signed receipt for the files received so far, once there is one.
+    receipt: TransferReceipt | null;
+    onConfirmSecurityCode: () => void;
+    onRejectSecurityCode: () => void;
 }
 
 const Countdown: React.FC<{ to: number }> = ({ to }) => {
@@ -61,15 +103,15 @@ const getFileTypeIcon = (mimeType: string) => {
     return <DocumentIcon className={commonClasses} />;
 };
 
-const ReceivingFileProgressItem: React.FC<{progress: FileProgress}> = ({ progress }) => {
-    const { fileName, fileSize, fileType, progress: percent, transferredChunks, totalChunks } = progress;
+const ReceivingFileProgressItem: React.FC<{progress: FileProgress, onCancel: () => void}> = ({ progress, onCancel }) => {
+    const { filePath, fileSize, fileType, progress: percent, transferredChunks, totalChunks } = progress;
     return (
         <div className="p-3 bg-white dark:bg-gray-800 rounded-lg text-left shadow-sm">
             <div className="flex items-center gap-3">
                 {getFileTypeIcon(fileType)}
                 <div className="flex-grow min-w-0">
                     <div className="flex justify-between items-baseline text-sm">
-                        <span className="font-semibold truncate pr-2" title={fileName}>{fileName}</span>
+                        <span className="font-semibold truncate pr-2" title={filePath}>{filePath}</span>
                         <span className="text-xs text-gray-500 flex-shrink-0">{formatBytes(fileSize)}</span>
                     </div>
                      <div className="flex justify-between items-baseline text-xs text-gray-500 dark:text-gray-400 mt-1">
@@ -81,22 +123,139 @@ const ReceivingFileProgressItem: React.FC<{progress: FileProgress}> = ({ progres
                     <div className="w-full bg-gray-300 dark:bg-gray-700 rounded-full h-2 mt-1">
                         <div className="bg-accent h-2 rounded-full transition-all" style={{ width: `${percent}%` }}></div>
                     </div>
+                    <div className="flex justify-end mt-1">
+                        <button onClick={onCancel} className="text-xs font-semibold text-red-500 hover:underline">Cancel</button>
+                    </div>
                 </div>
             </div>
         </div>
     );
 };
 
+// A file that was accepted but has not started yet.
+const QueuedFileItem: React.FC<{file: ManifestFile, position: number, onPrioritize: () => void, onCancel: () => void}> = ({ file, position, onPrioritize, onCancel }) => (
+    <div className="p-3 bg-white dark:bg-gray-800 rounded-lg text-left shadow-sm">
+        <div className="flex items-center gap-3">
+            {getFileTypeIcon(file.type)}
+            <div className="flex-grow min-w-0">
+                <div className="flex justify-between items-baseline text-sm">
+                    <span className="font-semibold truncate pr-2" title={file.path}>{file.path}</span>
+                    <span className="text-xs text-gray-500 flex-shrink-0">{formatBytes(file.size)}</span>
+                </div>
+                <div className="flex items-center gap-2 mt-1 text-xs">
+                    <span className="mr-auto text-gray-500 dark:text-gray-400">#{position + 1} in queue</span>
+                    {position > 0 && <button onClick={onPrioritize} className="font-semibold text-accent hover:underline">Receive next</button>}
+                    <button onClick={onCancel} className="font-semibold text-red-500 hover:underline">Cancel</button>
+                </div>
+            </div>
+        </div>
+    </div>
+);
+
+const CancelledFileItem: React.FC<{path: string}> = ({ path }) => (
+    <div className="flex items-center justify-between gap-3 p-3 bg-white dark:bg-gray-800 rounded-lg text-left shadow-sm text-sm">
+        <span className="truncate text-gray-500 dark:text-gray-400" title={path}>{path}</span>
+        <span className="flex-shrink-0 text-xs font-semibold text-gray-500">Cancelled</span>
+    </div>
+);
+
+// Saves the file's chunk-hash manifest so its integrity can be checked again later, without the sender.
+const downloadManifest = (file: ReceivedFile) => {
+    const url = URL.createObjectURL(new Blob([JSON.stringify(file.manifest, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${file.name}.manifest.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Named after the folder when everything came from a single one.
+const getArchiveName = (files: ReceivedFile[], directories: string[]) => {
+    const topFolders = new Set([...directories, ...files.map(file => file.path)].map(path => path.split('/')[0]));
+    const [topFolder] = topFolders;
+    return topFolders.size === 1 && files.every(file => file.path !== topFolder) ? topFolder : 'received-files';
+};
+
+// Packs everything received into one archive that keeps the sender's folder tree and modification times.
+// Where the browser can save to a file, the archive is streamed straight into it. Otherwise it becomes a
+// Blob that references the received files rather than copying them.
+const downloadZip = async (files: ReceivedFile[], directories: string[], onProgress: (entriesWritten: number) => void) => {
+    const suggestedName = `${getArchiveName(files, directories)}.zip`;
+    const now = Date.now();
+    const entries: ZipEntry[] = [
+        ...directories.map(path => ({ path, data: null, lastModified: now })),
+        ...files.map(file => ({ path: file.path, data: file.data, lastModified: file.lastModified })),
+    ];
+
+    if (window.showSaveFilePicker) {
+        let handle: FileSystemFileHandle;
+        try {
+            handle = await window.showSaveFilePicker({
+                suggestedName,
+                types: [{ description: 'ZIP archive', accept: { 'application/zip': ['.zip'] } }],
+            });
+        } catch (error) {
+            // The user closed the picker.
+            if ((error as Error).name === 'AbortError') return;
+            throw error;
+        }
+        const writable = await handle.createWritable();
+        try {
+            await writeZipArchive(entries, { write: data => writable.write(data) }, onProgress);
+            await writable.close();
+        } catch (error) {
+            await writable.abort();
+            throw error;
+        }
+        return;
+    }
+
+    const parts: BlobPart[] = [];
+    await writeZipArchive(entries, { write: async data => { parts.push(data); } }, onProgress);
+    const url = URL.createObjectURL(new Blob(parts, { type: 'application/zip' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = suggestedName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
 const ReceiverView: React.FC<ReceiverViewProps> = ({
-    peerConnected, progress, receivedFiles, onCancelTransfer, scheduledTime
+    peerConnected, progress, receivedFiles, receivedDirectories, manifest, onRespondToManifest,
+    acceptedFiles, queuedFileIds, cancelledFileIds, onCancelFile, onPrioritizeFile, onCancelTransfer,
+    paused, pausedByPeer, onPauseTransfer, onResumeTransfer, downloadLimit, onDownloadLimitChange, scheduledTime, saveDirectoryName, onChooseSaveDirectory,
+    securityCode, securityCodeConfirmed, cipherSuite, peerIdentity, onTrustPeer, receipt, onConfirmSecurityCode, onRejectSecurityCode
 }) => {
 
-    const filesInProgress = Object.values(progress);
-    const completedFilesMap = new Map(receivedFiles.map(f => [f.name, f]));
+    // Entries written to the archive being built, or null when none is.
+    const [zipProgress, setZipProgress] = useState<number | null>(null);
+    const [zipError, setZipError] = useState<string | null>(null);
+    const filesInProgress = Object.values<FileProgress>(progress);
+    const completedFilesMap = new Map<string, ReceivedFile>(receivedFiles.map(f => [f.path, f]));
+    const acceptedFilesMap = new Map<string, ManifestFile>(acceptedFiles.map(file => [file.fileId, file]));
+    const queuedFiles = queuedFileIds.flatMap(fileId => {
+        const file = acceptedFilesMap.get(fileId);
+        return file && !progress[fileId] && !cancelledFileIds.includes(fileId) ? [file] : [];
+    });
+    const zipEntryCount = receivedFiles.length + receivedDirectories.length;
+
+    const handleDownloadZip = async () => {
+        setZipProgress(0);
+        setZipError(null);
+        try {
+            await downloadZip(receivedFiles, receivedDirectories, setZipProgress);
+        } catch (error) {
+            setZipError(`Could not create the ZIP archive: ${(error as Error).message}`);
+        } finally {
+            setZipProgress(null);
+        }
+    };
 
     if (scheduledTime && Date.now() < scheduledTime && filesInProgress.length === 0) {
         return (
             <div className="w-full max-w-2xl text-center">
+                 {peerIdentity && <PeerIdentityNotice identity={peerIdentity} onTrust={onTrustPeer} />}
+                 {securityCode && <SecurityCodePanel code={securityCode} confirmed={securityCodeConfirmed} onConfirm={onConfirmSecurityCode} onReject={onRejectSecurityCode} />}
                  <div className="p-8 bg-gray-100 dark:bg-gray-900 rounded-xl">
                     <ClockIcon className="w-16 h-16 text-accent mx-auto mb-4" />
                     <h3 className="text-2xl font-bold">Waiting for Scheduled Transfer</h3>
@@ -123,13 +282,35 @@ const ReceiverView: React.FC<ReceiverViewProps> = ({
                 {peerConnected ? <ShieldCheckIcon className="w-6 h-6 text-green-500 animate-pulse" /> : <LinkIcon className={`w-6 h-6 text-red-500`} />}
                 <h3 className="text-2xl font-bold">{peerConnected ? 'Secure Connection Established' : 'Connecting...'}</h3>
             </div>
+            {cipherSuite && <p className="-mt-2 mb-4 text-xs font-mono text-gray-500 dark:text-gray-400">Encrypted with {cipherSuite}</p>}
+
+            {peerIdentity && <PeerIdentityNotice identity={peerIdentity} onTrust={onTrustPeer} />}
+
+            {securityCode && <SecurityCodePanel code={securityCode} confirmed={securityCodeConfirmed} onConfirm={onConfirmSecurityCode} onReject={onRejectSecurityCode} />}
+
+            {manifest && <ManifestPreview key={manifest.batchId} manifest={manifest} onRespond={onRespondToManifest} />}
 
             <div className="w-full bg-gray-100 dark:bg-gray-900 p-4 rounded-lg">
                 <h4 className="font-bold text-lg mb-2 text-center">Receiving Files</h4>
+                {onChooseSaveDirectory && (
+                    <div className="flex items-center justify-center gap-3 mb-3 text-sm text-gray-600 dark:text-gray-400">
+                        <span className="truncate">
+                            Saving to: <span className="font-semibold">{saveDirectoryName ?? 'browser storage'}</span>
+                        </span>
+                        <button onClick={onChooseSaveDirectory} className="flex-shrink-0 px-3 py-1 bg-accent text-white font-semibold rounded-md hover:bg-opacity-80 transition-all active:scale-95">
+                            {saveDirectoryName ? 'Change Folder' : 'Save to Folder'}
+                        </button>
+                    </div>
+                )}
+                <div className="max-w-xs mx-auto mb-3">
+                    <RateLimitSelect id="download-limit" label="Download limit" bytesPerSecond={downloadLimit} onChange={onDownloadLimitChange} />
+                </div>
+                {pausedByPeer && <p className="mb-3 text-sm font-semibold text-yellow-600 dark:text-yellow-400">The sender paused the transfer.</p>}
                 <div className="space-y-3 max-h-80 overflow-y-auto p-3 border-y border-gray-200 dark:border-gray-700">
-                    {filesInProgress.length > 0 ? (
-                        filesInProgress.map(p => {
-                            const completedFile = completedFilesMap.get(p.fileName);
+                    {filesInProgress.length > 0 || queuedFiles.length > 0 ? (
+                        <>
+                        {filesInProgress.map(p => {
+                            const completedFile = completedFilesMap.get(p.filePath);
                             if (completedFile) {
                                return (
                                 <div key={p.fileId} className="p-3 bg-white dark:bg-gray-800 rounded-lg text-left shadow-sm">
@@ -137,24 +318,68 @@ const ReceiverView: React.FC<ReceiverViewProps> = ({
                                         <div className="flex items-center gap-3 min-w-0">
                                             {getFileTypeIcon(completedFile.type)}
                                             <div className="truncate">
-                                                <p className="font-semibold truncate">{p.fileName}</p>
+                                                <p className="font-semibold truncate" title={p.filePath}>{p.filePath}</p>
                                                 <p className="text-xs text-green-500">Completed ({formatBytes(completedFile.size)})</p>
                                             </div>
                                         </div>
-                                        <a href={completedFile.url} download={completedFile.name} className="flex-shrink-0 ml-4 px-3 py-1 bg-green-500 text-white text-sm font-semibold rounded-md hover:bg-green-600">
-                                            Download
-                                        </a>
+                                        <div className="flex-shrink-0 ml-4 flex items-center gap-2">
+                                            <button
+                                                onClick={() => downloadManifest(completedFile)}
+                                                title={`Merkle root ${completedFile.manifest.merkleRoot}`}
+                                                className="px-3 py-1 bg-gray-200 dark:bg-gray-700 text-sm font-semibold rounded-md hover:bg-gray-300 dark:hover:bg-gray-600"
+                                            >
+                                                Manifest
+                                            </button>
+                                            <a href={completedFile.url} download={completedFile.name} className="px-3 py-1 bg-green-500 text-white text-sm font-semibold rounded-md hover:bg-green-600">
+                                                Download
+                                            </a>
+                                        </div>
                                     </div>
                                 </div>
                                );
                             }
-                            return <ReceivingFileProgressItem key={p.fileId} progress={p} />;
-                        })
+                            if (cancelledFileIds.includes(p.fileId)) {
+                                return <CancelledFileItem key={p.fileId} path={p.filePath} />;
+                            }
+                            return <ReceivingFileProgressItem key={p.fileId} progress={p} onCancel={() => onCancelFile(p.fileId)} />;
+                        })}
+                        {queuedFiles.map((file, position) => (
+                            <QueuedFileItem
+                                key={file.fileId}
+                                file={file}
+                                position={position}
+                                onPrioritize={() => onPrioritizeFile(file.fileId)}
+                                onCancel={() => onCancelFile(file.fileId)}
+                            />
+                        ))}
+                        </>
                     ) : (
                          <p className="text-center text-gray-500 py-8">Waiting to receive files from sender...</p>
                     )}
                 </div>
+                {receivedFiles.length > 0 && (
+                    <div className="flex flex-col items-center gap-1 mt-3 text-sm">
+                        <button
+                            onClick={handleDownloadZip}
+                            disabled={zipProgress !== null}
+                            className="px-3 py-1 bg-green-500 text-white font-semibold rounded-md hover:bg-green-600 disabled:opacity-50"
+                        >
+                            {zipProgress !== null ? `Writing ZIP... ${zipProgress} / ${zipEntryCount}` : 'Download All as ZIP'}
+                        </button>
+                        {zipError && <p className="text-red-500" role="alert">{zipError}</p>}
+                    </div>
+                )}
+                {receipt && <div className="mt-3"><ReceiptActions receipt={receipt} /></div>}
                  <div className="flex items-center justify-center gap-4 mt-4">
+                    {peerConnected && (paused ? (
+                        <button onClick={onResumeTransfer} className="px-6 py-2 bg-green-500 text-white font-bold rounded-lg shadow-md hover:bg-green-600 transition-all active:scale-95 flex items-center gap-2">
+                            <PlayIcon className="w-5 h-5"/> Resume
+                        </button>
+                    ) : (
+                        <button onClick={onPauseTransfer} className="px-6 py-2 bg-yellow-500 text-white font-bold rounded-lg shadow-md hover:bg-yellow-600 transition-all active:scale-95 flex items-center gap-2">
+                            <PauseIcon className="w-5 h-5"/> Pause
+                        </button>
+                    ))}
                     <button onClick={onCancelTransfer} className="px-6 py-2 bg-gray-500 text-white font-bold rounded-lg shadow-md hover:bg-gray-600">
                         Cancel
                     </button>
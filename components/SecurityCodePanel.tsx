@@ -0,0 +1,44 @@
+import React from 'react';
+import { ShieldCheckIcon, InformationCircleIcon } from './icons/Icons';
+
+interface SecurityCodePanelProps {
+    code: string;
+    confirmed: boolean;
+    onConfirm: () => void;
+    onReject: () => void;
+}
+
+// Shows the short authentication string both users must compare before any file is sent.
+const SecurityCodePanel: React.FC<SecurityCodePanelProps> = ({ code, confirmed, onConfirm, onReject }) => {
+    if (confirmed) {
+        return (
+            <div className="flex items-center justify-center gap-2 mb-4 text-sm text-green-600 dark:text-green-400">
+                <ShieldCheckIcon className="w-5 h-5" />
+                <span>Security code <span className="font-mono font-bold">{code}</span> verified</span>
+            </div>
+        );
+    }
+
+    return (
+        <div className="mb-6 p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-300 dark:border-yellow-700 rounded-lg" role="region" aria-labelledby="security-code-title">
+            <div className="flex items-center justify-center gap-2 mb-2">
+                <InformationCircleIcon className="w-5 h-5 text-yellow-600 dark:text-yellow-400" />
+                <h4 id="security-code-title" className="font-bold">Verify Security Code</h4>
+            </div>
+            <p className="text-4xl font-mono font-bold tracking-widest text-accent" aria-live="polite">{code}</p>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
+                Check with your peer (by phone or in person) that they see exactly the same code. If the codes differ, someone may be intercepting the connection.
+            </p>
+            <div className="mt-4 flex gap-3 justify-center">
+                <button onClick={onReject} className="px-4 py-2 bg-red-500 text-white font-semibold rounded-lg hover:bg-red-600 transition-all active:scale-95">
+                    Codes Differ
+                </button>
+                <button onClick={onConfirm} className="px-4 py-2 bg-green-500 text-white font-bold rounded-lg hover:bg-green-600 transition-all active:scale-95">
+                    Codes Match
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default SecurityCodePanel;
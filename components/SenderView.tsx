@@ -1,7 +1,8 @@
 import React, { useState, useCallback, useMemo, useEffect } from 'react';
-import { FileProgress, TransferStatus } from '../services/webrtcService';
-import { TransferState } from './FileTransferPage';
+import { FileProgress, TransferStatus, MAX_PARALLEL_STREAMS, getFileId } from '../services/webrtcService';
+import { TransferState, PeerStatus } from './FileTransferPage';
 import { formatBytes } from '../utils/formatters';
+import { getRelativePath, withRelativePath } from '../utils/relativePaths';
 import { 
     UploadCloudIcon, 
     DocumentIcon, 
@@ -20,30 +21,53 @@ import {
     ClockIcon,
 } from './icons/Icons';
 import TransferProgress from './TransferProgress';
+import RateLimitSelect from './RateLimitSelect';
+import SecurityCodePanel from './SecurityCodePanel';
+import PeerIdentityNotice from './PeerIdentityNotice';
+import ReceiptActions from './ReceiptActions';
 import { P2PTransferModal } from './P2PTransferModal';
 
 interface SenderViewProps {
     roomId: string;
     peerConnected: boolean;
-    onStartTransfer: (files: File[]) => void;
-    onScheduleTransfer: (time: number, files: File[]) => void;
+    // `directories` lists the selected folders that contain no files.
+    onStartTransfer: (files: File[], directories: string[]) => void;
+    onScheduleTransfer: (time: number, files: File[], directories: string[]) => void;
     onPauseTransfer: () => void;
     onResumeTransfer: () => void;
     onCancelTransfer: () => void;
     onCancelSchedule: () => void;
     files: File[];
-    progress: Record<string, FileProgress>;
+    peers: PeerStatus[];
     transferState: TransferState;
     transferSpeed: number;
     averageSpeed: number;
     eta: number;
     status: TransferStatus;
     scheduledTime: number | null;
+    // A restored schedule for a passphrase-protected room, waiting for the passphrase to be entered again.
+    scheduleNeedsPassphrase: boolean;
+    onUnlockSchedule: () => void;
     speedData: number[];
+    parallelStreams: number;
+    onParallelStreamsChange: (count: number) => void;
+    // Upload cap in bytes per second, shared by all receivers; 0 means unlimited.
+    uploadLimit: number;
+    onUploadLimitChange: (bytesPerSecond: number) => void;
+    passphrase: string;
+    onPassphraseChange: (passphrase: string) => void;
+    // Whether the current room was created with a passphrase.
+    passphraseProtected: boolean;
+    onConfirmSecurityCode: (peerId: string) => void;
+    onRejectSecurityCode: (peerId: string) => void;
+    onTrustPeer: (peerId: string) => void;
+    onCancelFile: (peerId: string, fileId: string) => void;
+    onPrioritizeFile: (peerId: string, fileId: string) => void;
 }
 
-// Helper to recursively read files from a dropped directory
-async function getFilesInDirectory(entry: FileSystemDirectoryEntry): Promise<File[]> {
+// Helper to recursively read files from a dropped directory. Each file keeps its path within the drop,
+// and folders without any entries are added to `emptyDirectories`.
+async function getFilesInDirectory(entry: FileSystemDirectoryEntry, emptyDirectories: string[]): Promise<File[]> {
     const reader = entry.createReader();
     // Read entries in batches until all are read
     let allEntries: FileSystemEntry[] = [];
@@ -54,15 +78,17 @@ async function getFilesInDirectory(entry: FileSystemDirectoryEntry): Promise<Fil
         });
         allEntries = allEntries.concat(currentEntries);
     } while (currentEntries.length > 0);
-
+    // Entry paths are absolute within the drop, e.g. "/Photos/2019".
+    if (allEntries.length === 0) emptyDirectories.push(entry.fullPath.slice(1));
 
     const files = await Promise.all(
         allEntries.map((innerEntry) => {
             if (innerEntry.isFile) {
-                return new Promise<File>((resolveFile, rejectFile) => (innerEntry as FileSystemFileEntry).file(resolveFile, rejectFile));
+                return new Promise<File>((resolveFile, rejectFile) => (innerEntry as FileSystemFileEntry).file(resolveFile, rejectFile))
+                    .then(file => withRelativePath(file, innerEntry.fullPath.slice(1)));
             }
             if (innerEntry.isDirectory) {
-                return getFilesInDirectory(innerEntry as FileSystemDirectoryEntry);
+                return getFilesInDirectory(innerEntry as FileSystemDirectoryEntry, emptyDirectories);
             }
             return Promise.resolve([]);
         })
@@ -85,7 +111,7 @@ const getFileTypeIcon = (mimeType: string) => {
     return <DocumentIcon className={commonClasses} />;
 };
 
-const FileDropzone: React.FC<{onFilesSelected: (files: File[]) => void}> = ({ onFilesSelected }) => {
+const FileDropzone: React.FC<{onFilesSelected: (files: File[], directories: string[]) => void}> = ({ onFilesSelected }) => {
     const [isDragActive, setIsDragActive] = useState(false);
     const fileInputRef = React.useRef<HTMLInputElement>(null);
 
@@ -105,6 +131,7 @@ const FileDropzone: React.FC<{onFilesSelected: (files: File[]) => void}> = ({ on
         setIsDragActive(false);
         try {
             const droppedFiles: File[] = [];
+            const emptyDirectories: string[] = [];
             const promises: Promise<File | File[] | null>[] = [];
         
             if (e.dataTransfer.items) {
@@ -113,7 +140,7 @@ const FileDropzone: React.FC<{onFilesSelected: (files: File[]) => void}> = ({ on
                         const entry = item.webkitGetAsEntry();
                         if (entry) {
                             if (entry.isDirectory) {
-                                promises.push(getFilesInDirectory(entry as FileSystemDirectoryEntry));
+                                promises.push(getFilesInDirectory(entry as FileSystemDirectoryEntry, emptyDirectories));
                             } else if (entry.isFile) {
                                 promises.push(new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject)));
                             }
@@ -128,11 +155,11 @@ const FileDropzone: React.FC<{onFilesSelected: (files: File[]) => void}> = ({ on
                 const results = await Promise.all(promises);
                 results.flat().forEach(file => file && droppedFiles.push(file as File));
             } else {
-                 droppedFiles.push(...Array.from(e.dataTransfer.files));
+                 droppedFiles.push(...Array.from<File>(e.dataTransfer.files));
             }
             
-            if (droppedFiles.length > 0) {
-                onFilesSelected(droppedFiles);
+            if (droppedFiles.length > 0 || emptyDirectories.length > 0) {
+                onFilesSelected(droppedFiles, emptyDirectories);
             }
         } catch (error) {
             console.error("Error processing dropped files:", error);
@@ -141,7 +168,8 @@ const FileDropzone: React.FC<{onFilesSelected: (files: File[]) => void}> = ({ on
 
     const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files && e.target.files.length > 0) {
-            onFilesSelected(Array.from(e.target.files));
+            // Files from a folder picker already carry their path in `webkitRelativePath`.
+            onFilesSelected(Array.from(e.target.files), []);
         }
     };
     
@@ -227,8 +255,10 @@ const ScheduleTransferModal: React.FC<{ onConfirm: (time: number) => void; onClo
     );
 };
 
-const FileProgressItem: React.FC<{file: File, progress: FileProgress | undefined}> = ({ file, progress }) => {
-    const { name, size, type } = file;
+// `actions` are shown under the progress bar, e.g. to cancel the file or send it next.
+const FileProgressItem: React.FC<{file: File, progress: FileProgress | undefined, actions?: React.ReactNode}> = ({ file, progress, actions }) => {
+    const { size, type } = file;
+    const path = getRelativePath(file);
     const { progress: percent = 0, transferredChunks = 0, totalChunks = 0 } = progress || {};
 
     return (
@@ -237,7 +267,7 @@ const FileProgressItem: React.FC<{file: File, progress: FileProgress | undefined
                 {getFileTypeIcon(type)}
                 <div className="flex-grow min-w-0">
                     <div className="flex justify-between items-baseline text-sm">
-                        <span className="font-semibold truncate pr-2" title={name}>{name}</span>
+                        <span className="font-semibold truncate pr-2" title={path}>{path}</span>
                         <span className="text-xs text-gray-500 flex-shrink-0">{formatBytes(size)}</span>
                     </div>
                      <div className="flex justify-between items-baseline text-xs text-gray-500 dark:text-gray-400 mt-1">
@@ -249,12 +279,85 @@ const FileProgressItem: React.FC<{file: File, progress: FileProgress | undefined
                     <div className="w-full bg-gray-300 dark:bg-gray-700 rounded-full h-2 mt-1">
                         <div className="bg-primary-light h-2 rounded-full transition-all" style={{ width: `${percent}%` }}></div>
                     </div>
+                    {actions && <div className="flex justify-end gap-2 mt-1">{actions}</div>}
                 </div>
             </div>
         </div>
     );
 };
 
+// One receiver's connection, security code and per-file progress.
+const ReceiverProgressSection: React.FC<{
+    peer: PeerStatus;
+    files: File[];
+    onConfirmSecurityCode: (peerId: string) => void;
+    onRejectSecurityCode: (peerId: string) => void;
+    onTrustPeer: (peerId: string) => void;
+    onCancelFile: (peerId: string, fileId: string) => void;
+    onPrioritizeFile: (peerId: string, fileId: string) => void;
+}> = ({ peer, files, onConfirmSecurityCode, onRejectSecurityCode, onTrustPeer, onCancelFile, onPrioritizeFile }) => (
+    <div className="p-3 bg-gray-100 dark:bg-gray-900 rounded-lg text-left">
+        <div className="flex items-center gap-2 mb-2">
+            {peer.connected ? <ShieldCheckIcon className="w-5 h-5 text-green-500"/> : <LinkIcon className="w-5 h-5 text-red-500"/>}
+            <h4 className="font-bold">{peer.label}</h4>
+            <span className="text-xs text-gray-500 dark:text-gray-400">{peer.connected ? 'Connected' : 'Not connected'}</span>
+            {peer.pausedByPeer && <span className="text-xs font-semibold text-yellow-600 dark:text-yellow-400">Paused by receiver</span>}
+            {peer.cipherSuite && <span className="ml-auto text-xs font-mono text-gray-500 dark:text-gray-400" title="Negotiated cipher suite">{peer.cipherSuite}</span>}
+        </div>
+        {peer.identity && <PeerIdentityNotice identity={peer.identity} onTrust={() => onTrustPeer(peer.peerId)} />}
+        {peer.securityCode && (
+            <SecurityCodePanel
+                code={peer.securityCode}
+                confirmed={peer.securityCodeConfirmed}
+                onConfirm={() => onConfirmSecurityCode(peer.peerId)}
+                onReject={() => onRejectSecurityCode(peer.peerId)}
+            />
+        )}
+        <div className="space-y-2">
+            {files.map((file) => {
+                const path = getRelativePath(file);
+                if (peer.declinedPaths.includes(path)) {
+                    return (
+                        <div key={`${path}-${file.lastModified}`} className="flex items-center justify-between gap-3 p-2 bg-white dark:bg-gray-800 rounded-lg shadow-sm text-sm">
+                            <span className="truncate text-gray-500 dark:text-gray-400" title={path}>{path}</span>
+                            <span className="flex-shrink-0 text-xs font-semibold text-gray-500">Declined by receiver</span>
+                        </div>
+                    );
+                }
+                const fileId = getFileId(file);
+                if (peer.cancelledFileIds.includes(fileId)) {
+                    return (
+                        <div key={`${path}-${file.lastModified}`} className="flex items-center justify-between gap-3 p-2 bg-white dark:bg-gray-800 rounded-lg shadow-sm text-sm">
+                            <span className="truncate text-gray-500 dark:text-gray-400" title={path}>{path}</span>
+                            <span className="flex-shrink-0 text-xs font-semibold text-gray-500">Cancelled</span>
+                        </div>
+                    );
+                }
+                const currentProgress = Object.values<FileProgress>(peer.progress).find(p => p.filePath === path);
+                const queuePosition = peer.queuedFileIds.indexOf(fileId);
+                const inFlight = queuePosition === -1 && !!currentProgress && currentProgress.progress < 100;
+                const actions = peer.connected && (queuePosition !== -1 || inFlight) && (
+                    <>
+                        {queuePosition !== -1 && <span className="mr-auto text-xs text-gray-500 dark:text-gray-400">#{queuePosition + 1} in queue</span>}
+                        {queuePosition > 0 && (
+                            <button onClick={() => onPrioritizeFile(peer.peerId, fileId)} className="text-xs font-semibold text-primary-light hover:underline">
+                                Send next
+                            </button>
+                        )}
+                        <button onClick={() => onCancelFile(peer.peerId, fileId)} className="text-xs font-semibold text-red-500 hover:underline">
+                            Cancel
+                        </button>
+                    </>
+                );
+                return (
+                    <FileProgressItem key={`${path}-${file.lastModified}`} file={file} progress={currentProgress} actions={actions} />
+                )
+            })}
+        </div>
+        {peer.receipt && <div className="mt-2"><ReceiptActions receipt={peer.receipt} /></div>}
+    </div>
+);
+
 const Countdown: React.FC<{ to: number }> = ({ to }) => {
     const [timeLeft, setTimeLeft] = useState(to - Date.now());
 
@@ -287,16 +390,19 @@ const Countdown: React.FC<{ to: number }> = ({ to }) => {
 };
 
 const SenderView: React.FC<SenderViewProps> = ({
-    roomId, peerConnected, onStartTransfer, onScheduleTransfer, onPauseTransfer, onResumeTransfer, onCancelTransfer, onCancelSchedule,
-    files, progress, transferState, transferSpeed, averageSpeed, eta, scheduledTime, speedData
+    roomId, peerConnected, onStartTransfer, onScheduleTransfer, onPauseTransfer, onResumeTransfer, onCancelTransfer, onCancelSchedule, onUnlockSchedule,
+    files, peers, transferState, transferSpeed, averageSpeed, eta, scheduledTime, scheduleNeedsPassphrase, speedData,
+    parallelStreams, onParallelStreamsChange, uploadLimit, onUploadLimitChange, passphrase, onPassphraseChange, passphraseProtected,
+    onConfirmSecurityCode, onRejectSecurityCode, onTrustPeer, onCancelFile, onPrioritizeFile
 }) => {
     const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+    const [selectedDirectories, setSelectedDirectories] = useState<string[]>([]);
     const [isScheduling, setIsScheduling] = useState(false);
     const [isShareModalOpen, setIsShareModalOpen] = useState(false);
     const [transferSelection, setTransferSelection] = useState<Set<string>>(new Set());
     const [lastSelectedIndex, setLastSelectedIndex] = useState<number | null>(null);
 
-    const getFileKey = (file: File): string => `${file.name}-${file.size}-${file.lastModified}`;
+    const getFileKey = (file: File): string => `${getRelativePath(file)}-${file.size}-${file.lastModified}`;
 
     useEffect(() => {
         if (files.length > 0 && selectedFiles.length === 0 && (transferState !== 'idle')) {
@@ -304,15 +410,16 @@ const SenderView: React.FC<SenderViewProps> = ({
         }
     }, [files, selectedFiles, transferState]);
 
-    const handleFilesSelected = useCallback((newFiles: File[]) => {
+    const handleFilesSelected = useCallback((newFiles: File[], newDirectories: string[]) => {
         const uniqueNewFiles = newFiles.filter(newFile => 
             !selectedFiles.some(existingFile => 
-                existingFile.name === newFile.name && 
+                getRelativePath(existingFile) === getRelativePath(newFile) && 
                 existingFile.size === newFile.size && 
                 existingFile.lastModified === newFile.lastModified
             )
         );
         setSelectedFiles(prev => [...prev, ...uniqueNewFiles]);
+        setSelectedDirectories(prev => [...new Set([...prev, ...newDirectories])]);
     }, [selectedFiles]);
 
     const handleRemoveFile = (indexToRemove: number) => {
@@ -330,6 +437,7 @@ const SenderView: React.FC<SenderViewProps> = ({
     
     const handleClearAll = () => {
         setSelectedFiles([]);
+        setSelectedDirectories([]);
         setTransferSelection(new Set());
         setLastSelectedIndex(null);
     };
@@ -378,14 +486,14 @@ const SenderView: React.FC<SenderViewProps> = ({
     const handleStart = () => {
         const filesToTransfer = selectedFiles.filter(file => transferSelection.has(getFileKey(file)));
         if (filesToTransfer.length > 0) {
-            onStartTransfer(filesToTransfer);
+            onStartTransfer(filesToTransfer, selectedDirectories);
         }
     };
     
     const handleScheduleConfirm = (time: number) => {
         const filesToTransfer = selectedFiles.filter(file => transferSelection.has(getFileKey(file)));
         if (filesToTransfer.length > 0) {
-            onScheduleTransfer(time, filesToTransfer);
+            onScheduleTransfer(time, filesToTransfer, selectedDirectories);
         }
         setIsScheduling(false);
     };
@@ -399,19 +507,21 @@ const SenderView: React.FC<SenderViewProps> = ({
     }, [roomId, scheduledTime, transferState]);
 
     useEffect(() => {
-        if (roomId && !peerConnected && transferState !== 'scheduled') {
+        if (roomId && peers.length === 0 && transferState !== 'scheduled') {
             setIsShareModalOpen(true);
         }
-    }, [roomId, peerConnected, transferState]);
+    }, [roomId, peers.length, transferState]);
     
     const totalSize = useMemo(() => files.reduce((sum, f) => sum + f.size, 0), [files]);
 
+    // Each receiver gets its own copy, so overall progress covers every receiver.
     const totalTransferred = useMemo(() => {
-        return Object.values(progress).reduce((sum, p) => {
-            const file = files.find(f => f.name === p.fileName);
+        return peers.reduce((peerSum, peer) => peerSum + Object.values<FileProgress>(peer.progress).reduce((sum, p) => {
+            const file = files.find(f => getRelativePath(f) === p.filePath);
             return sum + ((file?.size || 0) * p.progress) / 100;
-        }, 0);
-    }, [progress, files]);
+        }, 0), 0);
+    }, [peers, files]);
+    const connectedCount = peers.filter(peer => peer.connected).length;
 
     const filesToTransferCount = transferSelection.size;
     const totalSizeForTransfer = useMemo(() => {
@@ -463,7 +573,7 @@ const SenderView: React.FC<SenderViewProps> = ({
                                         />
                                         {getFileTypeIcon(file.type)}
                                         <div className="truncate">
-                                            <span className="truncate text-sm font-semibold text-text-light dark:text-text-dark" title={file.name}>{file.name}</span>
+                                            <span className="truncate text-sm font-semibold text-text-light dark:text-text-dark" title={getRelativePath(file)}>{getRelativePath(file)}</span>
                                             <span className="text-xs text-gray-500 block">{formatBytes(file.size)}</span>
                                         </div>
                                     </div>
@@ -482,9 +592,43 @@ const SenderView: React.FC<SenderViewProps> = ({
                         </div>
                         
                         <div className="mt-4 flex justify-between items-center text-sm font-medium text-gray-600 dark:text-gray-400 px-1">
-                           <p>Selected: <span className="font-bold text-text-light dark:text-text-dark">{filesToTransferCount} / {selectedFiles.length} file(s)</span></p>
+                           <p>
+                               Selected: <span className="font-bold text-text-light dark:text-text-dark">{filesToTransferCount} / {selectedFiles.length} file(s)</span>
+                               {selectedDirectories.length > 0 && <> &middot; {selectedDirectories.length} empty folder(s)</>}
+                           </p>
                            <p>Size: <span className="font-bold text-text-light dark:text-text-dark">{formatBytes(totalSizeForTransfer)}</span></p>
                         </div>
+
+                        <div className="mt-2 flex justify-between items-center text-sm font-medium text-gray-600 dark:text-gray-400 px-1">
+                            <label htmlFor="parallel-streams">Files sent in parallel</label>
+                            <select
+                                id="parallel-streams"
+                                value={parallelStreams}
+                                onChange={(e) => onParallelStreamsChange(Number(e.target.value))}
+                                className="px-2 py-1 bg-gray-100 dark:bg-gray-700 rounded-md border border-transparent focus:outline-none focus:ring-2 focus:ring-accent"
+                            >
+                                {Array.from({ length: MAX_PARALLEL_STREAMS }, (_, i) => i + 1).map(count => (
+                                    <option key={count} value={count}>{count}</option>
+                                ))}
+                            </select>
+                        </div>
+
+                        <div className="mt-2 px-1">
+                            <RateLimitSelect id="upload-limit" label="Upload limit" bytesPerSecond={uploadLimit} onChange={onUploadLimitChange} />
+                        </div>
+
+                        <div className="mt-2 px-1 text-sm font-medium text-gray-600 dark:text-gray-400">
+                            <label htmlFor="room-passphrase" className="block mb-1">Room passphrase (optional)</label>
+                            <input
+                                id="room-passphrase"
+                                type="password"
+                                value={passphrase}
+                                onChange={(e) => onPassphraseChange(e.target.value)}
+                                placeholder="Receivers must enter it to join"
+                                autoComplete="new-password"
+                                className="w-full px-3 py-2 bg-gray-100 dark:bg-gray-700 rounded-md border border-transparent focus:outline-none focus:ring-2 focus:ring-accent"
+                            />
+                        </div>
                         
                         <div className="mt-4 grid grid-cols-2 gap-3">
                              <button 
@@ -511,7 +655,19 @@ const SenderView: React.FC<SenderViewProps> = ({
     if (transferState === 'scheduled') {
         return (
             <div className="w-full max-w-2xl text-center">
-                 {isShareModalOpen && roomId && <P2PTransferModal shareableLink={shareableLink} onClose={() => setIsShareModalOpen(false)} />}
+                 {isShareModalOpen && roomId && <P2PTransferModal shareableLink={shareableLink} passphraseProtected={passphraseProtected} onClose={() => setIsShareModalOpen(false)} />}
+                 {peers.filter(peer => peer.securityCode).map(peer => (
+                     <div key={peer.peerId}>
+                         <h4 className="font-bold mb-2">{peer.label}</h4>
+                         {peer.identity && <PeerIdentityNotice identity={peer.identity} onTrust={() => onTrustPeer(peer.peerId)} />}
+                         <SecurityCodePanel
+                             code={peer.securityCode!}
+                             confirmed={peer.securityCodeConfirmed}
+                             onConfirm={() => onConfirmSecurityCode(peer.peerId)}
+                             onReject={() => onRejectSecurityCode(peer.peerId)}
+                         />
+                     </div>
+                 ))}
                  <div className="p-8 bg-gray-100 dark:bg-gray-900 rounded-xl">
                     <ClockIcon className="w-16 h-16 text-accent mx-auto mb-4" />
                     <h3 className="text-2xl font-bold">Transfer Scheduled</h3>
@@ -520,12 +676,32 @@ const SenderView: React.FC<SenderViewProps> = ({
                     </p>
                     {scheduledTime && <Countdown to={scheduledTime} />}
                     <p className="text-sm text-gray-500 mt-2">
-                        Your peer must join the room before the countdown ends.
+                        Your receivers must join the room before the countdown ends.
                     </p>
+                    {scheduleNeedsPassphrase && (
+                        <div className="mt-6 text-left text-sm">
+                            <label htmlFor="schedule-passphrase" className="block mb-1">This room is protected. Enter its passphrase to reopen it.</label>
+                            <input
+                                id="schedule-passphrase"
+                                type="password"
+                                value={passphrase}
+                                onChange={(e) => onPassphraseChange(e.target.value)}
+                                onKeyDown={(e) => e.key === 'Enter' && onUnlockSchedule()}
+                                autoComplete="current-password"
+                                className="w-full px-3 py-2 bg-white dark:bg-gray-700 rounded-md border border-transparent focus:outline-none focus:ring-2 focus:ring-accent"
+                            />
+                        </div>
+                    )}
                      <div className="mt-6 flex flex-col sm:flex-row gap-4 justify-center">
-                         <button onClick={() => setIsShareModalOpen(true)} className="px-6 py-3 bg-accent text-white font-bold rounded-lg shadow-md hover:bg-opacity-80 transition-all active:scale-95 flex items-center justify-center gap-2">
-                            <ShareIcon className="w-5 h-5" /> Share Link
-                        </button>
+                        {scheduleNeedsPassphrase ? (
+                            <button onClick={onUnlockSchedule} disabled={!passphrase} className="px-6 py-3 bg-accent text-white font-bold rounded-lg shadow-md hover:bg-opacity-80 transition-all active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed">
+                                Reopen Room
+                            </button>
+                        ) : (
+                            <button onClick={() => setIsShareModalOpen(true)} className="px-6 py-3 bg-accent text-white font-bold rounded-lg shadow-md hover:bg-opacity-80 transition-all active:scale-95 flex items-center justify-center gap-2">
+                                <ShareIcon className="w-5 h-5" /> Share Link
+                            </button>
+                        )}
                         <button onClick={onCancelSchedule} className="px-6 py-3 bg-red-500 text-white font-bold rounded-lg shadow-md hover:bg-red-600 transition-all active:scale-95">
                            Cancel Schedule
                         </button>
@@ -537,15 +713,21 @@ const SenderView: React.FC<SenderViewProps> = ({
 
     return (
         <div className="w-full max-w-2xl text-center">
-            {isShareModalOpen && roomId && <P2PTransferModal shareableLink={shareableLink} onClose={() => setIsShareModalOpen(false)} />}
+            {isShareModalOpen && roomId && <P2PTransferModal shareableLink={shareableLink} passphraseProtected={passphraseProtected} onClose={() => setIsShareModalOpen(false)} />}
              <div className="flex items-center justify-center gap-2 mb-2">
                 {peerConnected ? <ShieldCheckIcon className="w-6 h-6 text-green-500 animate-pulse"/> : <LinkIcon className="w-6 h-6 text-red-500"/>}
-                <h3 className="text-2xl font-bold">{peerConnected ? 'Secure Connection Established' : 'Waiting for Peer...' }</h3>
+                <h3 className="text-2xl font-bold">
+                    {peerConnected ? `Secure Connection to ${connectedCount} Receiver${connectedCount === 1 ? '' : 's'}` : 'Waiting for Peer...' }
+                </h3>
             </div>
-            
-            {!peerConnected && roomId && (
+
+            {roomId && (
                  <div className="mb-6 p-4 bg-gray-100 dark:bg-gray-900 rounded-lg">
-                    <p className="text-gray-600 dark:text-gray-400 mb-3">A secure room has been created. Invite your peer to begin the transfer.</p>
+                    <p className="text-gray-600 dark:text-gray-400 mb-3">
+                        {peers.length === 0
+                            ? 'A secure room has been created. Invite your peer to begin the transfer.'
+                            : 'More receivers can join with the same link at any time.'}
+                    </p>
                     <button 
                         onClick={() => setIsShareModalOpen(true)} 
                         className="w-full sm:w-auto px-6 py-3 bg-accent text-white font-bold rounded-lg shadow-md hover:bg-opacity-80 transition-all active:scale-95 flex items-center justify-center gap-2 mx-auto"
@@ -559,23 +741,38 @@ const SenderView: React.FC<SenderViewProps> = ({
             <TransferProgress
                 fileName="Overall Progress"
                 transferredBytes={totalTransferred}
-                totalBytes={totalSize}
+                totalBytes={totalSize * Math.max(1, peers.length)}
                 currentSpeed={transferSpeed}
                 averageSpeed={averageSpeed}
                 eta={eta}
                 status={transferState === 'done' ? 'completed' : transferState === 'connecting' ? 'transferring' : transferState}
                 speedData={speedData}
+                rateDecisions={peers.flatMap(peer => peer.rate ? [{ label: peer.label, decision: peer.rate }] : [])}
+                rateLimits={[
+                    ...(uploadLimit > 0 ? [{ label: 'upload', bytesPerSecond: uploadLimit }] : []),
+                    ...peers.flatMap(peer => peer.downloadLimit > 0 ? [{ label: `${peer.label} download`, bytesPerSecond: peer.downloadLimit }] : []),
+                ]}
             />
 
-            <div className="space-y-2 max-h-48 overflow-y-auto p-2 border-y border-gray-200 dark:border-gray-700 mt-4">
-                {files.map((file) => {
-                    const currentProgress = Object.values(progress).find(p => p.fileName === file.name);
-                    return (
-                        <FileProgressItem key={`${file.name}-${file.lastModified}`} file={file} progress={currentProgress} />
-                    )
-                })}
+            <div className="space-y-3 max-h-96 overflow-y-auto p-2 border-y border-gray-200 dark:border-gray-700 mt-4">
+                {peers.map(peer => (
+                    <ReceiverProgressSection
+                        key={peer.peerId}
+                        peer={peer}
+                        files={files}
+                        onConfirmSecurityCode={onConfirmSecurityCode}
+                        onRejectSecurityCode={onRejectSecurityCode}
+                        onTrustPeer={onTrustPeer}
+                        onCancelFile={onCancelFile}
+                        onPrioritizeFile={onPrioritizeFile}
+                    />
+                ))}
             </div>
             
+            <div className="mt-4 px-1 max-w-xs mx-auto">
+                <RateLimitSelect id="upload-limit-active" label="Upload limit" bytesPerSecond={uploadLimit} onChange={onUploadLimitChange} />
+            </div>
+
             <div className="flex items-center justify-center gap-4 mt-4">
                 {transferState === 'transferring' && (
                     <button onClick={onPauseTransfer} className="px-6 py-2 bg-yellow-500 text-white font-bold rounded-lg shadow-md hover:bg-yellow-600 transition-all active:scale-95 flex items-center gap-2">
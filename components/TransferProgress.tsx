@@ -1,5 +1,6 @@
 import React from 'react';
 import { formatBytes, formatEta } from '../utils/formatters';
+import { RateDecision } from '../services/rateController';
 
 type TransferStatus = 'transferring' | 'paused' | 'completed' | 'error' | 'idle';
 
@@ -45,8 +46,34 @@ interface TransferProgressProps {
     eta: number; // seconds
     status?: TransferStatus;
     speedData?: number[];
+    // The rate controller's latest decision for each connection, shown for debugging.
+    rateDecisions?: { label: string; decision: RateDecision }[];
+    // User-set speed caps in effect, in bytes per second.
+    rateLimits?: { label: string; bytesPerSecond: number }[];
 }
 
+const RateDecisionList: React.FC<{ decisions: { label: string; decision: RateDecision }[] }> = ({ decisions }) => (
+    <details className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+        <summary className="cursor-pointer font-semibold">Rate control</summary>
+        <div className="mt-2 space-y-2">
+            {decisions.map(({ label, decision }) => (
+                <div key={label} className="font-mono">
+                    <p className="font-semibold">{label}</p>
+                    <p>
+                        RTT {decision.rttMs !== null ? `${Math.round(decision.rttMs)} ms` : 'n/a'}
+                        {decision.minRttMs !== null && ` (min ${Math.round(decision.minRttMs)} ms)`}
+                        {' '}&middot; sent {formatBytes(decision.sendRate)}/s &middot; est. {formatBytes(decision.estimatedBandwidth)}/s
+                    </p>
+                    <p>
+                        Buffer {formatBytes(decision.lowWaterMark)} &ndash; {formatBytes(decision.highWaterMark)} &middot; chunks {formatBytes(decision.chunkSize)} &middot; frames {formatBytes(decision.frameSize)}
+                    </p>
+                    <p className="font-sans">{decision.reason}</p>
+                </div>
+            ))}
+        </div>
+    </details>
+);
+
 const TransferProgress: React.FC<TransferProgressProps> = ({
     fileName = 'Overall Progress',
     transferredBytes,
@@ -56,6 +83,8 @@ const TransferProgress: React.FC<TransferProgressProps> = ({
     eta,
     status = 'transferring',
     speedData = [],
+    rateDecisions = [],
+    rateLimits = [],
 }) => {
     const percentage = totalBytes > 0 ? (transferredBytes / totalBytes) * 100 : 0;
 
@@ -112,8 +141,14 @@ const TransferProgress: React.FC<TransferProgressProps> = ({
                 <span>Transferred: {formatBytes(transferredBytes)} / {formatBytes(totalBytes)}</span>
                 <span>Avg: {formatBytes(averageSpeed)}/s</span>
             </div>
+            {rateLimits.length > 0 && (
+                <p className="text-xs text-yellow-600 dark:text-yellow-400 mt-1 px-2">
+                    Capped: {rateLimits.map(({ label, bytesPerSecond }) => `${label} ${formatBytes(bytesPerSecond)}/s`).join(' \u00b7 ')}
+                </p>
+            )}
 
             {status === 'transferring' && <SpeedChart data={speedData} />}
+            {rateDecisions.length > 0 && <RateDecisionList decisions={rateDecisions} />}
         </div>
     );
 };
@@ -0,0 +1,128 @@
+import React, { useState, useEffect } from 'react';
+import { DeviceIdentity, TrustedDevice } from '../utils/identityDB';
+import { computeIdentityFingerprint } from '../services/cryptoService';
+import { ChevronDownIcon, ShieldCheckIcon, TrashIcon, PlusIcon } from './icons/Icons';
+
+interface TrustedDevicesPanelProps {
+    identity: DeviceIdentity | null;
+    trustedDevices: TrustedDevice[];
+    onCreateIdentity: (name: string) => void;
+    onDeleteIdentity: () => void;
+    onRemoveTrustedDevice: (deviceId: string) => void;
+}
+
+// Lets the user manage this device's signing identity and the devices they have chosen to trust.
+const TrustedDevicesPanel: React.FC<TrustedDevicesPanelProps> = ({ identity, trustedDevices, onCreateIdentity, onDeleteIdentity, onRemoveTrustedDevice }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [deviceName, setDeviceName] = useState('');
+    // Fingerprints are derived asynchronously, keyed by device ID once computed.
+    const [fingerprints, setFingerprints] = useState<Map<string, string>>(new Map());
+
+    useEffect(() => {
+        let cancelled = false;
+        const devices = [...(identity ? [identity] : []), ...trustedDevices];
+        Promise.all(devices.map(async device => [device.deviceId, await computeIdentityFingerprint(device.publicKey)] as const))
+            .then(entries => { if (!cancelled) setFingerprints(new Map(entries)); })
+            .catch(error => console.error('Failed to compute identity fingerprints:', error));
+        return () => { cancelled = true; };
+    }, [identity, trustedDevices]);
+
+    return (
+        <div className="max-w-4xl mx-auto mt-8">
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg">
+                <div className="w-full flex justify-between items-center p-4">
+                    <button
+                        onClick={() => setIsOpen(!isOpen)}
+                        className="flex items-center gap-3 flex-grow text-left"
+                        aria-expanded={isOpen}
+                        aria-controls="trusted-devices-content"
+                    >
+                        <ShieldCheckIcon className="w-6 h-6 text-accent" />
+                        <h2 className="text-xl font-bold">Device Identity &amp; Trusted Devices</h2>
+                        <ChevronDownIcon className={`w-6 h-6 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+                    </button>
+                    {trustedDevices.length > 0 && (
+                        <span className="text-sm font-semibold text-gray-500 bg-gray-200 dark:bg-gray-700 px-2 py-0.5 rounded-full">{trustedDevices.length}</span>
+                    )}
+                </div>
+                <div id="trusted-devices-content" className={`overflow-hidden transition-all duration-300 ease-in-out ${isOpen ? 'max-h-[600px] ' : 'max-h-0'}`}>
+                    <div className="px-4 pb-4 border-t border-gray-200 dark:border-gray-700 space-y-4">
+                        <div className="pt-4">
+                            <h3 className="font-bold mb-2">This Device</h3>
+                            {identity ? (
+                                <div className="flex items-center justify-between gap-3 p-2 bg-gray-50 dark:bg-gray-700/50 rounded-md">
+                                    <div className="min-w-0">
+                                        <p className="font-semibold truncate">{identity.name}</p>
+                                        <p className="text-xs font-mono text-gray-500 dark:text-gray-400">{fingerprints.get(identity.deviceId) ?? '…'}</p>
+                                    </div>
+                                    <button
+                                        onClick={onDeleteIdentity}
+                                        className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-semibold bg-red-500/10 text-red-500 rounded-lg hover:bg-red-500/20 transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-red-500"
+                                        aria-label="Delete this device's identity"
+                                    >
+                                        <TrashIcon className="w-4 h-4"/>
+                                        <span>Delete</span>
+                                    </button>
+                                </div>
+                            ) : (
+                                <div>
+                                    <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">
+                                        Create an identity so peers who trust this device can recognise it in future sessions.
+                                    </p>
+                                    <div className="flex gap-2">
+                                        <input
+                                            type="text"
+                                            value={deviceName}
+                                            onChange={(e) => setDeviceName(e.target.value)}
+                                            placeholder="Device name, e.g. Alex's laptop"
+                                            aria-label="Device name"
+                                            maxLength={64}
+                                            className="flex-grow px-3 py-1.5 bg-gray-100 dark:bg-gray-700 rounded-md border border-transparent focus:outline-none focus:ring-2 focus:ring-accent"
+                                        />
+                                        <button
+                                            onClick={() => { onCreateIdentity(deviceName); setDeviceName(''); }}
+                                            disabled={!deviceName.trim()}
+                                            className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-semibold bg-accent text-white rounded-lg hover:bg-opacity-80 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                                        >
+                                            <PlusIcon className="w-4 h-4"/>
+                                            <span>Create</span>
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                        <div>
+                            <h3 className="font-bold mb-2">Trusted Devices</h3>
+                            {trustedDevices.length > 0 ? (
+                                <div className="space-y-2 max-h-[300px] overflow-y-auto pr-2">
+                                    {trustedDevices.map(device => (
+                                        <div key={device.deviceId} className="flex items-center justify-between gap-3 p-2 bg-gray-50 dark:bg-gray-700/50 rounded-md">
+                                            <div className="min-w-0">
+                                                <p className="font-semibold truncate">{device.name}</p>
+                                                <p className="text-xs text-gray-500 dark:text-gray-400">
+                                                    <span className="font-mono">{fingerprints.get(device.deviceId) ?? '…'}</span>
+                                                    <span> &middot; trusted {new Date(device.addedAt).toLocaleDateString()}</span>
+                                                </p>
+                                            </div>
+                                            <button
+                                                onClick={() => onRemoveTrustedDevice(device.deviceId)}
+                                                className="p-1.5 text-red-500 rounded-lg hover:bg-red-500/10 transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-red-500"
+                                                aria-label={`Stop trusting ${device.name}`}
+                                            >
+                                                <TrashIcon className="w-4 h-4"/>
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                            ) : (
+                                <p className="text-center text-gray-500 py-2">No trusted devices yet. Trust a peer from the transfer screen.</p>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default TrustedDevicesPanel;
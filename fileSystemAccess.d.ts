@@ -0,0 +1,21 @@
+// Parts of the File System Access API that the DOM typings do not include yet.
+// Both pickers are missing in some browsers, so callers check for them first.
+
+interface FilePickerAcceptType {
+    description?: string;
+    accept: Record<string, string[]>;
+}
+
+interface SaveFilePickerOptions {
+    suggestedName?: string;
+    types?: FilePickerAcceptType[];
+}
+
+interface DirectoryPickerOptions {
+    mode?: 'read' | 'readwrite';
+}
+
+interface Window {
+    showSaveFilePicker?(options?: SaveFilePickerOptions): Promise<FileSystemFileHandle>;
+    showDirectoryPicker?(options?: DirectoryPickerOptions): Promise<FileSystemDirectoryHandle>;
+}
@@ -0,0 +1,184 @@
+import express from 'express';
+import http from 'http';
+import { randomUUID } from 'crypto';
+import WebSocket, { WebSocketServer } from 'ws';
+import {
+    ClientSignalingMessage,
+    OutgoingRelayMessage,
+    RelayedSignalingMessage,
+    ServerSignalingMessage,
+    RELAYED_MESSAGE_TYPES,
+    parseClientMessage,
+} from '../shared/signalingMessages';
+
+console.log('Starting Swaz WebRTC Signaling Server...');
+
+const app = express();
+const server = http.createServer(app);
+const wss = new WebSocketServer({ server });
+
+// A room is hosted by the sender who created it; any number of receivers (up to a limit) can join.
+const MAX_RECEIVERS_PER_ROOM = Number(process.env.MAX_RECEIVERS_PER_ROOM) || 8;
+
+type Room = {
+    hostId: string;
+    clients: Map<string, WebSocket>;
+    // Set by the host; tells receivers they need the room passphrase before key exchange can succeed.
+    passphraseProtected: boolean;
+};
+type ClientInfo = { roomId: string; peerId: string };
+type JoinRoomPayload = Extract<ClientSignalingMessage, { type: 'join-room' }>['payload'];
+
+const rooms = new Map<string, Room>();
+const clientInfo = new Map<WebSocket, ClientInfo>();
+
+function send(ws: WebSocket, message: ServerSignalingMessage) {
+    if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify(message));
+    }
+}
+
+const isOutgoingRelayMessage = (message: ClientSignalingMessage): message is OutgoingRelayMessage =>
+    (RELAYED_MESSAGE_TYPES as readonly string[]).includes(message.type);
+
+wss.on('connection', (ws) => {
+    console.log('Client connected');
+
+    ws.on('message', (data, isBinary) => {
+        if (isBinary) {
+            send(ws, { type: 'error', payload: { message: 'Binary messages are not supported.' } });
+            return;
+        }
+
+        const result = parseClientMessage(data.toString());
+        if (!result.ok) {
+            console.error('Rejected signaling message:', result.error);
+            send(ws, { type: 'error', payload: { message: `Rejected message: ${result.error}` } });
+            return;
+        }
+
+        const message = result.message;
+        if (message.type === 'join-room') {
+            handleJoinRoom(ws, message.payload);
+        } else if (isOutgoingRelayMessage(message)) {
+            relayMessage(ws, message);
+        }
+    });
+
+    ws.on('close', () => {
+        console.log('Client disconnected');
+        handleDisconnect(ws);
+    });
+
+    ws.on('error', (error) => {
+        console.error('WebSocket error:', error);
+        handleDisconnect(ws);
+    });
+});
+
+function handleJoinRoom(ws: WebSocket, { roomId: providedRoomId, peerId: providedPeerId, asHost, passphraseProtected }: JoinRoomPayload) {
+    if (clientInfo.has(ws)) {
+        send(ws, { type: 'error', payload: { message: 'Already in a room' } });
+        return;
+    }
+
+    const peerId = providedPeerId || randomUUID();
+    const roomId = providedRoomId || randomUUID();
+    let room = rooms.get(roomId);
+
+    if (!room) {
+        if (!asHost) {
+            // Receivers may only join rooms that a sender is hosting.
+            send(ws, { type: 'error', payload: { message: 'Room not found' } });
+            return;
+        }
+        room = { hostId: peerId, clients: new Map(), passphraseProtected: !!passphraseProtected };
+        rooms.set(roomId, room);
+    } else {
+        if (asHost) {
+            send(ws, { type: 'error', payload: { message: 'Room already has a host' } });
+            return;
+        }
+        if (room.clients.has(peerId)) {
+            send(ws, { type: 'error', payload: { message: 'Peer ID is already in use' } });
+            return;
+        }
+        if (room.clients.size - 1 >= MAX_RECEIVERS_PER_ROOM) {
+            send(ws, { type: 'error', payload: { message: 'Room is full' } });
+            return;
+        }
+    }
+
+    room.clients.set(peerId, ws);
+    clientInfo.set(ws, { roomId, peerId });
+    const isHost = room.hostId === peerId;
+
+    console.log(`Client ${peerId} joined room ${roomId}${isHost ? ' as host' : ''}. Room size: ${room.clients.size}`);
+    send(ws, { type: 'room-joined', payload: { roomId, peerId, isHost, passphraseProtected: room.passphraseProtected } });
+
+    if (!isHost) {
+        const host = room.clients.get(room.hostId);
+        if (host) {
+            // The host starts the key exchange and the WebRTC handshake with each receiver.
+            send(host, { type: 'peer-joined', payload: { peerId, initiator: true } });
+            send(ws, { type: 'peer-joined', payload: { peerId: room.hostId, initiator: false } });
+        }
+    }
+}
+
+function relayMessage(senderWs: WebSocket, message: OutgoingRelayMessage) {
+    // Clients may only talk to the room they actually joined.
+    const sender = clientInfo.get(senderWs);
+    if (!sender || sender.roomId !== message.payload.roomId) {
+        send(senderWs, { type: 'error', payload: { message: 'Not a member of this room' } });
+        return;
+    }
+    const room = rooms.get(sender.roomId);
+    const recipientId = message.payload.to;
+    // Receivers may only address the host; the host may address any receiver.
+    const allowed = sender.peerId === room?.hostId || recipientId === room?.hostId;
+    const recipient = allowed ? room?.clients.get(recipientId) : undefined;
+    if (!recipient || recipientId === sender.peerId) {
+        send(senderWs, { type: 'error', payload: { message: 'Unknown recipient' } });
+        return;
+    }
+    const { to, ...payload } = message.payload;
+    send(recipient, { type: message.type, payload: { ...payload, from: sender.peerId } } as RelayedSignalingMessage);
+}
+
+function handleDisconnect(ws: WebSocket) {
+    const info = clientInfo.get(ws);
+    if (!info) return;
+    clientInfo.delete(ws);
+
+    const { roomId, peerId } = info;
+    const room = rooms.get(roomId);
+    if (!room || room.clients.get(peerId) !== ws) return;
+    room.clients.delete(peerId);
+    console.log(`Client ${peerId} left room ${roomId}. Room size: ${room.clients.size}`);
+
+    if (peerId === room.hostId) {
+        // Without its host the room is useless; receivers are told and must join a new one.
+        for (const [receiverId, client] of room.clients) {
+            send(client, { type: 'peer-left', payload: { peerId } });
+            clientInfo.delete(client);
+            console.log(`Client ${receiverId} removed from room ${roomId} because the host left.`);
+        }
+        room.clients.clear();
+    } else {
+        const host = room.clients.get(room.hostId);
+        if (host) send(host, { type: 'peer-left', payload: { peerId } });
+    }
+
+    if (room.clients.size === 0) {
+        rooms.delete(roomId);
+        console.log(`Room ${roomId} is now empty and has been deleted.`);
+    }
+}
+
+
+const PORT = process.env.PORT || 8080;
+server.listen(PORT, () => {
+    console.log(`Signaling server is listening on port ${PORT}`);
+    console.log('Ready for WebSocket connections...');
+});
@@ -0,0 +1,158 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { EncryptionPipeline, KEY_ROTATION_MESSAGES } from './EncryptionPipeline';
+import { decryptData, encryptData, ratchetChainKey } from './cryptoService';
+
+const encode = (text: string) => new TextEncoder().encode(text).buffer;
+const decode = (buffer: ArrayBuffer | null) => buffer && new TextDecoder().decode(buffer);
+const epochOf = (message: ArrayBuffer) => new DataView(message).getUint32(0);
+
+// Runs the commit-then-reveal key exchange between two pipelines.
+async function connect(alice: EncryptionPipeline, bob: EncryptionPipeline) {
+  alice.setRemoteKeyCommitment(await bob.getKeyCommitment());
+  bob.setRemoteKeyCommitment(await alice.getKeyCommitment());
+  const [aliceOffer, bobOffer] = await Promise.all([alice.initialize(), bob.initialize()]);
+  await Promise.all([alice.deriveSharedSecret(bobOffer), bob.deriveSharedSecret(aliceOffer)]);
+}
+
+// Counts the sender's current epoch as all but used up. Encrypting the 65536 messages for real
+// would take several seconds per epoch.
+const nearlyUseUpEpoch = (sender: EncryptionPipeline) => {
+  (sender as unknown as { messagesSinceRotation: number }).messagesSinceRotation = KEY_ROTATION_MESSAGES - 2;
+};
+
+// Encrypts one message per key epoch, until `count` epochs have been used.
+async function messagesInEpochs(sender: EncryptionPipeline, count: number): Promise<ArrayBuffer[]> {
+  const messages: ArrayBuffer[] = [];
+  for (let epoch = 0; epoch < count; epoch++) {
+    nearlyUseUpEpoch(sender);
+    messages.push((await sender.encrypt(encode(`epoch ${epoch}`)))!);
+    // The last message of the epoch; the next one goes out under a new key.
+    await sender.encrypt(new ArrayBuffer(0));
+  }
+  return messages;
+}
+
+const importChainKey = (seed: number) =>
+  window.crypto.subtle.importKey('raw', new Uint8Array(32).fill(seed), 'HKDF', false, ['deriveBits', 'deriveKey']);
+
+describe('ratchetChainKey', () => {
+  beforeAll(() => {
+    // Keys are derived with Web Crypto through `window`, as in the browser.
+    vi.stubGlobal('window', globalThis);
+  });
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('derives the same message key from the same chain key', async () => {
+    const [first, second] = await Promise.all([
+      ratchetChainKey(await importChainKey(1), 'ChaCha20-Poly1305'),
+      ratchetChainKey(await importChainKey(1), 'ChaCha20-Poly1305'),
+    ]);
+    expect(first.messageKey).toEqual(second.messageKey);
+    expect(first.messageKey.key).toHaveLength(32);
+  });
+
+  it('derives a different message key at every step and from every chain', async () => {
+    const step0 = await ratchetChainKey(await importChainKey(1), 'ChaCha20-Poly1305');
+    const step1 = await ratchetChainKey(step0.nextChainKey, 'ChaCha20-Poly1305');
+    const otherChain = await ratchetChainKey(await importChainKey(2), 'ChaCha20-Poly1305');
+    expect(step1.messageKey).not.toEqual(step0.messageKey);
+    expect(otherChain.messageKey).not.toEqual(step0.messageKey);
+  });
+
+  it('derives AES-GCM keys that only the same step can decrypt with', async () => {
+    const step0 = await ratchetChainKey(await importChainKey(1), 'AES-256-GCM');
+    const again = await ratchetChainKey(await importChainKey(1), 'AES-256-GCM');
+    const step1 = await ratchetChainKey(step0.nextChainKey, 'AES-256-GCM');
+    expect(step0.messageKey.algorithm).toBe('AES-256-GCM');
+    const ciphertext = await encryptData(encode('hello'), step0.messageKey);
+    expect(decode(await decryptData(ciphertext, again.messageKey))).toBe('hello');
+    await expect(decryptData(ciphertext, step1.messageKey)).rejects.toThrow();
+  });
+});
+
+describe('EncryptionPipeline', () => {
+  beforeAll(() => {
+    vi.stubGlobal('window', globalThis);
+    // Rejected messages are logged; the assertions check the results instead.
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+  afterAll(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('encrypts under epoch 0 until the key is rotated', async () => {
+    const alice = new EncryptionPipeline('room-1');
+    const bob = new EncryptionPipeline('room-1');
+    await connect(alice, bob);
+    const message = (await alice.encrypt(encode('hello')))!;
+    expect(epochOf(message)).toBe(0);
+    expect(decode(await bob.decrypt(message))).toBe('hello');
+    expect(decode(await alice.decrypt((await bob.encrypt(encode('hi')))!))).toBe('hi');
+  });
+
+  it('rotates the sending key after the message limit, and the receiver follows', async () => {
+    const alice = new EncryptionPipeline('room-1');
+    const bob = new EncryptionPipeline('room-1');
+    await connect(alice, bob);
+    const messages = await messagesInEpochs(alice, 3);
+    expect(messages.map(epochOf)).toEqual([0, 1, 2]);
+    for (const [epoch, message] of messages.entries()) {
+      expect(decode(await bob.decrypt(message))).toBe(`epoch ${epoch}`);
+    }
+  });
+
+  it('skips ahead over missed epochs and still accepts the one before', async () => {
+    const alice = new EncryptionPipeline('room-1');
+    const bob = new EncryptionPipeline('room-1');
+    await connect(alice, bob);
+    const messages = await messagesInEpochs(alice, 4);
+    expect(decode(await bob.decrypt(messages[3]))).toBe('epoch 3');
+    // Messages still in flight from just before the rotation decrypt with the previous key.
+    expect(decode(await bob.decrypt(messages[2]))).toBe('epoch 2');
+    // Older keys are gone.
+    expect(await bob.decrypt(messages[1])).toBeNull();
+    expect(await bob.decrypt(messages[0])).toBeNull();
+  });
+
+  it('rejects an epoch further ahead than it is willing to ratchet', async () => {
+    const alice = new EncryptionPipeline('room-1');
+    const bob = new EncryptionPipeline('room-1');
+    await connect(alice, bob);
+    const message = new Uint8Array((await alice.encrypt(encode('hello')))!);
+    new DataView(message.buffer).setUint32(0, 17);
+    expect(await bob.decrypt(message.buffer)).toBeNull();
+  });
+
+  it('does not move the chain forward for a message that fails to decrypt', async () => {
+    const alice = new EncryptionPipeline('room-1');
+    const bob = new EncryptionPipeline('room-1');
+    await connect(alice, bob);
+    const first = (await alice.encrypt(encode('first')))!;
+    const second = (await alice.encrypt(encode('second')))!;
+    // A forged epoch is authenticated along with the message, so it cannot be decrypted.
+    const forged = new Uint8Array(first.slice(0));
+    new DataView(forged.buffer).setUint32(0, 5);
+    expect(await bob.decrypt(forged.buffer)).toBeNull();
+    expect(decode(await bob.decrypt(first))).toBe('first');
+    expect(decode(await bob.decrypt(second))).toBe('second');
+  });
+
+  it('rejects a message decrypted with different additional data', async () => {
+    const alice = new EncryptionPipeline('room-1');
+    const bob = new EncryptionPipeline('room-1');
+    await connect(alice, bob);
+    const message = (await alice.encrypt(encode('chunk'), new Uint8Array([1, 2, 3])))!;
+    expect(await bob.decrypt(message, new Uint8Array([1, 2, 4]))).toBeNull();
+    expect(decode(await bob.decrypt(message, new Uint8Array([1, 2, 3])))).toBe('chunk');
+  });
+
+  it('cannot decrypt messages from a different room', async () => {
+    const alice = new EncryptionPipeline('room-1');
+    const bob = new EncryptionPipeline('room-2');
+    await connect(alice, bob);
+    expect(await bob.decrypt((await alice.encrypt(encode('hello')))!)).toBeNull();
+  });
+});
@@ -3,87 +3,360 @@ import {
   exportPublicKey,
   importPublicKey,
   deriveSharedSecret,
+  deriveChainKeys,
+  ratchetChainKey,
   encryptData,
   decryptData,
+  computeKeyCommitment,
+  deriveShortAuthString,
+  computeSessionKeyFingerprint,
+  createPakeShare,
+  finishPake,
+  computeKeyConfirmation,
+  getSupportedCipherSuites,
+  AeadKey,
+  KeyOffer,
+  PakeState,
 } from './cryptoService';
+import { AeadAlgorithm, CIPHER_SUITES, CipherSuite, KeyAgreement, isCipherSuiteId, negotiateCipherSuite } from './cipherSuites';
+
+// The sending key is rotated after this many messages or bytes, whichever comes first,
+// keeping each key far below the usage limits of AES-GCM and ChaCha20-Poly1305 with random nonces.
+export const KEY_ROTATION_MESSAGES = 1 << 16;
+export const KEY_ROTATION_BYTES = 1024 * 1024 * 1024; // 1 GiB
+
+// A frame may arrive after the sender has moved this many epochs ahead of the last one we used.
+const MAX_EPOCH_SKIP = 16;
+const EPOCH_LENGTH = 4;
+
+// One step of a key chain: the key for an epoch and the chain key that derives the next one.
+type EpochKey = { epoch: number; key: AeadKey; chainKey: CryptoKey };
+
+const deriveEpochKey = async (chainKey: CryptoKey, epoch: number, aead: AeadAlgorithm): Promise<EpochKey> => {
+  const { messageKey, nextChainKey } = await ratchetChainKey(chainKey, aead);
+  return { epoch, key: messageKey, chainKey: nextChainKey };
+};
+
+const advanceEpoch = (current: EpochKey): Promise<EpochKey> =>
+  deriveEpochKey(current.chainKey, current.epoch + 1, current.key.algorithm);
+
+const encodeEpoch = (epoch: number): Uint8Array => {
+  const bytes = new Uint8Array(EPOCH_LENGTH);
+  new DataView(bytes.buffer).setUint32(0, epoch);
+  return bytes;
+};
+
+const withEpoch = (epoch: Uint8Array, additionalData?: BufferSource): Uint8Array => {
+  const context = additionalData instanceof ArrayBuffer ? new Uint8Array(additionalData)
+    : additionalData ? new Uint8Array(additionalData.buffer, additionalData.byteOffset, additionalData.byteLength)
+    : new Uint8Array(0);
+  const result = new Uint8Array(epoch.length + context.length);
+  result.set(epoch, 0);
+  result.set(context, epoch.length);
+  return result;
+};
 
 /**
  * Manages the end-to-end encryption workflow for a single file transfer session.
  * This class ensures that cryptographic keys are ephemeral and that a strong,
  * unique session key is derived for each peer-to-peer connection.
+ *
+ * The cipher suite is negotiated as part of the public key exchange: each peer offers a
+ * public key for every key agreement it supports and its suites in order of preference,
+ * and both pick the same suite from the two offers.
+ *
+ * Each direction has its own HKDF key chain. The sender ratchets to a new key epoch
+ * periodically and prefixes every message with the epoch it was encrypted under, so the
+ * receiver ratchets along. Superseded keys are dropped as soon as they are no longer needed,
+ * so a key that leaks later does not expose earlier traffic.
+ *
+ * In a passphrase-protected room both peers also run CPace, a password-authenticated key
+ * exchange, alongside ECDH. Its result is mixed into the ECDH secret, and both peers exchange
+ * key confirmations before using it. A peer without the passphrase derives different keys, so
+ * its confirmation does not match and the exchange fails. Neither the CPace shares nor the
+ * confirmations let anyone test passphrase guesses offline; each guess costs a full exchange.
  */
 export class EncryptionPipeline {
-  private localKeyPair: CryptoKeyPair | null = null;
-  private sharedSessionKey: CryptoKey | null = null;
+  private localKeyPairs: Map<KeyAgreement, CryptoKeyPair> = new Map();
+  private initialization: Promise<KeyOffer> | null = null;
+  private cipherSuite: CipherSuite | null = null;
+  private remoteKeyCommitment: string | null = null;
+  private sendingKey: Promise<EpochKey> | null = null;
+  private messagesSinceRotation = 0;
+  private bytesSinceRotation = 0;
+  private receivingKey: EpochKey | null = null;
+  // Kept for messages still in flight from just before the peer rotated.
+  private previousReceivingKey: { epoch: number; key: AeadKey } | null = null;
+  private shortAuthString: string | null = null;
+  private sessionFingerprints: { local: string; remote: string } | null = null;
+  private roomId: string;
+  private pake: PakeState | null;
+  private keyConfirmations: Promise<{ local: string; remote: string }>;
+  private resolveKeyConfirmations!: (confirmations: { local: string; remote: string }) => void;
 
   /**
-   * Initializes the pipeline by generating a new, ephemeral ECDH key pair
-   * for the current session and exporting the public key for sharing.
-   * @returns A promise that resolves with the local public key in JWK format.
+   * @param roomId The room the session belongs to. The session keys are bound to it.
+   * @param passphrase The room's passphrase, if it has one.
    */
-  public async initialize(): Promise<JsonWebKey> {
-    this.localKeyPair = await generateEcdhKeyPair();
-    if (!this.localKeyPair.publicKey) {
-      throw new Error('Failed to generate a valid public key.');
+  constructor(roomId: string, passphrase?: string) {
+    this.roomId = roomId;
+    this.pake = passphrase ? createPakeShare(passphrase, roomId) : null;
+    this.keyConfirmations = new Promise(resolve => { this.resolveKeyConfirmations = resolve; });
+  }
+
+  /**
+   * Initializes the pipeline by generating a new, ephemeral key pair for every key
+   * agreement this browser supports and exporting the public keys for sharing.
+   * Repeated calls return the same offer, so signaling handlers may call it in any order.
+   * @returns A promise that resolves with the public keys in JWK format and the supported cipher suites.
+   */
+  public initialize(): Promise<KeyOffer> {
+    if (!this.initialization) {
+      this.initialization = (async () => {
+        const cipherSuites = await getSupportedCipherSuites();
+        const keyAgreements = [...new Set(cipherSuites.map(id => CIPHER_SUITES[id].keyAgreement))];
+        const publicKeys = await Promise.all(keyAgreements.map(async keyAgreement => {
+          const keyPair = await generateEcdhKeyPair(keyAgreement);
+          if (!keyPair.publicKey) {
+            throw new Error('Failed to generate a valid public key.');
+          }
+          this.localKeyPairs.set(keyAgreement, keyPair);
+          return exportPublicKey(keyPair.publicKey);
+        }));
+        return { publicKeys, cipherSuites, ...(this.pake && { pakeShare: this.pake.share }) };
+      })();
     }
-    return exportPublicKey(this.localKeyPair.publicKey);
+    return this.initialization;
+  }
+
+  /**
+   * Returns the commitment to the local key offer, which must be sent to the peer
+   * before the offer itself.
+   * @returns A promise that resolves with the commitment as a hex string.
+   */
+  public async getKeyCommitment(): Promise<string> {
+    return computeKeyCommitment(await this.initialize());
   }
 
   /**
-   * Derives a shared, symmetric AES-256-GCM key for the session using the
-   * local private key and the received public key from the peer.
-   * @param remotePublicKeyJwk The public key of the peer, in JWK format.
+   * Records the peer's commitment to its public key. The key received later must match it.
+   * @param commitment The hex commitment sent by the peer.
+   */
+  public setRemoteKeyCommitment(commitment: string) {
+    this.remoteKeyCommitment = commitment;
+  }
+
+  /**
+   * Negotiates the cipher suite and derives the session's key chains from the local
+   * private key and the peer's public key, and the first message key for each direction.
+   * The offer is rejected unless it matches the commitment the peer sent earlier.
+   * @param remoteOffer The public keys and cipher suites offered by the peer.
    * @returns A promise that resolves when the shared key has been derived.
    */
-  public async deriveSharedSecret(remotePublicKeyJwk: JsonWebKey): Promise<void> {
-    if (!this.localKeyPair?.privateKey) {
+  public async deriveSharedSecret(remoteOffer: KeyOffer): Promise<void> {
+    const localOffer = await this.initialize();
+    if (!this.remoteKeyCommitment || this.remoteKeyCommitment !== await computeKeyCommitment(remoteOffer)) {
+      throw new Error('The peer\'s public key does not match its earlier commitment.');
+    }
+    const cipherSuite = negotiateCipherSuite(localOffer.cipherSuites.filter(isCipherSuiteId), remoteOffer.cipherSuites.filter(isCipherSuiteId));
+    if (!cipherSuite) {
+      throw new Error('The peer does not support any of our cipher suites.');
+    }
+    // The JWK curve names match the key agreement names.
+    const localKeyPair = this.localKeyPairs.get(cipherSuite.keyAgreement);
+    const localPublicKeyJwk = localOffer.publicKeys.find(jwk => jwk.crv === cipherSuite.keyAgreement);
+    const remotePublicKeyJwk = remoteOffer.publicKeys.find(jwk => jwk.crv === cipherSuite.keyAgreement);
+    if (!localKeyPair?.privateKey || !localPublicKeyJwk) {
       throw new Error('Local key pair is not initialized. Call initialize() first.');
     }
-    const remotePublicKey = await importPublicKey(remotePublicKeyJwk);
-    this.sharedSessionKey = await deriveSharedSecret(
-      this.localKeyPair.privateKey,
-      remotePublicKey
+    if (!remotePublicKeyJwk) {
+      throw new Error(`The peer offered ${cipherSuite.label} without a ${cipherSuite.keyAgreement} public key.`);
+    }
+    const remotePublicKey = await importPublicKey(remotePublicKeyJwk, cipherSuite.keyAgreement);
+    let pakeSecret: ArrayBuffer | undefined;
+    if (this.pake) {
+      // A peer that sent no share does not know the passphrase. Random key material makes its
+      // confirmation fail just like a wrong passphrase would.
+      pakeSecret = remoteOffer.pakeShare
+        ? await finishPake(this.pake, remoteOffer.pakeShare)
+        : window.crypto.getRandomValues(new Uint8Array(32)).buffer;
+    }
+    const sharedSecret = await deriveSharedSecret(
+      localKeyPair.privateKey,
+      remotePublicKey,
+      {
+        roomId: this.roomId,
+        cipherSuite: cipherSuite.id,
+        localPublicKey: localPublicKeyJwk,
+        remotePublicKey: remotePublicKeyJwk,
+        localCipherSuites: localOffer.cipherSuites,
+        remoteCipherSuites: remoteOffer.cipherSuites,
+      },
+      pakeSecret
     );
+    const chainKeys = await deriveChainKeys(sharedSecret, localPublicKeyJwk, remotePublicKeyJwk);
+    const [sendingKey, receivingKey] = await Promise.all([
+      deriveEpochKey(chainKeys.sending, 0, cipherSuite.aead),
+      deriveEpochKey(chainKeys.receiving, 0, cipherSuite.aead),
+    ]);
+    this.cipherSuite = cipherSuite;
+    this.sendingKey = Promise.resolve(sendingKey);
+    this.receivingKey = receivingKey;
+    this.shortAuthString = await deriveShortAuthString(localPublicKeyJwk, remotePublicKeyJwk);
+    const [localFingerprint, remoteFingerprint] = await Promise.all([
+      computeSessionKeyFingerprint(localPublicKeyJwk),
+      computeSessionKeyFingerprint(remotePublicKeyJwk),
+    ]);
+    this.sessionFingerprints = { local: localFingerprint, remote: remoteFingerprint };
+    const [local, remote] = await Promise.all([
+      computeKeyConfirmation(sharedSecret, localPublicKeyJwk),
+      computeKeyConfirmation(sharedSecret, remotePublicKeyJwk),
+    ]);
+    this.resolveKeyConfirmations({ local, remote });
   }
 
   /**
-   * Encrypts a chunk of data using the derived session key.
-   * Throws an error if the session key has not been derived yet.
+   * Returns the confirmation to send to the peer once the shared key has been derived.
+   * @returns A promise that resolves with the confirmation as a hex string.
+   */
+  public async getKeyConfirmation(): Promise<string> {
+    return (await this.keyConfirmations).local;
+  }
+
+  /**
+   * Checks the peer's key confirmation. It only matches if both peers derived the same
+   * shared secret, which in a protected room means they used the same passphrase.
+   * Resolves once the local shared key has been derived, so it may be called before that.
+   * @param confirmation The hex confirmation sent by the peer.
+   * @returns A promise that resolves with `true` if the confirmation matches.
+   */
+  public async verifyKeyConfirmation(confirmation: string): Promise<boolean> {
+    return (await this.keyConfirmations).remote === confirmation;
+  }
+
+  /**
+   * @returns `true` if a room passphrase is mixed into this session's keys.
+   */
+  public isPassphraseProtected(): boolean {
+    return !!this.pake;
+  }
+
+  /**
+   * Returns the cipher suite negotiated with the peer.
+   * @returns The suite, or null if the shared key has not been derived yet.
+   */
+  public getCipherSuite(): CipherSuite | null {
+    return this.cipherSuite;
+  }
+
+  /**
+   * Returns the short authentication string both users should compare out of band.
+   * @returns The code, or null if the shared key has not been derived yet.
+   */
+  public getShortAuthString(): string | null {
+    return this.shortAuthString;
+  }
+
+  /**
+   * Returns the fingerprints of the two public keys this session was derived from.
+   * @returns The fingerprints, or null if the shared key has not been derived yet.
+   */
+  public getSessionFingerprints(): { local: string; remote: string } | null {
+    return this.sessionFingerprints;
+  }
+
+  /**
+   * Encrypts a chunk of data using the current sending key, rotating the key
+   * once it has been used for long enough.
+   * The result starts with the key epoch, followed by the IV and the ciphertext.
    * @param data The plaintext ArrayBuffer to encrypt.
+   * @param additionalData Optional context to authenticate along with the data, such as its position in a file.
    * @returns A promise that resolves with the encrypted ArrayBuffer.
    */
-  public async encrypt(data: ArrayBuffer): Promise<ArrayBuffer | null> {
-    if (!this.sharedSessionKey) {
+  public async encrypt(data: ArrayBuffer, additionalData?: BufferSource): Promise<ArrayBuffer | null> {
+    const sendingKey = this.sendingKey;
+    if (!sendingKey) {
       console.error('Encryption error: Shared session key is not available.');
       return null;
     }
-    return encryptData(data, this.sharedSessionKey);
+    // Usage is counted synchronously, so concurrent calls cannot overshoot the limits.
+    this.messagesSinceRotation++;
+    this.bytesSinceRotation += data.byteLength;
+    if (this.messagesSinceRotation >= KEY_ROTATION_MESSAGES || this.bytesSinceRotation >= KEY_ROTATION_BYTES) {
+      this.sendingKey = sendingKey.then(advanceEpoch);
+      this.messagesSinceRotation = 0;
+      this.bytesSinceRotation = 0;
+    }
+
+    const { epoch, key } = await sendingKey;
+    const epochBytes = encodeEpoch(epoch);
+    const encrypted = await encryptData(data, key, withEpoch(epochBytes, additionalData));
+    const result = new Uint8Array(EPOCH_LENGTH + encrypted.byteLength);
+    result.set(epochBytes, 0);
+    result.set(new Uint8Array(encrypted), EPOCH_LENGTH);
+    return result.buffer;
   }
 
   /**
-   * Decrypts a chunk of data using the derived session key.
-   * Throws an error if the session key has not been derived yet.
+   * Decrypts a chunk of data using the key for the epoch it was encrypted under,
+   * ratcheting the receiving chain forward when the peer has rotated.
    * @param encryptedData The encrypted ArrayBuffer to decrypt.
+   * @param additionalData The context that was authenticated on encryption. If it differs, decryption fails.
    * @returns A promise that resolves with the decrypted plaintext ArrayBuffer.
    */
-  public async decrypt(encryptedData: ArrayBuffer): Promise<ArrayBuffer | null> {
-    if (!this.sharedSessionKey) {
+  public async decrypt(encryptedData: ArrayBuffer, additionalData?: BufferSource): Promise<ArrayBuffer | null> {
+    if (!this.receivingKey) {
       console.error('Decryption error: Shared session key is not available.');
       return null;
     }
+    if (encryptedData.byteLength <= EPOCH_LENGTH) {
+      console.error('Decryption error: Message is too short.');
+      return null;
+    }
+    const epochBytes = new Uint8Array(encryptedData.slice(0, EPOCH_LENGTH));
+    const epoch = new DataView(epochBytes.buffer).getUint32(0);
     try {
-      return await decryptData(encryptedData, this.sharedSessionKey);
+      const candidate = await this.findReceivingKey(epoch);
+      if (!candidate) {
+        console.error(`Decryption error: No key for epoch ${epoch}.`);
+        return null;
+      }
+      const plaintext = await decryptData(encryptedData.slice(EPOCH_LENGTH), candidate.key, withEpoch(epochBytes, additionalData));
+      // Only an authentic message may move the chain forward and discard older keys.
+      if (candidate.advanced && this.receivingKey && candidate.advanced.current.epoch > this.receivingKey.epoch) {
+        this.previousReceivingKey = candidate.advanced.previous;
+        this.receivingKey = candidate.advanced.current;
+      }
+      return plaintext;
     } catch (error) {
       console.error('Decryption failed:', error);
       return null;
     }
   }
 
+  private async findReceivingKey(epoch: number): Promise<{
+    key: AeadKey;
+    advanced?: { current: EpochKey; previous: { epoch: number; key: AeadKey } };
+  } | null> {
+    const current = this.receivingKey!;
+    if (epoch === current.epoch) return { key: current.key };
+    if (epoch === this.previousReceivingKey?.epoch) return { key: this.previousReceivingKey.key };
+    if (epoch < current.epoch || epoch - current.epoch > MAX_EPOCH_SKIP) return null;
+
+    let previous: EpochKey = current;
+    let next = await advanceEpoch(current);
+    while (next.epoch < epoch) {
+      previous = next;
+      next = await advanceEpoch(next);
+    }
+    return { key: next.key, advanced: { current: next, previous: { epoch: previous.epoch, key: previous.key } } };
+  }
+
   /**
    * Checks if the secure channel is ready for data transmission.
    * @returns `true` if the shared session key has been derived, `false` otherwise.
    */
   public isReady(): boolean {
-    return !!this.sharedSessionKey;
+    return !!this.sendingKey;
   }
 }
@@ -1,5 +1,17 @@
 export type ConnectionState = 'new' | 'connecting' | 'connected' | 'disconnected' | 'failed' | 'closed';
 
+// The figures the rate controller needs from the connection's selected candidate pair.
+export type TransportStats = {
+    // Milliseconds, as reported by the browser.
+    timestamp: number;
+    bytesSent: number;
+    rttMs: number | null;
+    // Bits per second. Not every browser reports it.
+    availableOutgoingBitrate: number | null;
+    // The largest data channel message the peer accepts, once SCTP is negotiated.
+    maxMessageSize: number | null;
+};
+
 type WebRTCConnectionManagerCallbacks = {
     onConnectionStateChange: (state: ConnectionState) => void;
     onIceCandidate: (candidate: RTCIceCandidate) => void;
@@ -93,6 +105,42 @@ export class WebRTCConnectionManager {
         }
     }
 
+    /**
+     * Samples the stats of the candidate pair that carries the data channels.
+     * @returns A promise that resolves with the stats, or null if no pair has been selected yet.
+     */
+    public async getTransportStats(): Promise<TransportStats | null> {
+        let report: RTCStatsReport;
+        try {
+            report = await this.pc.getStats();
+        } catch (error) {
+            console.warn('Could not read connection stats:', error);
+            return null;
+        }
+        // Chromium links the transport to its selected pair; Firefox flags the pair itself.
+        let pair: (RTCIceCandidatePairStats & { selected?: boolean }) | undefined;
+        report.forEach(stat => {
+            if (stat.type === 'transport' && stat.selectedCandidatePairId) {
+                pair = report.get(stat.selectedCandidatePairId);
+            }
+        });
+        if (!pair) {
+            report.forEach(stat => {
+                if (stat.type === 'candidate-pair' && stat.state === 'succeeded' && (stat.selected || stat.nominated)) {
+                    pair = stat;
+                }
+            });
+        }
+        if (!pair) return null;
+        return {
+            timestamp: pair.timestamp,
+            bytesSent: pair.bytesSent ?? 0,
+            rttMs: pair.currentRoundTripTime !== undefined ? pair.currentRoundTripTime * 1000 : null,
+            availableOutgoingBitrate: pair.availableOutgoingBitrate ?? null,
+            maxMessageSize: this.pc.sctp?.maxMessageSize ?? null,
+        };
+    }
+
     public disconnect() {
         if (this.pc.connectionState !== 'closed') {
             this.pc.close();
@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MAX_ACK_SPAN, STALL_TIMEOUT, SendWindow, encodeChunkAck } from './chunkAcks';
+
+// A send window for 1 MB chunks holds 32 of them.
+const CHUNK_SIZE = 1024 * 1024;
+
+const sendAll = (sendWindow: SendWindow, indexes: number[]) => indexes.forEach(index => sendWindow.markSent(index));
+const range = (start: number, end: number) => Array.from({ length: end - start }, (_, i) => start + i);
+
+describe('encodeChunkAck', () => {
+  it('sets bit i of byte i >> 3 for chunk base + i, least significant bit first', () => {
+    expect(encodeChunkAck(new Set([0, 1, 2, 4, 12]), 3, 12)).toEqual({ base: 3, bitmap: '0202' });
+  });
+
+  it('sends an empty bitmap when nothing past the base was received', () => {
+    expect(encodeChunkAck(new Set([0, 1]), 2, 1)).toEqual({ base: 2, bitmap: '' });
+    expect(encodeChunkAck(new Set(), 0, -1)).toEqual({ base: 0, bitmap: '' });
+  });
+
+  it('never covers more than MAX_ACK_SPAN chunks past the base', () => {
+    const ack = encodeChunkAck(new Set([MAX_ACK_SPAN + 10]), 0, MAX_ACK_SPAN + 10);
+    expect(ack.bitmap).toHaveLength(MAX_ACK_SPAN / 4);
+    expect(ack.bitmap).toMatch(/^0+$/);
+  });
+});
+
+describe('SendWindow', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('frees exactly the chunks an encoded acknowledgement covers', () => {
+    const sendWindow = new SendWindow(CHUNK_SIZE);
+    sendAll(sendWindow, range(0, 10));
+    const received = new Set([0, 1, 2, 4, 7]);
+    expect(sendWindow.applyAck(encodeChunkAck(received, 3, 7))).toEqual([]);
+    expect(sendWindow.inFlightCount).toBe(5);
+    // Chunks 3, 5, 6, 8 and 9 are still outstanding; acknowledging them empties the window.
+    expect(sendWindow.applyAck(encodeChunkAck(new Set(range(0, 10)), 10, 9))).toEqual([]);
+    expect(sendWindow.inFlightCount).toBe(0);
+  });
+
+  it('has room until the in-flight budget is used up', () => {
+    const sendWindow = new SendWindow(CHUNK_SIZE);
+    sendAll(sendWindow, range(0, 31));
+    expect(sendWindow.hasRoom()).toBe(true);
+    sendWindow.markSent(31);
+    expect(sendWindow.hasRoom()).toBe(false);
+  });
+
+  it('reports a chunk as lost once enough later chunks are acknowledged, and only once', () => {
+    const sendWindow = new SendWindow(CHUNK_SIZE);
+    sendAll(sendWindow, range(0, 30));
+    const allButFirst = new Set(range(1, 30));
+    expect(sendWindow.applyAck(encodeChunkAck(allButFirst, 0, 16))).toEqual([]);
+    expect(sendWindow.applyAck(encodeChunkAck(allButFirst, 0, 29))).toEqual([0]);
+    expect(sendWindow.applyAck(encodeChunkAck(allButFirst, 0, 29))).toEqual([]);
+    expect(sendWindow.inFlightCount).toBe(1);
+  });
+
+  it('wakes a sender waiting for room when an acknowledgement arrives', async () => {
+    const sendWindow = new SendWindow(CHUNK_SIZE);
+    sendAll(sendWindow, range(0, 32));
+    const waiting = sendWindow.waitForRoom(60000);
+    sendWindow.applyAck(encodeChunkAck(new Set([0]), 1, 0));
+    await waiting;
+    expect(sendWindow.hasRoom()).toBe(true);
+  });
+
+  it('counts as stalled once outstanding chunks go unacknowledged for the stall timeout', () => {
+    vi.useFakeTimers();
+    const sendWindow = new SendWindow(CHUNK_SIZE);
+    expect(sendWindow.isStalled()).toBe(false);
+    sendWindow.markSent(0);
+    vi.advanceTimersByTime(STALL_TIMEOUT + 1);
+    expect(sendWindow.isStalled()).toBe(true);
+    sendWindow.resetStallClock();
+    expect(sendWindow.isStalled()).toBe(false);
+  });
+});
@@ -0,0 +1,137 @@
+// --- Chunk acknowledgements ---
+// While a file streams, the receiver periodically reports what it holds: `base` is the number of
+// chunks it has from the start of the file without a gap, and the bitmap marks which of the chunks
+// after `base` it has too (bit i of byte i >> 3, least significant first, stands for chunk base + i).
+
+// The bitmap never covers more chunks than this past `base`.
+export const MAX_ACK_SPAN = 4096;
+// How much file data the sender lets go unacknowledged before it waits for the receiver.
+const IN_FLIGHT_BUDGET = 32 * 1024 * 1024; // 32 MB
+// The receiver checks chunks concurrently, so a few may be acknowledged slightly out of order.
+// A chunk only counts as lost once this many chunks sent after it have been acknowledged.
+const REORDER_TOLERANCE = 16;
+// With data outstanding and no acknowledgement for this long, the receiver counts as stalled.
+export const STALL_TIMEOUT = 15000; // 15 seconds
+
+export type ChunkAck = {
+  base: number;
+  bitmap: string;
+};
+
+/**
+ * Describes which chunks the receiver holds.
+ * @param receivedIndexes Every chunk received and verified so far.
+ * @param base The number of chunks received from the start of the file without a gap.
+ * @param highestReceived The highest chunk index received, or -1.
+ * @returns The acknowledgement to send.
+ */
+export function encodeChunkAck(receivedIndexes: Set<number>, base: number, highestReceived: number): ChunkAck {
+  const span = Math.min(MAX_ACK_SPAN, Math.max(0, highestReceived + 1 - base));
+  const bitmap = new Uint8Array(Math.ceil(span / 8));
+  for (let i = 0; i < span; i++) {
+    if (receivedIndexes.has(base + i)) bitmap[i >> 3] |= 1 << (i & 7);
+  }
+  return { base, bitmap: Array.from(bitmap).map(byte => byte.toString(16).padStart(2, '0')).join('') };
+}
+
+/**
+ * Tracks the chunks of one file that have been sent but not acknowledged yet.
+ */
+export class SendWindow {
+  private maxInFlight: number;
+  // Chunk index -> sequence number of its latest send. Sequence numbers order sends across retransmissions.
+  private inFlight: Map<number, number> = new Map();
+  private nextSequence = 0;
+  private highestAckedSequence = -1;
+  private lastProgressAt = Date.now();
+  private roomWaiters: (() => void)[] = [];
+
+  /**
+   * @param chunkSize The file's chunk size, which sets how many chunks fit in the in-flight budget.
+   */
+  constructor(chunkSize: number) {
+    this.maxInFlight = Math.max(1, Math.min(MAX_ACK_SPAN, Math.floor(IN_FLIGHT_BUDGET / chunkSize)));
+  }
+
+  public get inFlightCount(): number {
+    return this.inFlight.size;
+  }
+
+  public hasRoom(): boolean {
+    return this.inFlight.size < this.maxInFlight;
+  }
+
+  /**
+   * Waits until an acknowledgement frees room in the window, or until the timeout passes.
+   * The caller re-checks `hasRoom`, so a timeout only gives it a chance to notice cancellation.
+   */
+  public waitForRoom(timeoutMs: number): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(done, timeoutMs);
+      const waiters = this.roomWaiters;
+      function done() {
+        clearTimeout(timer);
+        const index = waiters.indexOf(done);
+        if (index !== -1) waiters.splice(index, 1);
+        resolve();
+      }
+      waiters.push(done);
+    });
+  }
+
+  /**
+   * Records that a chunk was (re)sent.
+   * @param chunkIndex The chunk that was sent.
+   */
+  public markSent(chunkIndex: number) {
+    // Nothing was outstanding, so the stall clock starts now.
+    if (this.inFlight.size === 0) this.lastProgressAt = Date.now();
+    this.inFlight.set(chunkIndex, this.nextSequence++);
+  }
+
+  /**
+   * Applies an acknowledgement from the receiver.
+   * @param ack The receiver's acknowledgement.
+   * @returns The chunks that the receiver evidently lost or rejected and that should be sent again.
+   */
+  public applyAck(ack: ChunkAck): number[] {
+    const acknowledged = [...this.inFlight.keys()].filter(index =>
+      index < ack.base || isBitSet(ack.bitmap, index - ack.base));
+    if (acknowledged.length > 0) {
+      for (const index of acknowledged) {
+        this.highestAckedSequence = Math.max(this.highestAckedSequence, this.inFlight.get(index)!);
+        this.inFlight.delete(index);
+      }
+      this.lastProgressAt = Date.now();
+      this.roomWaiters.slice().forEach(wake => wake());
+    }
+    const lost = [...this.inFlight.entries()]
+      .filter(([, sequence]) => sequence < this.highestAckedSequence - REORDER_TOLERANCE)
+      .map(([index]) => index)
+      .sort((a, b) => a - b);
+    // Counted as resent straight away, so the next acknowledgement does not report them again.
+    lost.forEach(index => this.markSent(index));
+    return lost;
+  }
+
+  /**
+   * Restarts the stall clock, for example after the user resumes a paused transfer.
+   */
+  public resetStallClock() {
+    this.lastProgressAt = Date.now();
+  }
+
+  /**
+   * @returns `true` if data is outstanding and nothing has been acknowledged for `STALL_TIMEOUT`.
+   */
+  public isStalled(): boolean {
+    return this.inFlight.size > 0 && Date.now() - this.lastProgressAt > STALL_TIMEOUT;
+  }
+}
+
+const isBitSet = (bitmap: string, bit: number): boolean => {
+  if (bit < 0 || bit >= bitmap.length * 4) return false;
+  const offset = (bit >> 3) * 2;
+  const byte = parseInt(bitmap.slice(offset, offset + 2), 16);
+  return (byte & (1 << (bit & 7))) !== 0;
+};
@@ -0,0 +1,59 @@
+// --- Cipher suites ---
+// A suite pairs a key agreement with an AEAD cipher. Both peers advertise the suites they
+// support, in order of preference, alongside their public keys and settle on one of them.
+
+export type KeyAgreement = 'P-256' | 'X25519';
+export type AeadAlgorithm = 'AES-256-GCM' | 'ChaCha20-Poly1305';
+
+export enum CipherSuiteId {
+  P256_AES256GCM = 'P256_AES256GCM',
+  X25519_AES256GCM = 'X25519_AES256GCM',
+  X25519_CHACHA20POLY1305 = 'X25519_CHACHA20POLY1305',
+  P256_CHACHA20POLY1305 = 'P256_CHACHA20POLY1305',
+}
+
+export type CipherSuite = {
+  id: CipherSuiteId;
+  keyAgreement: KeyAgreement;
+  aead: AeadAlgorithm;
+  // Shown to users in the transfer UI.
+  label: string;
+};
+
+export const CIPHER_SUITES: Record<CipherSuiteId, CipherSuite> = {
+  [CipherSuiteId.P256_AES256GCM]: {
+    id: CipherSuiteId.P256_AES256GCM, keyAgreement: 'P-256', aead: 'AES-256-GCM', label: 'P-256 + AES-256-GCM',
+  },
+  [CipherSuiteId.X25519_AES256GCM]: {
+    id: CipherSuiteId.X25519_AES256GCM, keyAgreement: 'X25519', aead: 'AES-256-GCM', label: 'X25519 + AES-256-GCM',
+  },
+  [CipherSuiteId.X25519_CHACHA20POLY1305]: {
+    id: CipherSuiteId.X25519_CHACHA20POLY1305, keyAgreement: 'X25519', aead: 'ChaCha20-Poly1305', label: 'X25519 + ChaCha20-Poly1305',
+  },
+  [CipherSuiteId.P256_CHACHA20POLY1305]: {
+    id: CipherSuiteId.P256_CHACHA20POLY1305, keyAgreement: 'P-256', aead: 'ChaCha20-Poly1305', label: 'P-256 + ChaCha20-Poly1305',
+  },
+};
+
+// Every peer supports this suite, so negotiation between two peers can always succeed.
+export const BASELINE_CIPHER_SUITE = CipherSuiteId.P256_AES256GCM;
+
+export const isCipherSuiteId = (value: unknown): value is CipherSuiteId =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(CIPHER_SUITES, value);
+
+/**
+ * Picks the suite both peers will use. The choice only depends on the two lists, not on
+ * which peer is asking, so both sides arrive at the same suite without another round trip:
+ * the suite with the best combined rank wins, and ties go to the earlier suite in the table.
+ * @param local The suites this peer supports, most preferred first.
+ * @param remote The suites the other peer supports, most preferred first.
+ * @returns The chosen suite, or null if the peers have none in common.
+ */
+export function negotiateCipherSuite(local: CipherSuiteId[], remote: CipherSuiteId[]): CipherSuite | null {
+  const tableOrder = Object.keys(CIPHER_SUITES) as CipherSuiteId[];
+  const common = tableOrder.filter(id => local.includes(id) && remote.includes(id));
+  if (common.length === 0) return null;
+  const rank = (id: CipherSuiteId) => local.indexOf(id) + remote.indexOf(id);
+  const best = common.reduce((chosen, id) => rank(id) < rank(chosen) ? id : chosen);
+  return CIPHER_SUITES[best];
+}
@@ -0,0 +1,61 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createPakeShare, finishPake } from './cryptoService';
+
+const toHex = (buffer: ArrayBuffer) => Buffer.from(buffer).toString('hex');
+
+// Runs both halves of a CPace exchange and returns the key each peer derives.
+async function runPake(passphraseA: string, roomA: string, passphraseB: string, roomB: string) {
+  const alice = createPakeShare(passphraseA, roomA);
+  const bob = createPakeShare(passphraseB, roomB);
+  const [aliceKey, bobKey] = await Promise.all([finishPake(alice, bob.share), finishPake(bob, alice.share)]);
+  return { alice: toHex(aliceKey), bob: toHex(bobKey) };
+}
+
+describe('CPace', () => {
+  beforeAll(() => {
+    // The session key is hashed with Web Crypto through `window`, as in the browser.
+    vi.stubGlobal('window', globalThis);
+  });
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('gives both peers the same key when they use the same passphrase', async () => {
+    const { alice, bob } = await runPake('correct horse', 'room-1', 'correct horse', 'room-1');
+    expect(alice).toBe(bob);
+    expect(alice).toHaveLength(64);
+  });
+
+  it('gives the peers unrelated keys when the passphrases differ', async () => {
+    const { alice, bob } = await runPake('correct horse', 'room-1', 'battery staple', 'room-1');
+    expect(alice).not.toBe(bob);
+  });
+
+  it('gives the peers unrelated keys when the rooms differ', async () => {
+    const { alice, bob } = await runPake('correct horse', 'room-1', 'correct horse', 'room-2');
+    expect(alice).not.toBe(bob);
+  });
+
+  it('treats passphrases that normalize to the same text as equal', async () => {
+    const { alice, bob } = await runPake('caf\u00e9', 'room-1', 'cafe\u0301', 'room-1');
+    expect(alice).toBe(bob);
+  });
+
+  it('uses a fresh share for every exchange', async () => {
+    const first = createPakeShare('correct horse', 'room-1');
+    const second = createPakeShare('correct horse', 'room-1');
+    expect(first.share).not.toBe(second.share);
+    expect(first.share).toMatch(/^0[23][0-9a-f]{64}$/);
+
+    const { alice: firstKey } = await runPake('correct horse', 'room-1', 'correct horse', 'room-1');
+    const { alice: secondKey } = await runPake('correct horse', 'room-1', 'correct horse', 'room-1');
+    expect(firstKey).not.toBe(secondKey);
+  });
+
+  it('rejects a share that is not a point on the curve', async () => {
+    const state = createPakeShare('correct horse', 'room-1');
+    await expect(finishPake(state, 'not hex')).rejects.toThrow(/not a valid curve point/);
+    await expect(finishPake(state, `02${'ff'.repeat(32)}`)).rejects.toThrow(/not a valid curve point/);
+    await expect(finishPake(state, '00')).rejects.toThrow(/not a valid curve point/);
+  });
+});
@@ -1,3 +1,9 @@
+import { chacha20poly1305 } from '@noble/ciphers/chacha';
+import { p256, p256_hasher } from '@noble/curves/nist';
+import { bytesToNumberBE } from '@noble/curves/utils';
+import { AeadAlgorithm, CIPHER_SUITES, CipherSuiteId, KeyAgreement } from './cipherSuites';
+import { sha256Blob } from './sha256';
+
 // --- Utility Functions ---
 
 /**
@@ -11,18 +17,28 @@ function bufferToHex(buffer: ArrayBuffer): string {
     .join('');
 }
 
+const hexToBytes = (hex: string): Uint8Array =>
+  new Uint8Array(hex.match(/../g)?.map(byte => parseInt(byte, 16)) ?? []);
+
+const toBytes = (data: BufferSource): Uint8Array =>
+  data instanceof ArrayBuffer ? new Uint8Array(data) : new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+
 // --- Hashing ---
 
 /**
  * Calculates the SHA-256 hash of a File, Blob, or ArrayBuffer.
  * This is used to verify the integrity of both individual chunks and the full file.
+ * Files and Blobs are streamed through the incremental hasher, so files of any size can be
+ * hashed without reading them into memory; buffers use the faster Web Crypto digest.
  * @param data The File, Blob, or ArrayBuffer to hash.
  * @returns A promise that resolves with the SHA-256 hash as a hex string.
  */
 export async function calculateSHA256(data: File | ArrayBuffer | Blob): Promise<string> {
-  const buffer = data instanceof ArrayBuffer ? data : await data.arrayBuffer();
+  if (!(data instanceof ArrayBuffer)) {
+    return sha256Blob(data);
+  }
   try {
-    const hashBuffer = await window.crypto.subtle.digest('SHA-256', buffer);
+    const hashBuffer = await window.crypto.subtle.digest('SHA-256', data);
     return bufferToHex(hashBuffer);
   } catch (error) {
     console.error("Error calculating SHA-256:", error);
@@ -31,19 +47,112 @@ export async function calculateSHA256(data: File | ArrayBuffer | Blob): Promise<
   }
 }
 
+// --- Cipher Suite Support ---
+
+let supportedCipherSuites: Promise<CipherSuiteId[]> | null = null;
+
+/**
+ * Determines which cipher suites this browser can use, most preferred first.
+ * X25519 is preferred where WebCrypto implements it. ChaCha20-Poly1305 runs in JavaScript,
+ * so it is only preferred over AES-GCM when a quick benchmark shows that AES is slower here,
+ * which is the case on devices without AES hardware support.
+ * @returns A promise that resolves with the supported suites. The result is computed once.
+ */
+export function getSupportedCipherSuites(): Promise<CipherSuiteId[]> {
+  if (!supportedCipherSuites) {
+    supportedCipherSuites = (async () => {
+      const keyAgreements: KeyAgreement[] = await supportsX25519() ? ['X25519', 'P-256'] : ['P-256'];
+      const aeads: AeadAlgorithm[] = await isChaChaFaster() ? ['ChaCha20-Poly1305', 'AES-256-GCM'] : ['AES-256-GCM', 'ChaCha20-Poly1305'];
+      const suites = Object.values(CIPHER_SUITES).filter(suite => keyAgreements.includes(suite.keyAgreement));
+      const rank = (suite: typeof suites[number]) =>
+        aeads.indexOf(suite.aead) * keyAgreements.length + keyAgreements.indexOf(suite.keyAgreement);
+      return suites.sort((a, b) => rank(a) - rank(b)).map(suite => suite.id);
+    })();
+  }
+  return supportedCipherSuites;
+}
+
+async function supportsX25519(): Promise<boolean> {
+  try {
+    await window.crypto.subtle.generateKey({ name: 'X25519' }, false, ['deriveBits']);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// How many timed runs of each cipher `isChaChaFaster` compares, after one untimed warm-up run.
+const CIPHER_BENCHMARK_RUNS = 5;
+
+// Times `run` several times and returns the median, so one slow run (a GC pause, a cold
+// code path) does not decide which cipher is preferred.
+async function medianRunTime(run: () => Promise<unknown> | unknown): Promise<number> {
+  await run();
+  const times: number[] = [];
+  for (let i = 0; i < CIPHER_BENCHMARK_RUNS; i++) {
+    const start = performance.now();
+    await run();
+    times.push(performance.now() - start);
+  }
+  times.sort((a, b) => a - b);
+  return times[Math.floor(times.length / 2)];
+}
+
+async function isChaChaFaster(): Promise<boolean> {
+  const sample = new Uint8Array(256 * 1024);
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+  try {
+    const aesKey = await window.crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt']);
+    const chachaKey = window.crypto.getRandomValues(new Uint8Array(32));
+    const aesTime = await medianRunTime(() => window.crypto.subtle.encrypt({ name: 'AES-GCM', iv }, aesKey, sample));
+    const chachaTime = await medianRunTime(() => chacha20poly1305(chachaKey, iv).encrypt(sample));
+    return chachaTime < aesTime;
+  } catch {
+    return false;
+  }
+}
+
 // --- Key Generation and Derivation (ECDH + HKDF) ---
 
+// Version of the key exchange. It is bound into every session key, so peers running
+// incompatible derivations fail the key confirmation instead of exchanging garbage.
+export const KEY_EXCHANGE_VERSION = 'swaz-kex-v4';
+
+// What a peer sends in the public key exchange: one public key per key agreement it
+// supports, and the cipher suites it supports, most preferred first. In a passphrase-protected
+// room it also carries the peer's CPace share (see `createPakeShare`).
+export type KeyOffer = {
+  publicKeys: JsonWebKey[];
+  cipherSuites: string[];
+  pakeShare?: string;
+};
+
+// What a session key is bound to: the room, the negotiated suite, both peers' ephemeral
+// public keys, and the suites both peers offered, so a tampered offer yields different keys.
+export type SessionContext = {
+  roomId: string;
+  cipherSuite: CipherSuiteId;
+  localPublicKey: JsonWebKey;
+  remotePublicKey: JsonWebKey;
+  localCipherSuites: string[];
+  remoteCipherSuites: string[];
+};
+
+const keyAgreementAlgorithm = (keyAgreement: KeyAgreement): EcKeyGenParams | Algorithm =>
+  keyAgreement === 'X25519' ? { name: 'X25519' } : { name: 'ECDH', namedCurve: 'P-256' };
+
 /**
- * Generates an ephemeral Elliptic Curve Diffie-Hellman (ECDH) key pair.
+ * Generates an ephemeral key agreement key pair (ECDH over P-256 or X25519).
  * These keys are used for a single session to establish a shared secret.
+ * @param keyAgreement The curve to generate the key pair on.
  * @returns A promise that resolves with the generated CryptoKeyPair.
  */
-export async function generateEcdhKeyPair(): Promise<CryptoKeyPair> {
+export async function generateEcdhKeyPair(keyAgreement: KeyAgreement = 'P-256'): Promise<CryptoKeyPair> {
   return window.crypto.subtle.generateKey(
-    { name: 'ECDH', namedCurve: 'P-256' },
-    true, // a private key can be exported for debugging but not recommended for production
-    ['deriveKey']
-  );
+    keyAgreementAlgorithm(keyAgreement),
+    false, // the private key never leaves WebCrypto; the public key is always exportable
+    ['deriveBits']
+  ) as Promise<CryptoKeyPair>;
 }
 
 /**
@@ -58,61 +167,379 @@ export async function exportPublicKey(key: CryptoKey): Promise<JsonWebKey> {
 /**
  * Imports a public key from the JWK format back into a CryptoKey object.
  * @param jwk The public key in JWK format received from the peer.
+ * @param keyAgreement The curve the key belongs to.
  * @returns A promise that resolves with the imported public CryptoKey.
  */
-export async function importPublicKey(jwk: JsonWebKey): Promise<CryptoKey> {
+export async function importPublicKey(jwk: JsonWebKey, keyAgreement: KeyAgreement = 'P-256'): Promise<CryptoKey> {
   return window.crypto.subtle.importKey(
     'jwk',
     jwk,
-    { name: 'ECDH', namedCurve: 'P-256' },
+    keyAgreementAlgorithm(keyAgreement),
     true,
     []
   );
 }
 
 /**
- * Derives a 256-bit AES-GCM secret key from a shared secret using HKDF.
- * This is a crucial step to ensure the raw shared secret from ECDH is not used directly.
- * @param privateKey The local user's private ECDH key.
- * @param publicKey The remote peer's public ECDH key.
- * @returns A promise that resolves with the derived AES-GCM CryptoKey.
+ * Computes the ECDH shared secret and derives the session secret from it with HKDF.
+ * The raw shared secret is never used as a key directly. The HKDF salt is a hash of both
+ * public keys, and the info string binds the protocol version, the room ID, the cipher suite,
+ * both public keys and both peers' suite offers, so the result is tied to this exact session
+ * and cannot be reused in another.
+ * @param privateKey The local user's private ECDH or X25519 key.
+ * @param publicKey The remote peer's public key on the same curve.
+ * @param context The room, suite and public keys the session key is bound to.
+ * @param pakeSecret The CPace session key from `finishPake`, if the room has a passphrase.
+ * It is mixed into the key material, so peers that disagree on the passphrase derive unrelated keys.
+ * @returns A promise that resolves with the session secret as non-extractable HKDF key material.
  */
-export async function deriveSharedSecret(privateKey: CryptoKey, publicKey: CryptoKey): Promise<CryptoKey> {
-  return window.crypto.subtle.deriveKey(
+export async function deriveSharedSecret(
+  privateKey: CryptoKey,
+  publicKey: CryptoKey,
+  context: SessionContext,
+  pakeSecret?: ArrayBuffer
+): Promise<CryptoKey> {
+  const sharedBits = await window.crypto.subtle.deriveBits(
     {
-      name: 'ECDH',
+      name: privateKey.algorithm.name,
       public: publicKey,
-    },
+    } as EcdhKeyDeriveParams,
     privateKey,
+    256
+  );
+  const keyMaterial = new Uint8Array(sharedBits.byteLength + (pakeSecret?.byteLength ?? 0));
+  keyMaterial.set(new Uint8Array(sharedBits), 0);
+  if (pakeSecret) {
+    keyMaterial.set(new Uint8Array(pakeSecret), sharedBits.byteLength);
+  }
+
+  // Sort the keys so both sides derive the same salt and info.
+  const [first, second] = [context.localPublicKey, context.remotePublicKey].map(publicKeyFingerprintInput).sort();
+  const [firstOffer, secondOffer] = [context.localCipherSuites, context.remoteCipherSuites].map(suites => suites.join(',')).sort();
+  const salt = await window.crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${KEY_EXCHANGE_VERSION}|salt|${first}|${second}`));
+  const sessionBits = await window.crypto.subtle.deriveBits(
     {
-      name: 'AES-GCM',
-      length: 256,
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt,
+      info: new TextEncoder().encode(
+        `${KEY_EXCHANGE_VERSION}|session|${context.roomId}|${context.cipherSuite}|${first}|${second}|${firstOffer}|${secondOffer}`
+      ),
     },
-    true,
-    ['encrypt', 'decrypt']
+    await importHkdfKey(keyMaterial.buffer),
+    256
+  );
+  return importHkdfKey(sessionBits);
+}
+
+const importHkdfKey = (keyMaterial: ArrayBuffer): Promise<CryptoKey> =>
+  window.crypto.subtle.importKey('raw', keyMaterial, 'HKDF', false, ['deriveBits', 'deriveKey']);
+
+// Keys expanded from the session secret need no salt: the secret is already uniformly random.
+const hkdfParams = (info: string): HkdfParams => ({
+  name: 'HKDF',
+  hash: 'SHA-256',
+  salt: new Uint8Array(32),
+  info: new TextEncoder().encode(info),
+});
+
+// --- Room Passphrases (CPace) ---
+
+// Room passphrases are checked with CPace, a password-authenticated key exchange. It always runs
+// on P-256, whichever curve the session's own key agreement uses. Both peers derive a secret
+// generator from the passphrase and exchange a random multiple of it. Neither the shares nor
+// anything derived from the result reveal the passphrase, so a guess can only be tested by
+// taking part in an exchange, one guess per attempt; recorded traffic is useless for guessing.
+const PAKE_DST = 'swaz-cpace-v1-P256_XMD:SHA-256_SSWU_RO_';
+
+// Our half of a CPace exchange: the secret scalar and the share sent to the peer.
+export type PakeState = { scalar: bigint; share: string };
+
+// Encodes each field with its length, so no two different inputs concatenate to the same bytes.
+const lengthPrefixed = (fields: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(fields.reduce((sum, field) => sum + 4 + field.length, 0));
+  const view = new DataView(result.buffer);
+  let offset = 0;
+  for (const field of fields) {
+    view.setUint32(offset, field.length);
+    result.set(field, offset + 4);
+    offset += 4 + field.length;
+  }
+  return result;
+};
+
+/**
+ * Starts a CPace exchange: maps the passphrase and room to a generator on P-256 and
+ * multiplies it by a fresh random scalar.
+ * @param passphrase The passphrase both peers entered.
+ * @param roomId The room the passphrase protects, so the same passphrase gives unrelated generators in different rooms.
+ * @returns The scalar to keep and the share to send, a compressed point as hex.
+ */
+export function createPakeShare(passphrase: string, roomId: string): PakeState {
+  const encoder = new TextEncoder();
+  const generator = p256.Point.fromAffine(p256_hasher.hashToCurve(
+    lengthPrefixed([encoder.encode(passphrase.normalize('NFKC')), encoder.encode(roomId)]),
+    { DST: PAKE_DST }
+  ).toAffine());
+  const scalar = bytesToNumberBE(p256.utils.randomPrivateKey());
+  return { scalar, share: bufferToHex(generator.multiply(scalar).toBytes(true).slice().buffer) };
+}
+
+/**
+ * Completes a CPace exchange with the peer's share.
+ * @param state Our scalar and share from `createPakeShare`.
+ * @param remoteShare The share the peer sent.
+ * @returns A promise that resolves with the CPace session key. Both peers get the same key only if they used the same passphrase.
+ * @throws If the peer's share is not a valid point on P-256.
+ */
+export async function finishPake(state: PakeState, remoteShare: string): Promise<ArrayBuffer> {
+  let remotePoint: ReturnType<typeof p256.Point.fromHex>;
+  try {
+    remotePoint = p256.Point.fromHex(remoteShare);
+    remotePoint.assertValidity();
+  } catch {
+    throw new Error('The peer\'s passphrase share is not a valid curve point.');
+  }
+  if (remotePoint.equals(p256.Point.ZERO)) {
+    throw new Error('The peer\'s passphrase share is not a valid curve point.');
+  }
+  const sharedPoint = remotePoint.multiply(state.scalar);
+  // Both shares go into the key in a fixed order, so it is bound to this exact exchange.
+  const [first, second] = [state.share, remoteShare].sort();
+  const input = lengthPrefixed([
+    new TextEncoder().encode(PAKE_DST),
+    sharedPoint.toBytes(true),
+    hexToBytes(first),
+    hexToBytes(second),
+  ]);
+  return window.crypto.subtle.digest('SHA-256', input);
+}
+
+// --- Key Verification (Commitment + Short Authentication String) ---
+
+// A stable text form of an EC public key, independent of JWK property order.
+// X25519 keys have no y coordinate.
+const publicKeyFingerprintInput = (jwk: JsonWebKey): string => `${jwk.crv}.${jwk.x}.${jwk.y ?? ''}`;
+
+// A stable text form of everything a peer offers in the public key exchange.
+const keyOfferInput = (offer: KeyOffer): string =>
+  `${offer.cipherSuites.join(',')}|${offer.publicKeys.map(publicKeyFingerprintInput).join('|')}|${offer.pakeShare ?? ''}`;
+
+/**
+ * Computes a hash commitment to a key offer.
+ * Each peer sends its commitment before revealing its keys, so a man-in-the-middle on the
+ * signaling channel must pick its own keys before it sees ours and cannot search for keys
+ * that make the short authentication strings collide.
+ * @param offer The public keys and cipher suites the peer offers.
+ * @returns A promise that resolves with the commitment as a hex string.
+ */
+export async function computeKeyCommitment(offer: KeyOffer): Promise<string> {
+  const input = new TextEncoder().encode(`swaz-commit-v3|${keyOfferInput(offer)}`);
+  return bufferToHex(await window.crypto.subtle.digest('SHA-256', input));
+}
+
+/**
+ * Derives a short, human-comparable code from both peers' public keys.
+ * Both peers compute the same code; if a man-in-the-middle swapped keys, the codes differ.
+ * @param localJwk This peer's public key.
+ * @param remoteJwk The other peer's public key.
+ * @returns A promise that resolves with a six-digit code formatted as "123 456".
+ */
+export async function deriveShortAuthString(localJwk: JsonWebKey, remoteJwk: JsonWebKey): Promise<string> {
+  // Sort the keys so both sides hash them in the same order.
+  const [first, second] = [localJwk, remoteJwk].map(publicKeyFingerprintInput).sort();
+  const input = new TextEncoder().encode(`swaz-sas-v1|${first}|${second}`);
+  const digest = await window.crypto.subtle.digest('SHA-256', input);
+  const code = (new DataView(digest).getUint32(0) % 1_000_000).toString().padStart(6, '0');
+  return `${code.slice(0, 3)} ${code.slice(3)}`;
+}
+
+
+/**
+ * Computes the fingerprint of a session's public key, which lets records such as transfer
+ * receipts name the exact session they belong to.
+ * @param jwk The ephemeral public key used in the session.
+ * @returns A promise that resolves with the full SHA-256 fingerprint as a hex string.
+ */
+export async function computeSessionKeyFingerprint(jwk: JsonWebKey): Promise<string> {
+  const input = new TextEncoder().encode(`swaz-session-key-v1|${publicKeyFingerprintInput(jwk)}`);
+  return bufferToHex(await window.crypto.subtle.digest('SHA-256', input));
+}
+
+/**
+ * Computes the key confirmation a peer sends to prove it derived the same shared secret.
+ * Peers whose secrets differ, for example because they entered different room passphrases,
+ * compute different values, so the mismatch is caught before any data is exchanged.
+ * @param sharedSecret The HKDF key material from `deriveSharedSecret`.
+ * @param senderJwk The public key of the peer sending the confirmation.
+ * @returns A promise that resolves with the confirmation as a hex string.
+ */
+export async function computeKeyConfirmation(sharedSecret: CryptoKey, senderJwk: JsonWebKey): Promise<string> {
+  const info = `swaz-key-confirmation-v1|${publicKeyFingerprintInput(senderJwk)}`;
+  return bufferToHex(await window.crypto.subtle.deriveBits(hkdfParams(info), sharedSecret, 256));
+}
+
+// --- Device Identities (ECDSA) ---
+
+const IDENTITY_ALGORITHM: EcKeyImportParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const IDENTITY_SIGNATURE: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+const identitySignatureInput = (offer: KeyOffer, roomId: string): Uint8Array =>
+  new TextEncoder().encode(`swaz-identity-v2|${roomId}|${keyOfferInput(offer)}`);
+
+/**
+ * Generates a long-term signing key pair that identifies this device across sessions.
+ * @returns A promise that resolves with the key pair. The private key is non-extractable.
+ */
+export async function generateIdentityKeyPair(): Promise<CryptoKeyPair> {
+  return window.crypto.subtle.generateKey(IDENTITY_ALGORITHM, false, ['sign', 'verify']);
+}
+
+/**
+ * Signs a key offer with the device's identity key, vouching that these ephemeral keys
+ * belong to this device in this room.
+ * @param privateKey The device's private identity key.
+ * @param offer The ephemeral public keys and cipher suites sent to the peer.
+ * @param roomId The room the offer is made in, so a signature cannot be replayed elsewhere.
+ * @returns A promise that resolves with the signature as a hex string.
+ */
+export async function signKeyOffer(privateKey: CryptoKey, offer: KeyOffer, roomId: string): Promise<string> {
+  return signWithIdentity(privateKey, identitySignatureInput(offer, roomId));
+}
+
+/**
+ * Checks a peer's signature over its key offer.
+ * @param publicKeyJwk The peer's public identity key.
+ * @param signature The hex signature the peer sent.
+ * @param offer The key offer the peer sent.
+ * @param roomId The room the offer was made in.
+ * @returns A promise that resolves with `true` if the signature is valid.
+ */
+export async function verifyKeyOfferSignature(publicKeyJwk: JsonWebKey, signature: string, offer: KeyOffer, roomId: string): Promise<boolean> {
+  return verifyIdentitySignature(publicKeyJwk, signature, identitySignatureInput(offer, roomId));
+}
+
+/**
+ * Signs arbitrary data with an identity (ECDSA P-256) key.
+ * @param privateKey The private signing key.
+ * @param data The exact bytes to sign.
+ * @returns A promise that resolves with the signature as a hex string.
+ */
+export async function signWithIdentity(privateKey: CryptoKey, data: Uint8Array): Promise<string> {
+  return bufferToHex(await window.crypto.subtle.sign(IDENTITY_SIGNATURE, privateKey, data));
+}
+
+/**
+ * Checks a signature made with `signWithIdentity`.
+ * @param publicKeyJwk The signer's public key.
+ * @param signature The hex signature.
+ * @param data The bytes that were signed.
+ * @returns A promise that resolves with `true` if the signature is valid. Malformed keys or signatures yield `false`.
+ */
+export async function verifyIdentitySignature(publicKeyJwk: JsonWebKey, signature: string, data: Uint8Array): Promise<boolean> {
+  try {
+    const publicKey = await window.crypto.subtle.importKey('jwk', publicKeyJwk, IDENTITY_ALGORITHM, false, ['verify']);
+    return await window.crypto.subtle.verify(IDENTITY_SIGNATURE, publicKey, hexToBytes(signature), data);
+  } catch (error) {
+    console.warn('Could not verify identity signature:', error);
+    return false;
+  }
+}
+
+/**
+ * Derives a short fingerprint of an identity key for users to compare and recognise.
+ * @param jwk The public identity key.
+ * @returns A promise that resolves with the fingerprint formatted as "ab12 cd34 ef56 7890".
+ */
+export async function computeIdentityFingerprint(jwk: JsonWebKey): Promise<string> {
+  const digest = await window.crypto.subtle.digest('SHA-256', new TextEncoder().encode(`swaz-identity-fingerprint-v1|${publicKeyFingerprintInput(jwk)}`));
+  return bufferToHex(digest.slice(0, 8)).match(/..../g)!.join(' ');
+}
+
+// --- Key Rotation (HKDF ratchet) ---
+
+/**
+ * Derives the starting chain keys for both directions of a session.
+ * Each direction is labelled with its sender's public key, so both peers agree on which
+ * chain is whose without needing to know who initiated the connection.
+ * @param sharedSecret The HKDF key material from `deriveSharedSecret`.
+ * @param localJwk This peer's public key.
+ * @param remoteJwk The other peer's public key.
+ * @returns A promise that resolves with the chain keys for sending and receiving.
+ */
+export async function deriveChainKeys(
+  sharedSecret: CryptoKey,
+  localJwk: JsonWebKey,
+  remoteJwk: JsonWebKey
+): Promise<{ sending: CryptoKey; receiving: CryptoKey }> {
+  const deriveChainKey = async (senderJwk: JsonWebKey) => importHkdfKey(
+    await window.crypto.subtle.deriveBits(hkdfParams(`swaz-chain-v1|${publicKeyFingerprintInput(senderJwk)}`), sharedSecret, 256)
   );
+  const [sending, receiving] = await Promise.all([deriveChainKey(localJwk), deriveChainKey(remoteJwk)]);
+  return { sending, receiving };
+}
+
+/**
+ * Advances a chain by one step. The message key encrypts one key epoch; the next chain
+ * key replaces the current one, which cannot be recovered from anything derived after it.
+ * @param chainKey The current chain key.
+ * @param aead The cipher the message key is for.
+ * @returns A promise that resolves with the epoch's message key and the next chain key.
+ */
+export async function ratchetChainKey(chainKey: CryptoKey, aead: AeadAlgorithm): Promise<{ messageKey: AeadKey; nextChainKey: CryptoKey }> {
+  const deriveMessageKey = async (): Promise<AeadKey> => {
+    if (aead === 'ChaCha20-Poly1305') {
+      // ChaCha20-Poly1305 runs in JavaScript, so its key has to be raw bytes.
+      const keyBits = await window.crypto.subtle.deriveBits(hkdfParams('swaz-message-key-v1'), chainKey, 256);
+      return { algorithm: aead, key: new Uint8Array(keyBits) };
+    }
+    const key = await window.crypto.subtle.deriveKey(
+      hkdfParams('swaz-message-key-v1'),
+      chainKey,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+    return { algorithm: aead, key };
+  };
+  const [messageKey, nextChainBits] = await Promise.all([
+    deriveMessageKey(),
+    window.crypto.subtle.deriveBits(hkdfParams('swaz-next-chain-v1'), chainKey, 256),
+  ]);
+  return { messageKey, nextChainKey: await importHkdfKey(nextChainBits) };
 }
 
 
-// --- Encryption / Decryption (AES-GCM) ---
+// --- Encryption / Decryption (AES-GCM or ChaCha20-Poly1305) ---
+
+// A session key together with the AEAD cipher it belongs to. AES-GCM keys stay inside
+// WebCrypto; ChaCha20-Poly1305 is not part of WebCrypto and needs the raw key bytes.
+export type AeadKey =
+  | { algorithm: 'AES-256-GCM'; key: CryptoKey }
+  | { algorithm: 'ChaCha20-Poly1305'; key: Uint8Array };
 
 /**
- * Encrypts a chunk of data using AES-256-GCM.
- * This algorithm is chosen because it provides both confidentiality and authenticity.
+ * Encrypts a chunk of data using the session's AEAD cipher.
+ * Both ciphers provide confidentiality and authenticity.
  * @param data The ArrayBuffer (chunk) to encrypt.
- * @param key The shared AES-GCM session key.
+ * @param key The shared session key.
+ * @param additionalData Optional data that is authenticated but not encrypted. Decryption
+ * fails unless exactly the same bytes are supplied.
  * @returns A promise that resolves with the encrypted ArrayBuffer.
  */
-export async function encryptData(data: ArrayBuffer, key: CryptoKey): Promise<ArrayBuffer> {
-  const iv = window.crypto.getRandomValues(new Uint8Array(12)); // 96-bit IV is recommended for GCM
-  const encryptedData = await window.crypto.subtle.encrypt(
-    {
-      name: 'AES-GCM',
-      iv: iv,
-    },
-    key,
-    data
-  );
+export async function encryptData(data: ArrayBuffer, key: AeadKey, additionalData?: BufferSource): Promise<ArrayBuffer> {
+  const iv = window.crypto.getRandomValues(new Uint8Array(12)); // 96-bit IV/nonce is standard for both ciphers
+  const encryptedData = key.algorithm === 'ChaCha20-Poly1305'
+    ? chacha20poly1305(key.key, iv, additionalData && toBytes(additionalData)).encrypt(new Uint8Array(data))
+    : await window.crypto.subtle.encrypt(
+      {
+        name: 'AES-GCM',
+        iv: iv,
+        ...(additionalData ? { additionalData } : {}),
+      },
+      key.key,
+      data
+    );
   // Prepend the IV to the ciphertext. The receiver will need it for decryption.
   const result = new Uint8Array(iv.length + encryptedData.byteLength);
   result.set(iv, 0);
@@ -121,20 +548,27 @@ export async function encryptData(data: ArrayBuffer, key: CryptoKey): Promise<Ar
 }
 
 /**
- * Decrypts a chunk of data using AES-256-GCM.
+ * Decrypts a chunk of data using the session's AEAD cipher.
  * @param encryptedData The ArrayBuffer containing the IV and the ciphertext.
- * @param key The shared AES-GCM session key.
+ * @param key The shared session key.
+ * @param additionalData The additional authenticated data used when encrypting, if any.
  * @returns A promise that resolves with the decrypted ArrayBuffer (plaintext).
+ * @throws If the ciphertext, key or additional data do not match.
  */
-export async function decryptData(encryptedData: ArrayBuffer, key: CryptoKey): Promise<ArrayBuffer> {
+export async function decryptData(encryptedData: ArrayBuffer, key: AeadKey, additionalData?: BufferSource): Promise<ArrayBuffer> {
   const iv = encryptedData.slice(0, 12);
   const data = encryptedData.slice(12);
+  if (key.algorithm === 'ChaCha20-Poly1305') {
+    const plaintext = chacha20poly1305(key.key, new Uint8Array(iv), additionalData && toBytes(additionalData)).decrypt(new Uint8Array(data));
+    return plaintext.slice().buffer;
+  }
   return window.crypto.subtle.decrypt(
     {
       name: 'AES-GCM',
       iv: iv,
+      ...(additionalData ? { additionalData } : {}),
     },
-    key,
+    key.key,
     data
   );
 }
\ No newline at end of file
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ChunkFrameHeader,
+  FRAME_VERSION,
+  FrameType,
+  MAX_FRAME_FILE_ID,
+  decodeFrame,
+  encodeChunkFrameHeader,
+  encodeControlFrameHeader,
+  encodeFrame,
+} from './frameCodec';
+
+const digest = (byte: string) => byte.repeat(32);
+const ciphertext = new Uint8Array([1, 2, 3, 4, 5]).buffer;
+
+const chunkHeader = (overrides: Partial<ChunkFrameHeader> = {}): ChunkFrameHeader => ({
+  fileId: 7,
+  chunkIndex: 3,
+  chunkLength: 65536,
+  offset: 0,
+  length: 16384,
+  checksum: digest('ab'),
+  proof: [digest('01'), digest('02'), digest('03')],
+  ...overrides,
+});
+
+describe('control frames', () => {
+  it('round-trips the header and ciphertext', () => {
+    const header = encodeControlFrameHeader();
+    const decoded = decodeFrame(encodeFrame(header, ciphertext));
+    expect(decoded.type).toBe(FrameType.Control);
+    expect(decoded.header).toEqual(header);
+    expect(new Uint8Array(decoded.ciphertext)).toEqual(new Uint8Array(ciphertext));
+  });
+});
+
+describe('chunk frames', () => {
+  it('round-trips every header field, the proof and the ciphertext', () => {
+    const chunk = chunkHeader();
+    const header = encodeChunkFrameHeader(chunk);
+    const decoded = decodeFrame(encodeFrame(header, ciphertext));
+    expect(decoded.type).toBe(FrameType.Chunk);
+    if (decoded.type !== FrameType.Chunk) return;
+    expect(decoded.chunk).toEqual(chunk);
+    expect(decoded.header).toEqual(header);
+    expect(new Uint8Array(decoded.ciphertext)).toEqual(new Uint8Array(ciphertext));
+  });
+
+  it('round-trips frames without a proof and the largest 32-bit values', () => {
+    const chunk = chunkHeader({ fileId: MAX_FRAME_FILE_ID, chunkIndex: 0xffffffff, offset: 16384, proof: [] });
+    const decoded = decodeFrame(encodeFrame(encodeChunkFrameHeader(chunk), ciphertext));
+    expect(decoded.type === FrameType.Chunk && decoded.chunk).toEqual(chunk);
+  });
+
+  it('refuses checksums and proofs that are not SHA-256 digests', () => {
+    expect(() => encodeChunkFrameHeader(chunkHeader({ checksum: 'abcd' }))).toThrow();
+    expect(() => encodeChunkFrameHeader(chunkHeader({ checksum: digest('AB') }))).toThrow();
+    expect(() => encodeChunkFrameHeader(chunkHeader({ proof: [digest('0')] }))).toThrow();
+    expect(() => encodeChunkFrameHeader(chunkHeader({ proof: Array(33).fill(digest('01')) }))).toThrow('Merkle proof is too long.');
+  });
+});
+
+describe('decodeFrame', () => {
+  it('rejects frames that are too short to carry a payload', () => {
+    expect(() => decodeFrame(encodeControlFrameHeader().buffer as ArrayBuffer)).toThrow('Frame is too short.');
+    const header = encodeChunkFrameHeader(chunkHeader({ proof: [] }));
+    expect(() => decodeFrame(header.buffer as ArrayBuffer)).toThrow('Chunk frame is too short.');
+  });
+
+  it('rejects a chunk frame cut off inside its Merkle proof', () => {
+    const header = encodeChunkFrameHeader(chunkHeader());
+    expect(() => decodeFrame(header.slice(0, header.length - 8).buffer)).toThrow('Chunk frame is too short for its Merkle proof.');
+  });
+
+  it('rejects unknown versions and types', () => {
+    expect(() => decodeFrame(new Uint8Array([FRAME_VERSION - 1, FrameType.Control, 0]).buffer)).toThrow(`Unsupported frame version ${FRAME_VERSION - 1}.`);
+    expect(() => decodeFrame(new Uint8Array([FRAME_VERSION, 9, 0]).buffer)).toThrow('Unknown frame type 9.');
+  });
+});
@@ -0,0 +1,167 @@
+// --- Data channel framing ---
+// Every message on a data channel is a binary frame: a header followed by the AES-GCM
+// ciphertext (key epoch and IV first). The whole header is authenticated as additional data, so no
+// field in it can be altered and a frame cannot be replayed under a different type.
+//
+// Common header:  version (u8) | type (u8)
+// Chunk frames:   ... | file (u32) | chunk index (u32) | chunk length (u32) | offset (u32)
+//                 | plaintext length (u32) | SHA-256 (32 bytes) | proof length (u8) | Merkle proof (32 bytes each)
+// All integers are big-endian.
+//
+// Chunks sit on the file's fixed chunk grid. A chunk may travel in several frames, each carrying
+// the bytes at `offset` within it, so the frame size can change mid-file while every chunk index
+// still names the same bytes. Only the frame at offset 0 carries the Merkle proof.
+
+export const FRAME_VERSION = 4;
+const COMMON_HEADER_LENGTH = 2;
+const CHECKSUM_LENGTH = 32;
+const CHECKSUM_OFFSET = COMMON_HEADER_LENGTH + 4 + 4 + 4 + 4 + 4;
+const CHUNK_FIXED_HEADER_LENGTH = CHECKSUM_OFFSET + CHECKSUM_LENGTH + 1;
+// Chunk indexes are 32-bit, so no Merkle path is longer than this.
+const MAX_PROOF_LENGTH = 32;
+// The longest header a chunk frame can have.
+export const MAX_CHUNK_HEADER_LENGTH = CHUNK_FIXED_HEADER_LENGTH + MAX_PROOF_LENGTH * CHECKSUM_LENGTH;
+
+export enum FrameType {
+  // An encrypted, JSON-encoded protocol message.
+  Control = 1,
+  // The encrypted bytes of one file chunk, or of part of it.
+  Chunk = 2,
+}
+
+// The largest file number a chunk header can carry; it is written as a 32-bit unsigned integer.
+export const MAX_FRAME_FILE_ID = 0xffffffff;
+
+// Identifies a chunk without decrypting it. `fileId` is the compact per-session number
+// announced in the file's (encrypted) metadata, so the header never reveals a file name.
+export type ChunkFrameHeader = {
+  fileId: number;
+  chunkIndex: number;
+  // Length of the whole chunk.
+  chunkLength: number;
+  // Where this frame's bytes start within the chunk, and how many there are.
+  offset: number;
+  length: number;
+  // SHA-256 of the whole plaintext chunk, as lowercase hex.
+  checksum: string;
+  // Sibling hashes linking the chunk to the file's Merkle root, as lowercase hex. Empty unless `offset` is 0.
+  proof: string[];
+};
+
+export type DecodedFrame =
+  | { type: FrameType.Control; header: Uint8Array; ciphertext: ArrayBuffer }
+  | { type: FrameType.Chunk; header: Uint8Array; chunk: ChunkFrameHeader; ciphertext: ArrayBuffer };
+
+const hexToBytes = (hex: string): Uint8Array => {
+  if (!/^[0-9a-f]*$/.test(hex) || hex.length % 2 !== 0) {
+    throw new Error('Hash is not a hex string.');
+  }
+  return new Uint8Array(hex.match(/../g)?.map(byte => parseInt(byte, 16)) ?? []);
+};
+
+const bytesToHex = (bytes: Uint8Array): string =>
+  Array.from(bytes).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Builds the header of a control frame.
+ * @returns The header bytes, which double as the frame's additional authenticated data.
+ */
+export function encodeControlFrameHeader(): Uint8Array {
+  return new Uint8Array([FRAME_VERSION, FrameType.Control]);
+}
+
+/**
+ * Builds the header of a chunk frame.
+ * @param chunk The file, position and length of the chunk, the part of it in this frame, and its checksum and Merkle proof.
+ * @returns The header bytes, which double as the frame's additional authenticated data.
+ */
+export function encodeChunkFrameHeader(chunk: ChunkFrameHeader): Uint8Array {
+  const checksum = hexToBytes(chunk.checksum);
+  const proof = chunk.proof.map(hexToBytes);
+  if (checksum.length !== CHECKSUM_LENGTH || proof.some(hash => hash.length !== CHECKSUM_LENGTH)) {
+    throw new Error('Chunk checksum and proof hashes must be SHA-256 digests.');
+  }
+  if (proof.length > MAX_PROOF_LENGTH) {
+    throw new Error('Merkle proof is too long.');
+  }
+  const header = new Uint8Array(CHUNK_FIXED_HEADER_LENGTH + proof.length * CHECKSUM_LENGTH);
+  const view = new DataView(header.buffer);
+  view.setUint8(0, FRAME_VERSION);
+  view.setUint8(1, FrameType.Chunk);
+  view.setUint32(2, chunk.fileId);
+  view.setUint32(6, chunk.chunkIndex);
+  view.setUint32(10, chunk.chunkLength);
+  view.setUint32(14, chunk.offset);
+  view.setUint32(18, chunk.length);
+  header.set(checksum, CHECKSUM_OFFSET);
+  view.setUint8(CHECKSUM_OFFSET + CHECKSUM_LENGTH, proof.length);
+  proof.forEach((hash, i) => header.set(hash, CHUNK_FIXED_HEADER_LENGTH + i * CHECKSUM_LENGTH));
+  return header;
+}
+
+/**
+ * Prepends a header to an already encrypted payload.
+ * @param header The header the payload was encrypted under.
+ * @param ciphertext The payload encrypted with the header as additional data.
+ * @returns The complete frame, ready for `RTCDataChannel.send`.
+ */
+export function encodeFrame(header: Uint8Array, ciphertext: ArrayBuffer): ArrayBuffer {
+  const frame = new Uint8Array(header.length + ciphertext.byteLength);
+  frame.set(header, 0);
+  frame.set(new Uint8Array(ciphertext), header.length);
+  return frame.buffer;
+}
+
+/**
+ * Parses a received frame into its header fields and ciphertext.
+ * @param frame The binary message received on a data channel.
+ * @returns The decoded frame.
+ * @throws If the frame is truncated or uses an unknown version or type.
+ */
+export function decodeFrame(frame: ArrayBuffer): DecodedFrame {
+  if (frame.byteLength <= COMMON_HEADER_LENGTH) {
+    throw new Error('Frame is too short.');
+  }
+  const view = new DataView(frame);
+  const version = view.getUint8(0);
+  const type = view.getUint8(1);
+  if (version !== FRAME_VERSION) {
+    throw new Error(`Unsupported frame version ${version}.`);
+  }
+
+  switch (type) {
+    case FrameType.Control:
+      return {
+        type: FrameType.Control,
+        header: new Uint8Array(frame.slice(0, COMMON_HEADER_LENGTH)),
+        ciphertext: frame.slice(COMMON_HEADER_LENGTH),
+      };
+    case FrameType.Chunk: {
+      if (frame.byteLength <= CHUNK_FIXED_HEADER_LENGTH) {
+        throw new Error('Chunk frame is too short.');
+      }
+      const proofLength = view.getUint8(CHECKSUM_OFFSET + CHECKSUM_LENGTH);
+      const headerLength = CHUNK_FIXED_HEADER_LENGTH + proofLength * CHECKSUM_LENGTH;
+      if (proofLength > MAX_PROOF_LENGTH || frame.byteLength <= headerLength) {
+        throw new Error('Chunk frame is too short for its Merkle proof.');
+      }
+      return {
+        type: FrameType.Chunk,
+        header: new Uint8Array(frame.slice(0, headerLength)),
+        chunk: {
+          fileId: view.getUint32(2),
+          chunkIndex: view.getUint32(6),
+          chunkLength: view.getUint32(10),
+          offset: view.getUint32(14),
+          length: view.getUint32(18),
+          checksum: bytesToHex(new Uint8Array(frame, CHECKSUM_OFFSET, CHECKSUM_LENGTH)),
+          proof: Array.from({ length: proofLength }, (_, i) =>
+            bytesToHex(new Uint8Array(frame, CHUNK_FIXED_HEADER_LENGTH + i * CHECKSUM_LENGTH, CHECKSUM_LENGTH))),
+        },
+        ciphertext: frame.slice(headerLength),
+      };
+    }
+    default:
+      throw new Error(`Unknown frame type ${type}.`);
+  }
+}
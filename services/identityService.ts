@@ -0,0 +1,133 @@
+import {
+  generateIdentityKeyPair,
+  exportPublicKey,
+  signKeyOffer,
+  verifyKeyOfferSignature,
+  computeIdentityFingerprint,
+  KeyOffer,
+} from './cryptoService';
+import { DeviceIdentity, TrustedDevice, getTrustedDevices, saveDeviceIdentity, saveTrustedDevice } from '../utils/identityDB';
+
+// What a device attaches to its `public-key` message when it has an identity.
+export type SignedIdentity = {
+  deviceId: string;
+  name: string;
+  publicKey: JsonWebKey;
+  signature: string;
+};
+
+// How a peer's identity compares with the trusted devices list. Trust belongs to identity keys;
+// device IDs and names are chosen by the peer and only used to spot impersonation.
+// - 'trusted': the peer presented an identity key on the list.
+// - 'untrusted': neither the key nor the device is on the list.
+// - 'changed': the peer claims the ID or name of a trusted device but presented a different key.
+// - 'missing': the peer presented a trusted key earlier in this session and now presents none.
+export type PeerIdentityStatus = 'trusted' | 'untrusted' | 'changed' | 'missing';
+
+export type PeerIdentity = {
+  deviceId: string;
+  name: string;
+  publicKey: JsonWebKey;
+  fingerprint: string;
+  status: PeerIdentityStatus;
+  // The name this device was trusted under, if it is on the list.
+  trustedName?: string;
+};
+
+const MAX_DEVICE_NAME_LENGTH = 64;
+
+/**
+ * Creates a new identity for this device and stores it, replacing any previous one.
+ * @param name The name peers will see for this device.
+ * @returns A promise that resolves with the stored identity.
+ */
+export async function createDeviceIdentity(name: string): Promise<DeviceIdentity> {
+  const keyPair = await generateIdentityKeyPair();
+  const identity: DeviceIdentity = {
+    deviceId: crypto.randomUUID(),
+    name: name.trim().slice(0, MAX_DEVICE_NAME_LENGTH) || 'Unnamed device',
+    keyPair,
+    publicKey: await exportPublicKey(keyPair.publicKey),
+    createdAt: Date.now(),
+  };
+  await saveDeviceIdentity(identity);
+  return identity;
+}
+
+/**
+ * Signs this device's key offer so the peer can tie the session to the device's identity.
+ * @param identity This device's identity.
+ * @param offer The key offer about to be sent in `public-key`.
+ * @param roomId The current room.
+ * @returns A promise that resolves with the identity to attach to the message.
+ */
+export async function signIdentity(identity: DeviceIdentity, offer: KeyOffer, roomId: string): Promise<SignedIdentity> {
+  return {
+    deviceId: identity.deviceId,
+    name: identity.name,
+    publicKey: identity.publicKey,
+    signature: await signKeyOffer(identity.keyPair.privateKey, offer, roomId),
+  };
+}
+
+/**
+ * Verifies a peer's signed identity and looks it up in the trusted devices list.
+ * @param signed The identity the peer attached to its key offer.
+ * @param offer The key offer the identity was attached to.
+ * @param roomId The current room.
+ * @returns A promise that resolves with the peer's identity and trust status.
+ * @throws If the signature does not match the offer.
+ */
+export async function checkPeerIdentity(signed: SignedIdentity, offer: KeyOffer, roomId: string): Promise<PeerIdentity> {
+  if (!await verifyKeyOfferSignature(signed.publicKey, signed.signature, offer, roomId)) {
+    throw new Error('The peer\'s identity signature does not match its public key.');
+  }
+  const name = signed.name.slice(0, MAX_DEVICE_NAME_LENGTH);
+  const [fingerprint, trustedDevices] = await Promise.all([
+    computeIdentityFingerprint(signed.publicKey),
+    getTrustedDevices(),
+  ]);
+  const trustedFingerprints = await Promise.all(trustedDevices.map(device => computeIdentityFingerprint(device.publicKey)));
+  const trustedKey = trustedDevices.find((_, i) => trustedFingerprints[i] === fingerprint);
+  const claimed = trustedKey ? undefined : trustedDevices.find(device => device.deviceId === signed.deviceId || device.name === name);
+  return {
+    deviceId: signed.deviceId,
+    name,
+    publicKey: signed.publicKey,
+    fingerprint,
+    status: trustedKey ? 'trusted' : claimed ? 'changed' : 'untrusted',
+    trustedName: (trustedKey ?? claimed)?.name,
+  };
+}
+
+/**
+ * Compares a peer's identity with the one it presented earlier in the session, for example
+ * before it reconnected. A peer that was trusted must keep presenting the same key.
+ * @param earlier The identity the peer presented before, if any.
+ * @param current The identity it presents now, or null if it presents none.
+ * @returns The identity to show for the peer.
+ */
+export function checkIdentityContinuity(earlier: PeerIdentity | null | undefined, current: PeerIdentity | null): PeerIdentity | null {
+  if (!earlier || earlier.status !== 'trusted') return current;
+  if (!current) return { ...earlier, status: 'missing' };
+  if (current.fingerprint !== earlier.fingerprint) {
+    return { ...current, status: 'changed', trustedName: earlier.trustedName ?? earlier.name };
+  }
+  return current;
+}
+
+/**
+ * Adds a peer's device to the trusted devices list, or accepts its new identity key.
+ * @param identity The verified identity of the peer.
+ * @returns A promise that resolves with the stored entry.
+ */
+export async function trustPeerIdentity(identity: PeerIdentity): Promise<TrustedDevice> {
+  const device: TrustedDevice = {
+    deviceId: identity.deviceId,
+    name: identity.trustedName ?? identity.name,
+    publicKey: identity.publicKey,
+    addedAt: Date.now(),
+  };
+  await saveTrustedDevice(device);
+  return device;
+}
@@ -0,0 +1,96 @@
+import { createHash } from 'node:crypto';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { MerkleTree, hashFileChunks, verifyMerkleProof } from './merkle';
+
+const sha256 = (...parts: Uint8Array[]) => {
+  const hash = createHash('sha256');
+  parts.forEach(part => hash.update(part));
+  return hash.digest('hex');
+};
+
+const chunkChecksums = (count: number) =>
+  Array.from({ length: count }, (_, i) => sha256(new TextEncoder().encode(`chunk ${i}`)));
+
+describe('MerkleTree', () => {
+  it('hashes a single chunk as a prefixed leaf', () => {
+    const [checksum] = chunkChecksums(1);
+    const tree = MerkleTree.fromChunkChecksums([checksum]);
+    expect(tree.root).toBe(sha256(new Uint8Array([0]), Buffer.from(checksum, 'hex')));
+    expect(tree.proof(0)).toEqual([]);
+  });
+
+  it('combines two leaves into a prefixed node', () => {
+    const checksums = chunkChecksums(2);
+    const [left, right] = checksums.map(checksum => Buffer.from(sha256(new Uint8Array([0]), Buffer.from(checksum, 'hex')), 'hex'));
+    expect(MerkleTree.fromChunkChecksums(checksums).root).toBe(sha256(new Uint8Array([1]), left, right));
+  });
+
+  it('gives a file without chunks the digest of empty input as its root', () => {
+    expect(MerkleTree.fromChunkChecksums([]).root).toBe(sha256());
+  });
+
+  it('returns the digest each chunk must have', () => {
+    const checksums = chunkChecksums(3);
+    const tree = MerkleTree.fromChunkChecksums(checksums);
+    expect(tree.chunkChecksum(2)).toBe(checksums[2]);
+    expect(tree.chunkChecksum(3)).toBeUndefined();
+  });
+});
+
+describe('verifyMerkleProof', () => {
+  it.each([1, 2, 3, 5, 8, 13])('accepts the proof of every chunk in a file of %i chunks', count => {
+    const checksums = chunkChecksums(count);
+    const tree = MerkleTree.fromChunkChecksums(checksums);
+    checksums.forEach((checksum, index) => {
+      expect(verifyMerkleProof(tree.root, checksum, index, count, tree.proof(index))).toBe(true);
+    });
+  });
+
+  describe('in a file of 7 chunks', () => {
+    const checksums = chunkChecksums(7);
+    const tree = MerkleTree.fromChunkChecksums(checksums);
+    const proof = tree.proof(4);
+
+    it('rejects a chunk with a different digest', () => {
+      expect(verifyMerkleProof(tree.root, checksums[5], 4, 7, proof)).toBe(false);
+    });
+
+    it('rejects a chunk at a different position', () => {
+      expect(verifyMerkleProof(tree.root, checksums[4], 5, 7, proof)).toBe(false);
+      expect(verifyMerkleProof(tree.root, checksums[4], 4, 5, proof)).toBe(false);
+    });
+
+    it('rejects an altered, shortened or padded proof', () => {
+      expect(verifyMerkleProof(tree.root, checksums[4], 4, 7, [checksums[0], ...proof.slice(1)])).toBe(false);
+      expect(verifyMerkleProof(tree.root, checksums[4], 4, 7, proof.slice(0, -1))).toBe(false);
+      expect(verifyMerkleProof(tree.root, checksums[4], 4, 7, [...proof, checksums[0]])).toBe(false);
+    });
+
+    it('rejects indexes outside the file', () => {
+      expect(verifyMerkleProof(tree.root, checksums[4], -1, 7, proof)).toBe(false);
+      expect(verifyMerkleProof(tree.root, checksums[4], 7, 7, proof)).toBe(false);
+      expect(verifyMerkleProof(tree.root, checksums[4], 1.5, 7, proof)).toBe(false);
+    });
+  });
+});
+
+describe('hashFileChunks', () => {
+  beforeAll(() => {
+    // The digests are computed with Web Crypto through `window`, as in the browser.
+    vi.stubGlobal('window', globalThis);
+  });
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('digests the whole file and each chunk on the grid, including a short last chunk', async () => {
+    const bytes = new Uint8Array(10).map((_, i) => i);
+    const { checksum, chunkChecksums: digests } = await hashFileChunks(new Blob([bytes]), 4);
+    expect(checksum).toBe(sha256(bytes));
+    expect(digests).toEqual([bytes.subarray(0, 4), bytes.subarray(4, 8), bytes.subarray(8)].map(chunk => sha256(chunk)));
+  });
+
+  it('returns no chunk digests for an empty file', async () => {
+    expect(await hashFileChunks(new Blob([]), 4)).toEqual({ checksum: sha256(), chunkChecksums: [] });
+  });
+});
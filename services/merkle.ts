@@ -0,0 +1,224 @@
+// --- Merkle tree over file chunks ---
+// A file is cut into chunks on a fixed grid, and the SHA-256 digests of those chunks are the
+// leaves of a binary hash tree. The root travels in the file's metadata and every chunk frame
+// carries the sibling hashes on the path from its leaf to the root, so the receiver can check
+// each chunk the moment it arrives, in any order, without knowing any other chunk.
+//
+// Leaf:  SHA-256(0x00 | chunk digest)
+// Node:  SHA-256(0x01 | left | right)
+// A node without a sibling moves up a level unchanged. The prefixes keep a leaf from ever
+// being mistaken for an inner node.
+
+import { Sha256 } from './sha256';
+import { calculateSHA256 } from './cryptoService';
+
+const LEAF_PREFIX = 0x00;
+const NODE_PREFIX = 0x01;
+const HASH_LENGTH = 32;
+
+const hexToBytes = (hex: string): Uint8Array =>
+  new Uint8Array(hex.match(/../g)?.map(byte => parseInt(byte, 16)) ?? []);
+
+const bytesToHex = (bytes: Uint8Array): string =>
+  Array.from(bytes).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+const hashLeaf = (chunkChecksum: Uint8Array): Uint8Array =>
+  new Sha256().update(new Uint8Array([LEAF_PREFIX])).update(chunkChecksum).digest();
+
+const hashNode = (left: Uint8Array, right: Uint8Array): Uint8Array =>
+  new Sha256().update(new Uint8Array([NODE_PREFIX])).update(left).update(right).digest();
+
+/**
+ * A Merkle tree built from the chunk digests of one file.
+ */
+export class MerkleTree {
+  // levels[0] holds the leaves and the last level holds the root. Each level is one flat
+  // array of 32-byte hashes, which keeps trees for very large files compact.
+  private levels: Uint8Array[];
+  private checksums: string[];
+
+  private constructor(levels: Uint8Array[], checksums: string[]) {
+    this.levels = levels;
+    this.checksums = checksums;
+  }
+
+  /**
+   * Builds the tree for a file.
+   * @param chunkChecksums The SHA-256 hex digest of every chunk, in order.
+   */
+  public static fromChunkChecksums(chunkChecksums: string[]): MerkleTree {
+    const leaves = new Uint8Array(chunkChecksums.length * HASH_LENGTH);
+    chunkChecksums.forEach((checksum, i) => leaves.set(hashLeaf(hexToBytes(checksum)), i * HASH_LENGTH));
+
+    const levels = [leaves];
+    let level = leaves;
+    while (level.length > HASH_LENGTH) {
+      const count = level.length / HASH_LENGTH;
+      const next = new Uint8Array(Math.ceil(count / 2) * HASH_LENGTH);
+      for (let i = 0; i < count; i += 2) {
+        const left = level.subarray(i * HASH_LENGTH, (i + 1) * HASH_LENGTH);
+        const parent = i + 1 < count ? hashNode(left, level.subarray((i + 1) * HASH_LENGTH, (i + 2) * HASH_LENGTH)) : left;
+        next.set(parent, (i / 2) * HASH_LENGTH);
+      }
+      levels.push(next);
+      level = next;
+    }
+    return new MerkleTree(levels, [...chunkChecksums]);
+  }
+
+  /**
+   * The root hash as a hex string. A file without chunks has the digest of empty input as its root.
+   */
+  public get root(): string {
+    const top = this.levels[this.levels.length - 1];
+    return top.length === 0 ? new Sha256().digestHex() : bytesToHex(top);
+  }
+
+  /**
+   * Returns the digest a chunk must have to belong to this tree.
+   * @param chunkIndex The index of the chunk.
+   */
+  public chunkChecksum(chunkIndex: number): string | undefined {
+    return this.checksums[chunkIndex];
+  }
+
+  /**
+   * Collects the sibling hashes that connect a chunk's leaf to the root.
+   * @param chunkIndex The index of the chunk.
+   * @returns The sibling hashes as hex strings, starting next to the leaf.
+   */
+  public proof(chunkIndex: number): string[] {
+    const proof: string[] = [];
+    let index = chunkIndex;
+    for (const level of this.levels.slice(0, -1)) {
+      const sibling = index ^ 1;
+      if (sibling * HASH_LENGTH < level.length) {
+        proof.push(bytesToHex(level.subarray(sibling * HASH_LENGTH, (sibling + 1) * HASH_LENGTH)));
+      }
+      index >>= 1;
+    }
+    return proof;
+  }
+}
+
+/**
+ * Checks that a chunk digest belongs at the given position of a tree with the given root.
+ * @param root The Merkle root announced in the file's metadata.
+ * @param chunkChecksum The SHA-256 hex digest of the received chunk.
+ * @param chunkIndex The position of the chunk in the file.
+ * @param totalChunks The number of chunks in the file.
+ * @param proof The sibling hashes sent with the chunk.
+ * @returns `true` if the proof leads from the chunk to the root.
+ */
+export function verifyMerkleProof(root: string, chunkChecksum: string, chunkIndex: number, totalChunks: number, proof: string[]): boolean {
+  if (!Number.isInteger(chunkIndex) || chunkIndex < 0 || chunkIndex >= totalChunks) {
+    return false;
+  }
+  let hash = hashLeaf(hexToBytes(chunkChecksum));
+  let index = chunkIndex;
+  let count = totalChunks;
+  let used = 0;
+  while (count > 1) {
+    if (index % 2 === 1) {
+      if (used >= proof.length) return false;
+      hash = hashNode(hexToBytes(proof[used++]), hash);
+    } else if (index + 1 < count) {
+      if (used >= proof.length) return false;
+      hash = hashNode(hash, hexToBytes(proof[used++]));
+    }
+    index >>= 1;
+    count = Math.ceil(count / 2);
+  }
+  return used === proof.length && bytesToHex(hash) === root;
+}
+
+/**
+ * Reads a file once as a stream and computes both its full SHA-256 and the digest of every chunk.
+ * Only one chunk is held in memory at a time.
+ * @param file The file to hash.
+ * @param chunkSize The size of the chunk grid.
+ * @returns A promise that resolves with the file digest and the chunk digests, as hex strings.
+ */
+export async function hashFileChunks(file: Blob, chunkSize: number): Promise<{ checksum: string; chunkChecksums: string[] }> {
+  const fileHasher = new Sha256();
+  const chunkChecksums: string[] = [];
+  const chunk = new Uint8Array(chunkSize);
+  let chunkLength = 0;
+
+  const reader = file.stream().getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      fileHasher.update(value);
+      let offset = 0;
+      while (offset < value.length) {
+        const take = Math.min(chunkSize - chunkLength, value.length - offset);
+        chunk.set(value.subarray(offset, offset + take), chunkLength);
+        chunkLength += take;
+        offset += take;
+        if (chunkLength === chunkSize) {
+          chunkChecksums.push(await calculateSHA256(chunk.slice().buffer));
+          chunkLength = 0;
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+  if (chunkLength > 0) {
+    chunkChecksums.push(await calculateSHA256(chunk.slice(0, chunkLength).buffer));
+  }
+  return { checksum: fileHasher.digestHex(), chunkChecksums };
+}
+
+// --- File manifests ---
+// A manifest lists everything needed to check a copy of a file later, without the peer:
+// hash the copy in chunks of `chunkSize`, compare each digest, and rebuild the root.
+
+export const FILE_MANIFEST_FORMAT = 'swaz-file-manifest-v1';
+
+export type FileManifest = {
+  format: typeof FILE_MANIFEST_FORMAT;
+  name: string;
+  // Relative path in the folder the file was sent from, ending in its name.
+  path: string;
+  type: string;
+  size: number;
+  sha256: string;
+  chunkSize: number;
+  merkleRoot: string;
+  // SHA-256 of every chunk, in order.
+  chunks: string[];
+  createdAt: string;
+};
+
+/**
+ * Describes a received file for export.
+ * @param file The name, relative path, type, size and full SHA-256 of the file.
+ * @param chunkSize The size of the chunk grid the tree was built on.
+ * @param chunkChecksums The digest of every chunk, in order.
+ * @returns The manifest.
+ * @throws If the chunk digests do not produce the given root.
+ */
+export function createFileManifest(
+  file: { name: string; path: string; type: string; size: number; sha256: string; merkleRoot: string },
+  chunkSize: number,
+  chunkChecksums: string[],
+): FileManifest {
+  if (MerkleTree.fromChunkChecksums(chunkChecksums).root !== file.merkleRoot) {
+    throw new Error('The chunk digests do not match the Merkle root.');
+  }
+  return {
+    format: FILE_MANIFEST_FORMAT,
+    name: file.name,
+    path: file.path,
+    type: file.type,
+    size: file.size,
+    sha256: file.sha256,
+    chunkSize,
+    merkleRoot: file.merkleRoot,
+    chunks: chunkChecksums,
+    createdAt: new Date().toISOString(),
+  };
+}
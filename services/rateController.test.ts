@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { RateController, MIN_CHUNK_SIZE, MAX_CHUNK_SIZE } from './rateController';
+import { TransportStats } from './WebRTCConnectionManager';
+
+const MB = 1024 * 1024;
+
+// A stats sample taken `seconds` into the transfer, after `bytesSent` bytes.
+function sample(seconds: number, bytesSent: number, overrides: Partial<TransportStats> = {}): TransportStats {
+    return {
+        timestamp: seconds * 1000,
+        bytesSent,
+        rttMs: 50,
+        availableOutgoingBitrate: null,
+        maxMessageSize: 256 * 1024 + 4 * 1024,
+        ...overrides,
+    };
+}
+
+describe('RateController', () => {
+    it('keeps its initial decision until it has two samples', () => {
+        const controller = new RateController();
+        const initial = controller.decision;
+        expect(initial.chunkSize).toBe(64 * 1024);
+        expect(initial.highWaterMark).toBe(15 * MB);
+        expect(controller.update(sample(0, 0)).highWaterMark).toBe(initial.highWaterMark);
+        // A sample with the same timestamp says nothing about the rate either.
+        expect(controller.update(sample(0, 10 * MB)).highWaterMark).toBe(initial.highWaterMark);
+    });
+
+    it('sizes the buffer to the bandwidth-delay product', () => {
+        const controller = new RateController();
+        controller.update(sample(0, 0));
+        // 4 MB/s over 50 ms RTT, plus the refill margin of 250 ms: 1.2 MB.
+        const decision = controller.update(sample(1, 4 * MB));
+        expect(decision.sendRate).toBe(4 * MB);
+        expect(decision.estimatedBandwidth).toBe(4 * MB);
+        expect(decision.highWaterMark).toBe(Math.round(4 * MB * 0.3));
+        expect(decision.lowWaterMark).toBe(Math.round(decision.highWaterMark / 2));
+    });
+
+    it('prefers the browser bandwidth estimate to the measured send rate', () => {
+        const controller = new RateController();
+        controller.update(sample(0, 0));
+        const decision = controller.update(sample(1, 1 * MB, { availableOutgoingBitrate: 8 * 5 * MB }));
+        expect(decision.sendRate).toBe(1 * MB);
+        expect(decision.estimatedBandwidth).toBe(5 * MB);
+    });
+
+    it('grows the buffer by at most a quarter per sample', () => {
+        const controller = new RateController();
+        controller.update(sample(0, 0));
+        const small = controller.update(sample(1, 4 * MB)).highWaterMark;
+        const grown = controller.update(sample(2, 4 * MB + 40 * MB)).highWaterMark;
+        expect(grown).toBe(Math.round(small * 1.25));
+    });
+
+    it('backs off once round-trip times show queues building up', () => {
+        const controller = new RateController();
+        controller.update(sample(0, 0));
+        controller.update(sample(1, 4 * MB));
+        // Twice the minimum RTT of 50 ms plus the 50 ms margin is 150 ms: still fine.
+        const steady = controller.update(sample(2, 8 * MB, { rttMs: 150 }));
+        expect(steady.reason).not.toMatch(/shrinking/);
+        const decision = controller.update(sample(3, 12 * MB, { rttMs: 200 }));
+        expect(decision.highWaterMark).toBe(Math.round(steady.highWaterMark * 0.7));
+        expect(decision.minRttMs).toBe(50);
+        expect(decision.reason).toMatch(/shrinking the buffer/);
+    });
+
+    it('keeps the buffer within its bounds', () => {
+        const controller = new RateController();
+        controller.update(sample(0, 0));
+        expect(controller.update(sample(1, 1024)).highWaterMark).toBe(1 * MB);
+        for (let i = 2; i < 20; i++) controller.update(sample(i, i * 1000 * MB));
+        expect(controller.decision.highWaterMark).toBe(16 * MB);
+    });
+
+    it('leaves the buffer alone while the connection is idle', () => {
+        const controller = new RateController();
+        controller.update(sample(0, 0));
+        const decision = controller.update(sample(1, 0));
+        expect(decision.highWaterMark).toBe(15 * MB);
+        expect(decision.reason).toMatch(/idle/);
+    });
+
+    it('picks the chunk size from the bandwidth, within its bounds', () => {
+        const slow = new RateController();
+        slow.update(sample(0, 0));
+        expect(slow.update(sample(1, 100 * 1024)).chunkSize).toBe(MIN_CHUNK_SIZE);
+
+        const medium = new RateController();
+        medium.update(sample(0, 0));
+        // 10 ms at 7 MB/s is about 70 KB; the largest power of two below it is 64 KB.
+        expect(medium.update(sample(1, 7 * MB)).chunkSize).toBe(64 * 1024);
+
+        const fast = new RateController();
+        fast.update(sample(0, 0));
+        expect(fast.update(sample(1, 1000 * MB)).chunkSize).toBe(MAX_CHUNK_SIZE);
+    });
+
+    it('starts with frames that fit in a 64 KiB message', () => {
+        const controller = new RateController();
+        expect(controller.decision.frameSize).toBe(32 * 1024);
+        expect(controller.update(sample(0, 0, { maxMessageSize: 65536 })).frameSize).toBe(32 * 1024);
+    });
+
+    it('shrinks frames to the message size the peer announces, before any rate is known', () => {
+        const controller = new RateController();
+        expect(controller.update(sample(0, 0, { maxMessageSize: 16 * 1024 })).frameSize).toBe(8 * 1024);
+    });
+
+    it('never sends frames larger than a message, however fast the connection', () => {
+        const controller = new RateController();
+        controller.update(sample(0, 0, { maxMessageSize: 65536 }));
+        expect(controller.update(sample(1, 1000 * MB, { maxMessageSize: 65536 })).frameSize).toBe(32 * 1024);
+    });
+
+    it('halves the frame size while queues build up', () => {
+        const controller = new RateController();
+        controller.update(sample(0, 0));
+        const before = controller.update(sample(1, 1000 * MB)).frameSize;
+        expect(before).toBe(MAX_CHUNK_SIZE);
+        expect(controller.update(sample(2, 2000 * MB, { rttMs: 500 })).frameSize).toBe(before / 2);
+        expect(controller.update(sample(3, 3000 * MB, { rttMs: 500 })).frameSize).toBe(before / 4);
+        // The chunk grid of new files follows the bandwidth, not the congestion.
+        expect(controller.decision.chunkSize).toBe(MAX_CHUNK_SIZE);
+    });
+});
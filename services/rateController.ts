@@ -0,0 +1,153 @@
+import { TransportStats } from './WebRTCConnectionManager';
+import { MAX_CHUNK_HEADER_LENGTH } from './frameCodec';
+
+// Bounds for the per-connection send buffer. The budget is shared by all parallel streams.
+const MIN_HIGH_WATER_MARK = 1 * 1024 * 1024; // 1 MB
+const MAX_HIGH_WATER_MARK = 16 * 1024 * 1024; // 16 MB
+const INITIAL_HIGH_WATER_MARK = 15 * 1024 * 1024; // 15 MB
+const INITIAL_LOW_WATER_MARK = 8 * 1024 * 1024; // 8 MB
+
+// Chunk sizes are powers of two in this range. Larger chunks need fewer proofs and acknowledgements;
+// smaller frames interleave better between parallel streams on slow links.
+export const MIN_CHUNK_SIZE = 16 * 1024; // 16 KB
+export const MAX_CHUNK_SIZE = 256 * 1024; // 256 KB
+const INITIAL_CHUNK_SIZE = 64 * 1024; // 64 KB
+// A chunk can be split into frames as small as this when the connection is congested.
+const MIN_FRAME_SIZE = 4 * 1024; // 4 KB
+// Frames start out as large as fits in a message of the default size below.
+const INITIAL_FRAME_SIZE = 32 * 1024; // 32 KB
+// Aim for chunks and frames that take about this long to send at the estimated bandwidth.
+const CHUNK_SEND_TIME = 0.01; // 10 ms
+// Bytes a frame adds to its payload: the chunk header, then the key epoch, IV and AEAD tag of the ciphertext.
+const FRAME_OVERHEAD = MAX_CHUNK_HEADER_LENGTH + 4 + 12 + 16;
+// The message size every peer accepts when it does not announce a limit of its own (RFC 8841).
+const DEFAULT_MAX_MESSAGE_SIZE = 64 * 1024;
+
+// The buffer should hold a round trip's worth of data plus this much more,
+// so the SCTP stack never runs dry while the page is busy encrypting.
+const BUFFER_REFILL_TIME = 0.25; // seconds
+// A round-trip time above twice the lowest seen plus this margin means packets are queueing somewhere on the path.
+const QUEUEING_DELAY_THRESHOLD_MS = 50;
+const BACKOFF_FACTOR = 0.7;
+const GROWTH_FACTOR = 1.25;
+// Weight of the newest sample in the smoothed bandwidth estimate.
+const SMOOTHING = 0.3;
+
+export type RateDecision = {
+    // Chunk size for files that start from now on. A file keeps its chunk grid once it is announced.
+    chunkSize: number;
+    // Largest frame a chunk is sent in. Unlike the chunk size, this applies mid-file.
+    frameSize: number;
+    // Buffered-amount thresholds for the whole connection, before they are split between streams.
+    highWaterMark: number;
+    lowWaterMark: number;
+    rttMs: number | null;
+    minRttMs: number | null;
+    // What actually left the connection since the previous sample, in bytes per second.
+    sendRate: number;
+    // The browser's estimate when it offers one, otherwise the smoothed send rate, in bytes per second.
+    estimatedBandwidth: number;
+    reason: string;
+};
+
+/**
+ * Tunes the send buffer and chunk size from periodic samples of the connection's stats.
+ * The buffer tracks the bandwidth-delay product while round-trip times stay near their
+ * minimum, and backs off quickly once rising round-trip times show that queues are building.
+ */
+export class RateController {
+    private previous: TransportStats | null = null;
+    private minRttMs: number | null = null;
+    private smoothedBandwidth = 0;
+    private current: RateDecision = {
+        chunkSize: INITIAL_CHUNK_SIZE,
+        frameSize: INITIAL_FRAME_SIZE,
+        highWaterMark: INITIAL_HIGH_WATER_MARK,
+        lowWaterMark: INITIAL_LOW_WATER_MARK,
+        rttMs: null,
+        minRttMs: null,
+        sendRate: 0,
+        estimatedBandwidth: 0,
+        reason: 'Waiting for connection stats',
+    };
+
+    public get decision(): RateDecision {
+        return this.current;
+    }
+
+    /**
+     * Feeds a new stats sample to the controller.
+     * @param stats The connection's transport stats.
+     * @returns The updated decision.
+     */
+    public update(stats: TransportStats): RateDecision {
+        const previous = this.previous;
+        this.previous = stats;
+        const elapsed = previous ? (stats.timestamp - previous.timestamp) / 1000 : 0;
+        // The first sample, or one taken too soon after the last, only establishes a baseline.
+        if (!previous || elapsed <= 0) {
+            // Still, frames must fit in a message from the moment the limit is known.
+            let { frameSize } = this.current;
+            while (frameSize > MIN_FRAME_SIZE && frameSize > payloadLimit(stats.maxMessageSize)) frameSize /= 2;
+            this.current = { ...this.current, frameSize };
+            return this.current;
+        }
+
+        const sendRate = Math.max(0, (stats.bytesSent - previous.bytesSent) / elapsed);
+        if (stats.rttMs !== null) {
+            this.minRttMs = this.minRttMs === null ? stats.rttMs : Math.min(this.minRttMs, stats.rttMs);
+        }
+        const sample = stats.availableOutgoingBitrate !== null ? stats.availableOutgoingBitrate / 8 : sendRate;
+        // An idle connection says nothing about its capacity, so it does not drag the estimate down.
+        if (sample > 0) {
+            this.smoothedBandwidth = this.smoothedBandwidth === 0 ? sample : SMOOTHING * sample + (1 - SMOOTHING) * this.smoothedBandwidth;
+        }
+
+        let { highWaterMark } = this.current;
+        let reason: string;
+        const rttSeconds = (stats.rttMs ?? 0) / 1000;
+        const chunkSize = this.chooseSize(MIN_CHUNK_SIZE, stats.maxMessageSize);
+        let frameSize = this.chooseSize(MIN_FRAME_SIZE, stats.maxMessageSize);
+        if (stats.rttMs !== null && this.minRttMs !== null && stats.rttMs > this.minRttMs * 2 + QUEUEING_DELAY_THRESHOLD_MS) {
+            highWaterMark *= BACKOFF_FACTOR;
+            // Smaller frames let the streams of other files get a word in while queues drain.
+            frameSize = Math.max(MIN_FRAME_SIZE, Math.min(frameSize, this.current.frameSize / 2));
+            reason = `RTT ${Math.round(stats.rttMs)} ms is well above the minimum of ${Math.round(this.minRttMs)} ms; shrinking the buffer`;
+        } else if (this.smoothedBandwidth > 0) {
+            const target = this.smoothedBandwidth * (rttSeconds + BUFFER_REFILL_TIME);
+            highWaterMark = target > highWaterMark ? Math.min(target, highWaterMark * GROWTH_FACTOR) : target;
+            reason = `Buffer follows ${Math.round(this.smoothedBandwidth / 1024)} KB/s over ${Math.round(rttSeconds * 1000)} ms RTT`;
+        } else {
+            reason = 'Connection idle; keeping the current buffer';
+        }
+        highWaterMark = Math.round(Math.min(MAX_HIGH_WATER_MARK, Math.max(MIN_HIGH_WATER_MARK, highWaterMark)));
+
+        this.current = {
+            chunkSize,
+            frameSize,
+            highWaterMark,
+            lowWaterMark: Math.round(highWaterMark / 2),
+            rttMs: stats.rttMs,
+            minRttMs: this.minRttMs,
+            sendRate,
+            estimatedBandwidth: this.smoothedBandwidth,
+            reason,
+        };
+        return this.current;
+    }
+
+    // Picks the largest power of two from `minimum` up that fits in a message and the send time target.
+    private chooseSize(minimum: number, maxMessageSize: number | null): number {
+        const limit = payloadLimit(maxMessageSize);
+        let size = minimum;
+        while (size * 2 <= limit && size * 2 <= this.smoothedBandwidth * CHUNK_SEND_TIME) {
+            size *= 2;
+        }
+        return size;
+    }
+}
+
+// The largest frame payload that fits in one data channel message.
+function payloadLimit(maxMessageSize: number | null): number {
+    return Math.min(MAX_CHUNK_SIZE, (maxMessageSize ?? DEFAULT_MAX_MESSAGE_SIZE) - FRAME_OVERHEAD);
+}
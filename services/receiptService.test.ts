@@ -0,0 +1,176 @@
+import { createHash } from 'node:crypto';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+  TransferReceipt,
+  ReceiptSession,
+  issueReceipt,
+  verifyReceiptSignature,
+  checkSessionReceipt,
+  findTrustedSigner,
+  parseReceipt,
+  checkReceiptFiles,
+} from './receiptService';
+import { exportPublicKey, generateIdentityKeyPair } from './cryptoService';
+import { FILE_MANIFEST_FORMAT, FileManifest } from './merkle';
+import { withRelativePath } from '../utils/relativePaths';
+import { DeviceIdentity } from '../utils/identityDB';
+
+const sha256 = (text: string) => createHash('sha256').update(text).digest('hex');
+
+const manifest = (path: string, contents: string): FileManifest => ({
+  format: FILE_MANIFEST_FORMAT,
+  name: path.split('/').pop()!,
+  path,
+  type: 'text/plain',
+  size: contents.length,
+  sha256: sha256(contents),
+  chunkSize: 64 * 1024,
+  merkleRoot: sha256(`root of ${path}`),
+  chunks: [sha256(contents)],
+  createdAt: '2024-01-01T00:00:00.000Z',
+});
+
+async function createIdentity(name: string): Promise<DeviceIdentity> {
+  const keyPair = await generateIdentityKeyPair();
+  return { deviceId: `${name}-id`, name, keyPair, publicKey: await exportPublicKey(keyPair.publicKey), createdAt: 0 };
+}
+
+const session = (receiverIdentity: DeviceIdentity | null): ReceiptSession => ({
+  roomId: 'room-1',
+  cipherSuite: 'P-256 + AES-256-GCM',
+  sessionFingerprints: { local: 'receiver-session', remote: 'sender-session' },
+  senderIdentity: null,
+  receiverIdentity,
+});
+
+// The sender's view of the same session.
+const senderFingerprints = { local: 'sender-session', remote: 'receiver-session' };
+
+const files = [manifest('Photos/a.txt', 'alpha'), manifest('Photos/2019/b.txt', 'beta')];
+
+// A copy of a receipt that can be altered freely.
+const copy = (receipt: TransferReceipt): TransferReceipt => JSON.parse(JSON.stringify(receipt));
+
+describe('receipts', () => {
+  let device: DeviceIdentity;
+  let fallbackKeyPair: CryptoKeyPair;
+  let deviceReceipt: TransferReceipt;
+  let oneTimeReceipt: TransferReceipt;
+
+  beforeAll(async () => {
+    // Keys and signatures use Web Crypto through `window`, as in the browser.
+    vi.stubGlobal('window', globalThis);
+    // Malformed signatures are logged; the assertions check the results instead.
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    device = await createIdentity('Laptop');
+    fallbackKeyPair = await generateIdentityKeyPair();
+    deviceReceipt = await issueReceipt(session(device), files, fallbackKeyPair);
+    oneTimeReceipt = await issueReceipt(session(null), files, fallbackKeyPair);
+  });
+  afterAll(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('lists every received file and both session keys', () => {
+    expect(deviceReceipt.files.map(file => file.path)).toEqual(['Photos/a.txt', 'Photos/2019/b.txt']);
+    expect(deviceReceipt.files[0]).toMatchObject({ name: 'a.txt', size: 5, sha256: sha256('alpha'), receivedAt: '2024-01-01T00:00:00.000Z' });
+    expect(deviceReceipt.receiver.sessionKeyFingerprint).toBe('receiver-session');
+    expect(deviceReceipt.sender.sessionKeyFingerprint).toBe('sender-session');
+  });
+
+  it('signs with the device identity when there is one', async () => {
+    expect(deviceReceipt.signer.kind).toBe('device');
+    expect(deviceReceipt.signer.publicKey).toEqual(device.publicKey);
+    expect(deviceReceipt.receiver.device).toEqual({ deviceId: 'Laptop-id', name: 'Laptop', fingerprint: deviceReceipt.signer.fingerprint });
+    expect(await verifyReceiptSignature(deviceReceipt)).toBe('valid');
+  });
+
+  it('marks a receipt signed with a one-time key as unbound', async () => {
+    expect(oneTimeReceipt.signer.kind).toBe('one-time');
+    expect(oneTimeReceipt.receiver.device).toBeNull();
+    expect(await verifyReceiptSignature(oneTimeReceipt)).toBe('unbound');
+  });
+
+  it('does not depend on the order of keys in the JSON', async () => {
+    const reordered = Object.fromEntries(Object.entries(copy(deviceReceipt)).reverse()) as TransferReceipt;
+    expect(await verifyReceiptSignature(parseReceipt(JSON.stringify(reordered)))).toBe('valid');
+  });
+
+  it('detects a changed file entry', async () => {
+    const tampered = copy(deviceReceipt);
+    tampered.files[1].sha256 = sha256('gamma');
+    expect(await verifyReceiptSignature(tampered)).toBe('invalid');
+
+    const dropped = copy(oneTimeReceipt);
+    dropped.files.pop();
+    expect(await verifyReceiptSignature(dropped)).toBe('invalid');
+  });
+
+  it('detects a one-time receipt passed off as signed by a device', async () => {
+    const promoted = copy(oneTimeReceipt);
+    promoted.signer.kind = 'device';
+    expect(await verifyReceiptSignature(promoted)).toBe('invalid');
+    promoted.receiver.device = { deviceId: 'Laptop-id', name: 'Laptop', fingerprint: oneTimeReceipt.signer.fingerprint };
+    expect(await verifyReceiptSignature(promoted)).toBe('invalid');
+  });
+
+  it('detects a device receipt signed by another key', async () => {
+    const other = await createIdentity('Phone');
+    const resigned = await issueReceipt(session(other), files, fallbackKeyPair);
+    const forged = { ...copy(resigned), receiver: copy(deviceReceipt).receiver };
+    expect(await verifyReceiptSignature(forged)).toBe('invalid');
+  });
+
+  it('detects a signer fingerprint that does not match its key', async () => {
+    const tampered = copy(deviceReceipt);
+    tampered.signer.fingerprint = '0000 0000 0000 0000';
+    expect(await verifyReceiptSignature(tampered)).toBe('invalid');
+  });
+
+  it('detects a malformed signature', async () => {
+    expect(await verifyReceiptSignature({ ...copy(deviceReceipt), signature: 'zz' })).toBe('invalid');
+  });
+
+  it('lets the sender keep an intact receipt for its own session, even with a one-time key', async () => {
+    expect(await checkSessionReceipt(deviceReceipt, 'room-1', senderFingerprints)).toBe(true);
+    expect(await checkSessionReceipt(oneTimeReceipt, 'room-1', senderFingerprints)).toBe(true);
+    expect(await checkSessionReceipt(deviceReceipt, 'room-2', senderFingerprints)).toBe(false);
+    expect(await checkSessionReceipt(deviceReceipt, 'room-1', { local: 'receiver-session', remote: 'sender-session' })).toBe(false);
+    const tampered = copy(oneTimeReceipt);
+    tampered.issuedAt = new Date(0).toISOString();
+    expect(await checkSessionReceipt(tampered, 'room-1', senderFingerprints)).toBe(false);
+  });
+
+  it('finds the trusted device that signed a receipt', async () => {
+    const trusted = { deviceId: 'Laptop-id', name: 'Laptop', publicKey: device.publicKey, addedAt: 0 };
+    const stranger = await createIdentity('Phone');
+    expect(await findTrustedSigner(deviceReceipt, [trusted])).toBe(trusted);
+    expect(await findTrustedSigner(deviceReceipt, [{ ...trusted, publicKey: stranger.publicKey }])).toBeNull();
+    expect(await findTrustedSigner(oneTimeReceipt, [trusted])).toBeNull();
+  });
+
+  it('parses exported receipts and rejects anything else', () => {
+    expect(parseReceipt(JSON.stringify(deviceReceipt))).toEqual(deviceReceipt);
+    expect(() => parseReceipt('{')).toThrow(/not valid JSON/);
+    expect(() => parseReceipt(JSON.stringify({ ...deviceReceipt, format: 'swaz-transfer-receipt-v2' }))).toThrow(/not a transfer receipt/);
+    const { kind: _kind, ...signerWithoutKind } = deviceReceipt.signer;
+    expect(() => parseReceipt(JSON.stringify({ ...deviceReceipt, signer: signerWithoutKind }))).toThrow(/not a transfer receipt/);
+  });
+
+  it('matches local copies by path and compares their contents', async () => {
+    const checks = await checkReceiptFiles(deviceReceipt, [
+      // A picked folder that holds the received folder still matches.
+      withRelativePath(new File(['alpha'], 'a.txt'), 'Downloads/Photos/a.txt'),
+      // Same name, wrong folder.
+      withRelativePath(new File(['beta'], 'b.txt'), 'Photos/b.txt'),
+    ]);
+    expect(checks.map(check => check.status)).toEqual(['match', 'missing']);
+
+    const altered = await checkReceiptFiles(deviceReceipt, [
+      withRelativePath(new File(['alphA'], 'a.txt'), 'Photos/a.txt'),
+      withRelativePath(new File(['beta!'], 'b.txt'), 'Photos/2019/b.txt'),
+    ]);
+    expect(altered.map(check => check.status)).toEqual(['mismatch', 'mismatch']);
+  });
+});
@@ -0,0 +1,271 @@
+import { signWithIdentity, verifyIdentitySignature, computeIdentityFingerprint, exportPublicKey } from './cryptoService';
+import { sha256Blob } from './sha256';
+import { FileManifest } from './merkle';
+import { getRelativePath } from '../utils/relativePaths';
+import { PeerIdentity } from './identityService';
+import { DeviceIdentity, TrustedDevice } from '../utils/identityDB';
+
+// --- Transfer receipts ---
+// A receipt is the receiver's signed statement of which files it received in a session.
+// It is issued once the transfer is done, covers every file received in the session, and is
+// sent to the sender so both sides can keep a copy for chain of custody.
+// A receiver without a device identity signs with a one-time key. Nothing ties that key to the
+// receiver, so such a receipt is marked as unauthenticated: its signature only shows it was not altered.
+
+export const RECEIPT_FORMAT = 'swaz-transfer-receipt-v3';
+
+export type ReceiptDevice = {
+  deviceId: string;
+  name: string;
+  fingerprint: string;
+};
+
+export type ReceiptParty = {
+  // Fingerprint of the ephemeral public key this peer used in the session.
+  sessionKeyFingerprint: string;
+  // The peer's long-term device identity, if it has one.
+  device: ReceiptDevice | null;
+};
+
+export type ReceiptFile = {
+  name: string;
+  // Relative path in the folder the file was sent from, ending in its name.
+  path: string;
+  type: string;
+  size: number;
+  sha256: string;
+  merkleRoot: string;
+  receivedAt: string;
+};
+
+export type ReceiptSigner = {
+  publicKey: JsonWebKey;
+  fingerprint: string;
+  // 'device' is the receiver's device identity key; 'one-time' is a key generated for this page.
+  kind: 'device' | 'one-time';
+};
+
+export type TransferReceipt = {
+  format: typeof RECEIPT_FORMAT;
+  roomId: string;
+  cipherSuite: string;
+  issuedAt: string;
+  sender: ReceiptParty;
+  receiver: ReceiptParty;
+  files: ReceiptFile[];
+  // The receiver's device identity key, or a one-time key if it has none.
+  signer: ReceiptSigner;
+  signature: string;
+};
+
+export type UnsignedReceipt = Omit<TransferReceipt, 'signer' | 'signature'>;
+
+// Serializes JSON with object keys in sorted order, so the signed bytes do not depend on key order.
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const receiptSignatureInput = (receipt: Omit<TransferReceipt, 'signature'>): Uint8Array =>
+  new TextEncoder().encode(`${RECEIPT_FORMAT}|${canonicalJson(receipt)}`);
+
+/**
+ * Signs a receipt. The signer's public key and kind are part of the signed data.
+ * @param receipt The receipt contents. A receipt that names no receiver device is signed as one-time.
+ * @param privateKey The receiver's private signing key.
+ * @param publicKey The matching public key.
+ * @returns A promise that resolves with the signed receipt.
+ */
+export async function signReceipt(receipt: UnsignedReceipt, privateKey: CryptoKey, publicKey: JsonWebKey): Promise<TransferReceipt> {
+  const signer: ReceiptSigner = {
+    publicKey,
+    fingerprint: await computeIdentityFingerprint(publicKey),
+    kind: receipt.receiver.device ? 'device' : 'one-time',
+  };
+  const signed = { ...receipt, signer };
+  return { ...signed, signature: await signWithIdentity(privateKey, receiptSignatureInput(signed)) };
+}
+
+// 'unbound': the signature is intact, but it was made with a one-time key that anyone could have
+// generated, so it says nothing about who issued the receipt.
+export type ReceiptSignatureStatus = 'valid' | 'unbound' | 'invalid';
+
+/**
+ * Checks a receipt's signature, and that the signer is the receiver's device identity when one is named.
+ * @param receipt The receipt to check.
+ * @returns A promise that resolves with 'valid' only if a device identity signed the receipt.
+ */
+export async function verifyReceiptSignature(receipt: TransferReceipt): Promise<ReceiptSignatureStatus> {
+  const { signature, ...signed } = receipt;
+  const fingerprint = await computeIdentityFingerprint(receipt.signer.publicKey);
+  if (fingerprint !== receipt.signer.fingerprint) return 'invalid';
+  if ((receipt.signer.kind === 'device') !== (receipt.receiver.device !== null)) return 'invalid';
+  if (receipt.receiver.device && receipt.receiver.device.fingerprint !== fingerprint) return 'invalid';
+  if (!await verifyIdentitySignature(receipt.signer.publicKey, signature, receiptSignatureInput(signed))) return 'invalid';
+  return receipt.signer.kind === 'device' ? 'valid' : 'unbound';
+}
+
+// What the receiver knows about the session when it issues a receipt.
+export type ReceiptSession = {
+  roomId: string;
+  cipherSuite: string;
+  sessionFingerprints: { local: string; remote: string };
+  // The sender's verified device identity, if it signed its key offer.
+  senderIdentity: PeerIdentity | null;
+  // This device's identity, if it has one. Its key signs the receipt.
+  receiverIdentity: DeviceIdentity | null;
+};
+
+/**
+ * Issues a signed receipt for every file received in a session so far.
+ * @param session The session the files were received in.
+ * @param manifests The manifests of the received files.
+ * @param fallbackKeyPair A signing key pair to use when this device has no identity.
+ * @returns A promise that resolves with the signed receipt.
+ */
+export async function issueReceipt(session: ReceiptSession, manifests: FileManifest[], fallbackKeyPair: CryptoKeyPair): Promise<TransferReceipt> {
+  const { senderIdentity, receiverIdentity } = session;
+  const keyPair = receiverIdentity?.keyPair ?? fallbackKeyPair;
+  const publicKey = receiverIdentity?.publicKey ?? await exportPublicKey(fallbackKeyPair.publicKey);
+  const receipt: UnsignedReceipt = {
+    format: RECEIPT_FORMAT,
+    roomId: session.roomId,
+    cipherSuite: session.cipherSuite,
+    issuedAt: new Date().toISOString(),
+    sender: {
+      sessionKeyFingerprint: session.sessionFingerprints.remote,
+      device: senderIdentity && { deviceId: senderIdentity.deviceId, name: senderIdentity.name, fingerprint: senderIdentity.fingerprint },
+    },
+    receiver: {
+      sessionKeyFingerprint: session.sessionFingerprints.local,
+      device: receiverIdentity && {
+        deviceId: receiverIdentity.deviceId,
+        name: receiverIdentity.name,
+        fingerprint: await computeIdentityFingerprint(receiverIdentity.publicKey),
+      },
+    },
+    files: manifests.map(({ name, path, type, size, sha256, merkleRoot, createdAt }) => ({ name, path, type, size, sha256, merkleRoot, receivedAt: createdAt })),
+  };
+  return signReceipt(receipt, keyPair.privateKey, publicKey);
+}
+
+/**
+ * Checks a receipt the sender got from its peer: it must be intact and name this exact session.
+ * It arrived over the session's encrypted channel, which is what shows the peer issued it,
+ * so a receipt signed with a one-time key is kept too.
+ * @param receipt The receipt from the peer.
+ * @param roomId The current room.
+ * @param sessionFingerprints The sender's view of the session's keys.
+ * @returns A promise that resolves with `true` if the receipt can be kept.
+ */
+export async function checkSessionReceipt(receipt: TransferReceipt, roomId: string, sessionFingerprints: { local: string; remote: string }): Promise<boolean> {
+  if (receipt.roomId !== roomId ||
+    receipt.sender.sessionKeyFingerprint !== sessionFingerprints.local ||
+    receipt.receiver.sessionKeyFingerprint !== sessionFingerprints.remote) {
+    return false;
+  }
+  return await verifyReceiptSignature(receipt) !== 'invalid';
+}
+
+/**
+ * Looks up the receipt's signer in the trusted devices list.
+ * @param receipt A receipt whose signature has been verified.
+ * @param trustedDevices The trusted devices list.
+ * @returns A promise that resolves with the trusted device whose key signed the receipt, if any.
+ */
+export async function findTrustedSigner(receipt: TransferReceipt, trustedDevices: TrustedDevice[]): Promise<TrustedDevice | null> {
+  for (const device of trustedDevices) {
+    if (await computeIdentityFingerprint(device.publicKey) === receipt.signer.fingerprint) {
+      return device;
+    }
+  }
+  return null;
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isReceiptParty = (value: unknown): boolean =>
+  isRecord(value) && isString(value.sessionKeyFingerprint) &&
+  (value.device === null || (isRecord(value.device) && isString(value.device.deviceId) && isString(value.device.name) && isString(value.device.fingerprint)));
+
+const isReceiptFile = (value: unknown): boolean =>
+  isRecord(value) && isString(value.name) && isString(value.path) && isString(value.type) && Number.isInteger(value.size) &&
+  isString(value.sha256) && isString(value.merkleRoot) && isString(value.receivedAt);
+
+/**
+ * Checks that a value has the shape of a receipt. The signature is not checked.
+ * @param value A parsed JSON value, for example from a loaded file or a peer message.
+ * @returns `true` if the value can be used as a receipt.
+ */
+export function isTransferReceipt(value: unknown): value is TransferReceipt {
+  return isRecord(value) && value.format === RECEIPT_FORMAT &&
+    isString(value.roomId) && isString(value.cipherSuite) && isString(value.issuedAt) &&
+    isReceiptParty(value.sender) && isReceiptParty(value.receiver) &&
+    Array.isArray(value.files) && value.files.every(isReceiptFile) &&
+    isRecord(value.signer) && isRecord(value.signer.publicKey) && isString(value.signer.fingerprint) &&
+    (value.signer.kind === 'device' || value.signer.kind === 'one-time') &&
+    isString(value.signature);
+}
+
+/**
+ * Parses an exported receipt.
+ * @param text The contents of a receipt JSON file.
+ * @returns The receipt.
+ * @throws If the text is not a receipt.
+ */
+export function parseReceipt(text: string): TransferReceipt {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!isTransferReceipt(value)) {
+    throw new Error('The file is not a transfer receipt.');
+  }
+  return value;
+}
+
+export type ReceiptFileCheck = {
+  entry: ReceiptFile;
+  // 'missing' means no local file with the same path was provided.
+  status: 'match' | 'mismatch' | 'missing';
+};
+
+/**
+ * Finds the local copy of a receipt entry. Files with the same name in different folders are
+ * told apart by their path; a picked folder that holds the received folders also matches.
+ */
+const findLocalCopy = (entry: ReceiptFile, files: File[]): File | undefined =>
+  files.find(file => getRelativePath(file) === entry.path) ??
+  files.find(file => getRelativePath(file).endsWith(`/${entry.path}`));
+
+/**
+ * Compares the files listed in a receipt with local copies, matched by their path in the transfer.
+ * @param receipt The receipt.
+ * @param files The local files to check. Each is hashed by streaming it, so size is no concern.
+ * @returns A promise that resolves with one result per receipt entry, in receipt order.
+ */
+export async function checkReceiptFiles(receipt: TransferReceipt, files: File[]): Promise<ReceiptFileCheck[]> {
+  const checks: ReceiptFileCheck[] = [];
+  for (const entry of receipt.files) {
+    const file = findLocalCopy(entry, files);
+    if (!file) {
+      checks.push({ entry, status: 'missing' });
+      continue;
+    }
+    const matches = file.size === entry.size && await sha256Blob(file) === entry.sha256;
+    checks.push({ entry, status: matches ? 'match' : 'mismatch' });
+  }
+  return checks;
+}
@@ -0,0 +1,187 @@
+import { Sha256 } from './sha256';
+import { splitRelativePath } from '../utils/relativePaths';
+
+// Sub-directory of the origin private file system used when no user folder was chosen.
+const OPFS_RECEIVE_DIR = 'swaz-received';
+
+export type ReceiveSinkResult = {
+    file: Blob;
+    checksum: string;
+};
+
+/**
+ * Destination for the bytes of a single received file.
+ * Chunks must be written strictly in order; the full-file SHA-256 is computed
+ * as they pass through, so the complete file never has to be held in memory.
+ */
+export abstract class ReceiveSink {
+    private hasher = new Sha256();
+
+    /**
+     * Appends the next chunk of the file and feeds it into the running checksum.
+     * @param data The plaintext bytes directly following the previously written chunk.
+     */
+    public async write(data: ArrayBuffer): Promise<void> {
+        this.hasher.update(data);
+        await this.writeChunk(data);
+    }
+
+    /**
+     * Flushes the file and finalizes the checksum.
+     * @returns A promise that resolves with the stored file and its SHA-256 hex digest.
+     */
+    public async close(): Promise<ReceiveSinkResult> {
+        const file = await this.closeFile();
+        return { file, checksum: this.hasher.digestHex() };
+    }
+
+    /**
+     * Discards everything written so far.
+     */
+    public abstract abort(): Promise<void>;
+
+    protected abstract writeChunk(data: ArrayBuffer): Promise<void>;
+    protected abstract closeFile(): Promise<Blob>;
+}
+
+/**
+ * Writes into a file handle from the File System Access API, either in a folder
+ * picked by the user or in the origin private file system.
+ */
+class FileHandleSink extends ReceiveSink {
+    private handle: FileSystemFileHandle;
+    private writable: FileSystemWritableFileStream;
+    private onAbort: () => Promise<void>;
+
+    private constructor(handle: FileSystemFileHandle, writable: FileSystemWritableFileStream, onAbort: () => Promise<void>) {
+        super();
+        this.handle = handle;
+        this.writable = writable;
+        this.onAbort = onAbort;
+    }
+
+    /**
+     * Opens a file for writing. A file this sink created is removed again on abort.
+     * @param directory The folder to write in.
+     * @param fileName The name of the file in that folder.
+     * @param removeExisting Whether an abort also removes a file that was already there. The writable
+     *   only replaces a file's contents on close, so a user's existing file survives an abort otherwise.
+     */
+    public static async create(directory: FileSystemDirectoryHandle, fileName: string, removeExisting: boolean): Promise<FileHandleSink> {
+        const existed = await directory.getFileHandle(fileName).then(() => true, () => false);
+        const handle = await directory.getFileHandle(fileName, { create: true });
+        const writable = await handle.createWritable({ keepExistingData: false });
+        const onAbort = async () => {
+            if (removeExisting || !existed) await directory.removeEntry(fileName);
+        };
+        return new FileHandleSink(handle, writable, onAbort);
+    }
+
+    protected async writeChunk(data: ArrayBuffer): Promise<void> {
+        await this.writable.write(data);
+    }
+
+    protected async closeFile(): Promise<Blob> {
+        await this.writable.close();
+        // The returned File is backed by disk, not by memory.
+        return this.handle.getFile();
+    }
+
+    public async abort(): Promise<void> {
+        try {
+            await this.writable.abort();
+            await this.onAbort();
+        } catch (error) {
+            console.warn('Failed to clean up partially written file:', error);
+        }
+    }
+}
+
+/**
+ * Last-resort sink for browsers without any file system access: keeps chunks in memory.
+ */
+class MemorySink extends ReceiveSink {
+    private parts: ArrayBuffer[] = [];
+    private type: string;
+
+    constructor(type: string) {
+        super();
+        this.type = type;
+    }
+
+    protected async writeChunk(data: ArrayBuffer): Promise<void> {
+        this.parts.push(data);
+    }
+
+    protected async closeFile(): Promise<Blob> {
+        const blob = new Blob(this.parts, { type: this.type });
+        this.parts = [];
+        return blob;
+    }
+
+    public async abort(): Promise<void> {
+        this.parts = [];
+    }
+}
+
+// OPFS file names must be unique per transfer and free of path separators.
+const toSafeFileName = (name: string) => name.replace(/[\\/:*?"<>|]/g, '_');
+
+async function getOpfsReceiveDirectory(): Promise<FileSystemDirectoryHandle | null> {
+    if (!navigator.storage?.getDirectory) return null;
+    try {
+        const root = await navigator.storage.getDirectory();
+        return await root.getDirectoryHandle(OPFS_RECEIVE_DIR, { create: true });
+    } catch (error) {
+        console.warn('Origin private file system is unavailable:', error);
+        return null;
+    }
+}
+
+/**
+ * Recreates a folder from the sender's tree inside the chosen save folder.
+ * @param root The folder the user granted write access to.
+ * @param names The folder path, already split by `splitRelativePath`.
+ * @returns A promise that resolves with the innermost folder.
+ */
+export async function createSubdirectories(root: FileSystemDirectoryHandle, names: string[]): Promise<FileSystemDirectoryHandle> {
+    let directory = root;
+    for (const name of names) {
+        directory = await directory.getDirectoryHandle(name, { create: true });
+    }
+    return directory;
+}
+
+/**
+ * Picks the best available sink for a file: the user's chosen folder, then OPFS, then memory.
+ * In the chosen folder, the file is written at its relative path, creating folders as needed.
+ * @param file The name, relative path, MIME type and protocol ID of the file being received.
+ * @param saveDirectory An optional folder the user granted write access to.
+ * @returns A promise that resolves with a sink ready to accept the first chunk.
+ */
+export async function createReceiveSink(
+    file: { fileId: string; name: string; path: string; type: string },
+    saveDirectory: FileSystemDirectoryHandle | null,
+): Promise<ReceiveSink> {
+    if (saveDirectory) {
+        try {
+            const names = splitRelativePath(file.path) ?? [toSafeFileName(file.name)];
+            const directory = await createSubdirectories(saveDirectory, names.slice(0, -1));
+            return await FileHandleSink.create(directory, names[names.length - 1], false);
+        } catch (error) {
+            console.warn(`Could not write ${file.name} to the chosen folder, falling back:`, error);
+        }
+    }
+
+    const opfsDirectory = await getOpfsReceiveDirectory();
+    if (opfsDirectory) {
+        try {
+            return await FileHandleSink.create(opfsDirectory, toSafeFileName(file.fileId), true);
+        } catch (error) {
+            // Some browsers expose OPFS but only allow synchronous access handles inside workers.
+            console.warn('Could not create an OPFS writable, falling back to memory:', error);
+        }
+    }
+
+    return new MemorySink(file.type);
+}
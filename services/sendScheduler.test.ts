@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { SendScheduler, SMALL_FILE_THRESHOLD } from './sendScheduler';
+
+// A file that reports `size` bytes without holding them.
+function fileOfSize(name: string, size: number): File {
+    const file = new File([], name);
+    Object.defineProperty(file, 'size', { value: size });
+    return file;
+}
+
+const small = (name: string) => fileOfSize(name, SMALL_FILE_THRESHOLD);
+const large = (name: string) => fileOfSize(name, SMALL_FILE_THRESHOLD + 1);
+
+describe('SendScheduler', () => {
+    it('hands out files in queue order while streams are free', () => {
+        const scheduler = new SendScheduler(3);
+        const files = [large('a'), small('b'), large('c')];
+        scheduler.setQueue(files);
+        expect(scheduler.next([])).toBe(files[0]);
+        expect(scheduler.next([files[0]])).toBe(files[1]);
+        expect(scheduler.pendingCount).toBe(1);
+        expect(scheduler.queuedFiles).toEqual([files[2]]);
+    });
+
+    it('returns null once every stream is busy or the queue is empty', () => {
+        const scheduler = new SendScheduler(2);
+        const files = [small('a'), small('b'), small('c')];
+        scheduler.setQueue(files);
+        expect(scheduler.next([files[0], files[1]])).toBeNull();
+        expect(scheduler.pendingCount).toBe(3);
+        scheduler.clear();
+        expect(scheduler.next([])).toBeNull();
+    });
+
+    it('keeps the last free stream for a small file while large ones fill the rest', () => {
+        const scheduler = new SendScheduler(3);
+        const busy = [large('a'), large('b')];
+        const queued = [large('c'), large('d'), small('e')];
+        scheduler.setQueue(queued);
+        expect(scheduler.next(busy)).toBe(queued[2]);
+        // With no small file waiting, the stream goes to the next large one.
+        expect(scheduler.next(busy)).toBe(queued[0]);
+    });
+
+    it('does not reserve a stream when only one is allowed', () => {
+        const scheduler = new SendScheduler(1);
+        const queued = [large('a'), small('b')];
+        scheduler.setQueue(queued);
+        expect(scheduler.next([])).toBe(queued[0]);
+    });
+
+    it('applies a new stream count to the next decision', () => {
+        const scheduler = new SendScheduler(1);
+        const active = [small('a')];
+        const queued = [small('b')];
+        scheduler.setQueue(queued);
+        expect(scheduler.next(active)).toBeNull();
+        scheduler.setMaxStreams(2);
+        expect(scheduler.next(active)).toBe(queued[0]);
+    });
+
+    it('copies the queue it is given', () => {
+        const scheduler = new SendScheduler(2);
+        const files = [small('a')];
+        scheduler.setQueue(files);
+        files.push(small('b'));
+        expect(scheduler.pendingCount).toBe(1);
+    });
+
+    it('drops a removed file from the queue', () => {
+        const scheduler = new SendScheduler(2);
+        const files = [small('a'), small('b')];
+        scheduler.setQueue(files);
+        expect(scheduler.remove(files[0])).toBe(true);
+        expect(scheduler.remove(files[0])).toBe(false);
+        expect(scheduler.queuedFiles).toEqual([files[1]]);
+    });
+
+    it('starts a file moved to the front on the next free stream', () => {
+        const scheduler = new SendScheduler(2);
+        const files = [small('a'), small('b'), small('c')];
+        scheduler.setQueue(files);
+        expect(scheduler.moveToFront(files[2])).toBe(true);
+        expect(scheduler.next([])).toBe(files[2]);
+        expect(scheduler.moveToFront(files[2])).toBe(false);
+    });
+
+    it('still gives the reserved stream to a small file when a large one was moved to the front', () => {
+        const scheduler = new SendScheduler(2);
+        const queued = [small('a'), large('b')];
+        scheduler.setQueue(queued);
+        scheduler.moveToFront(queued[1]);
+        expect(scheduler.next([large('c')])).toBe(queued[0]);
+    });
+});
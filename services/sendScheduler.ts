@@ -0,0 +1,86 @@
+// Files at or below this size count as "small" for scheduling purposes.
+export const SMALL_FILE_THRESHOLD = 4 * 1024 * 1024; // 4 MB
+
+/**
+ * Decides which queued file starts next when a stream becomes free.
+ * Files are sent in the order they were queued, except that one stream is kept
+ * for small files while any are waiting, so a folder of small files never sits
+ * behind a few huge ones.
+ */
+export class SendScheduler {
+    private queue: File[] = [];
+    private maxStreams: number;
+
+    constructor(maxStreams: number) {
+        this.maxStreams = maxStreams;
+    }
+
+    public setMaxStreams(maxStreams: number) {
+        this.maxStreams = maxStreams;
+    }
+
+    /**
+     * Replaces the queue of files waiting to be sent.
+     * @param files The files to send, in the order the user chose them.
+     */
+    public setQueue(files: File[]) {
+        this.queue = [...files];
+    }
+
+    public clear() {
+        this.queue = [];
+    }
+
+    public get pendingCount(): number {
+        return this.queue.length;
+    }
+
+    // The files still waiting, in the order they would start if streams were free.
+    public get queuedFiles(): File[] {
+        return [...this.queue];
+    }
+
+    /**
+     * Takes a file out of the queue.
+     * @param file The file to drop.
+     * @returns `true` if the file was queued.
+     */
+    public remove(file: File): boolean {
+        const index = this.queue.indexOf(file);
+        if (index === -1) return false;
+        this.queue.splice(index, 1);
+        return true;
+    }
+
+    /**
+     * Moves a queued file to the front, so it starts on the next free stream. The one exception is
+     * a stream reserved for small files, which still goes to a small file if the moved one is large.
+     * @param file The file to send next.
+     * @returns `true` if the file was queued.
+     */
+    public moveToFront(file: File): boolean {
+        if (!this.remove(file)) return false;
+        this.queue.unshift(file);
+        return true;
+    }
+
+    /**
+     * Takes the next file to send, if a stream is available for it.
+     * @param activeFiles The files currently being streamed.
+     * @returns The file to start, or null if the queue is empty or every stream is busy.
+     */
+    public next(activeFiles: File[]): File | null {
+        if (this.queue.length === 0 || activeFiles.length >= this.maxStreams) return null;
+
+        const activeLargeFiles = activeFiles.filter(file => file.size > SMALL_FILE_THRESHOLD).length;
+        const smallFileIndex = this.queue.findIndex(file => file.size <= SMALL_FILE_THRESHOLD);
+        // Only the last free stream is reserved, so with a single stream the queue stays strictly in order.
+        const mustTakeSmallFile = this.maxStreams > 1 && activeLargeFiles >= this.maxStreams - 1;
+
+        // If no small files are waiting, there is nothing to reserve the stream for.
+        if (mustTakeSmallFile && smallFileIndex !== -1) {
+            return this.queue.splice(smallFileIndex, 1)[0];
+        }
+        return this.queue.shift()!;
+    }
+}
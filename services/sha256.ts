@@ -0,0 +1,164 @@
+// --- Incremental SHA-256 ---
+// Web Crypto's `digest` only accepts a complete buffer, which forces whole files into memory.
+// This is a small, self-contained FIPS 180-4 implementation that can be fed data piece by piece.
+
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const BLOCK_SIZE = 64;
+
+/**
+ * Computes a SHA-256 digest incrementally.
+ * Call `update` any number of times with consecutive pieces of the input, then `digestHex` once.
+ */
+export class Sha256 {
+  private state = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ]);
+  private buffer = new Uint8Array(BLOCK_SIZE);
+  private bufferLength = 0;
+  private bytesHashed = 0;
+  private words = new Uint32Array(64);
+  private finished = false;
+
+  /**
+   * Feeds the next piece of input into the hash.
+   * @param data The bytes that directly follow everything passed in previous calls.
+   */
+  public update(data: ArrayBuffer | Uint8Array): this {
+    if (this.finished) {
+      throw new Error('SHA-256 digest has already been computed.');
+    }
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    let offset = 0;
+    this.bytesHashed += bytes.length;
+
+    // Top up a partially filled block first.
+    if (this.bufferLength > 0) {
+      const take = Math.min(BLOCK_SIZE - this.bufferLength, bytes.length);
+      this.buffer.set(bytes.subarray(0, take), this.bufferLength);
+      this.bufferLength += take;
+      offset = take;
+      if (this.bufferLength === BLOCK_SIZE) {
+        this.processBlock(this.buffer, 0);
+        this.bufferLength = 0;
+      }
+    }
+
+    // Process whole blocks straight from the input.
+    while (offset + BLOCK_SIZE <= bytes.length) {
+      this.processBlock(bytes, offset);
+      offset += BLOCK_SIZE;
+    }
+
+    // Keep the remainder for the next call.
+    if (offset < bytes.length) {
+      this.buffer.set(bytes.subarray(offset), 0);
+      this.bufferLength = bytes.length - offset;
+    }
+    return this;
+  }
+
+  /**
+   * Finalizes the hash. The instance cannot be updated afterwards.
+   * @returns The 32-byte SHA-256 digest.
+   */
+  public digest(): Uint8Array {
+    if (!this.finished) {
+      this.finish();
+    }
+    const digest = new Uint8Array(32);
+    const view = new DataView(digest.buffer);
+    this.state.forEach((word, i) => view.setUint32(i * 4, word));
+    return digest;
+  }
+
+  /**
+   * Finalizes the hash. The instance cannot be updated afterwards.
+   * @returns The SHA-256 digest as a lowercase hex string.
+   */
+  public digestHex(): string {
+    if (!this.finished) {
+      this.finish();
+    }
+    return [...this.state].map(word => word.toString(16).padStart(8, '0')).join('');
+  }
+
+  private finish() {
+    const bitLengthHigh = Math.floor(this.bytesHashed / 0x20000000);
+    const bitLengthLow = (this.bytesHashed * 8) >>> 0;
+
+    // Append the 0x80 terminator, pad with zeros and finish with the 64-bit message length.
+    this.buffer[this.bufferLength++] = 0x80;
+    if (this.bufferLength > BLOCK_SIZE - 8) {
+      this.buffer.fill(0, this.bufferLength);
+      this.processBlock(this.buffer, 0);
+      this.bufferLength = 0;
+    }
+    this.buffer.fill(0, this.bufferLength);
+    const view = new DataView(this.buffer.buffer);
+    view.setUint32(BLOCK_SIZE - 8, bitLengthHigh);
+    view.setUint32(BLOCK_SIZE - 4, bitLengthLow);
+    this.processBlock(this.buffer, 0);
+    this.finished = true;
+  }
+
+  private processBlock(bytes: Uint8Array, offset: number) {
+    const w = this.words;
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      w[i] = (bytes[j] << 24) | (bytes[j + 1] << 16) | (bytes[j + 2] << 8) | bytes[j + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const w15 = w[i - 15];
+      const w2 = w[i - 2];
+      const s0 = ((w15 >>> 7) | (w15 << 25)) ^ ((w15 >>> 18) | (w15 << 14)) ^ (w15 >>> 3);
+      const s1 = ((w2 >>> 17) | (w2 << 15)) ^ ((w2 >>> 19) | (w2 << 13)) ^ (w2 >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+    }
+
+    const h = this.state;
+    let a = h[0], b = h[1], c = h[2], d = h[3], e = h[4], f = h[5], g = h[6], hh = h[7];
+    for (let i = 0; i < 64; i++) {
+      const S1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+      const ch = (e & f) ^ (~e & g);
+      const temp1 = (hh + S1 + ch + K[i] + w[i]) | 0;
+      const S0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (S0 + maj) | 0;
+      hh = g; g = f; f = e; e = (d + temp1) | 0;
+      d = c; c = b; b = a; a = (temp1 + temp2) | 0;
+    }
+    h[0] += a; h[1] += b; h[2] += c; h[3] += d;
+    h[4] += e; h[5] += f; h[6] += g; h[7] += hh;
+  }
+}
+
+/**
+ * Hashes a File or Blob by reading it as a stream, so only one slice is in memory at a time.
+ * @param blob The File or Blob to hash.
+ * @returns A promise that resolves with the SHA-256 digest as a lowercase hex string,
+ * identical to hashing the whole content at once.
+ */
+export async function sha256Blob(blob: Blob): Promise<string> {
+  const hasher = new Sha256();
+  const reader = blob.stream().getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      hasher.update(value);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+  return hasher.digestHex();
+}
@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TokenBucket } from './tokenBucket';
+
+// Resolves to whether `promise` settled within `ms` of fake time.
+async function settlesWithin(promise: Promise<void>, ms: number): Promise<boolean> {
+    let settled = false;
+    promise.then(() => { settled = true; });
+    await vi.advanceTimersByTimeAsync(ms);
+    return settled;
+}
+
+describe('TokenBucket', () => {
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'performance'] });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('never waits without a limit', async () => {
+        const bucket = new TokenBucket();
+        expect(bucket.limit).toBe(0);
+        expect(await settlesWithin(bucket.take(1e9), 0)).toBe(true);
+    });
+
+    it('starts full, then lets bytes through at the limit', async () => {
+        const bucket = new TokenBucket(1000);
+        expect(await settlesWithin(bucket.take(1000), 0)).toBe(true);
+        const next = bucket.take(500);
+        expect(await settlesWithin(next, 400)).toBe(false);
+        expect(await settlesWithin(next, 150)).toBe(true);
+    });
+
+    it('lets a request larger than the bucket through once it is full, and makes the next one repay it', async () => {
+        const bucket = new TokenBucket(1000);
+        expect(await settlesWithin(bucket.take(3000), 0)).toBe(true);
+        const next = bucket.take(1);
+        expect(await settlesWithin(next, 1900)).toBe(false);
+        expect(await settlesWithin(next, 200)).toBe(true);
+    });
+
+    it('holds at most one second of bytes after an idle period', async () => {
+        const bucket = new TokenBucket(1000);
+        await vi.advanceTimersByTimeAsync(10000);
+        expect(await settlesWithin(bucket.take(1000), 0)).toBe(true);
+        expect(await settlesWithin(bucket.take(1000), 900)).toBe(false);
+    });
+
+    it('releases a waiting caller shortly after the limit is lifted', async () => {
+        const bucket = new TokenBucket(1000);
+        await bucket.take(1000);
+        const waiting = bucket.take(1000);
+        expect(await settlesWithin(waiting, 100)).toBe(false);
+        bucket.setLimit(0);
+        expect(await settlesWithin(waiting, 250)).toBe(true);
+    });
+
+    it('drops saved-up bytes above a lowered limit', async () => {
+        const bucket = new TokenBucket(10000);
+        bucket.setLimit(1000);
+        expect(bucket.limit).toBe(1000);
+        expect(await settlesWithin(bucket.take(1000), 0)).toBe(true);
+        expect(await settlesWithin(bucket.take(1000), 900)).toBe(false);
+    });
+});
@@ -0,0 +1,58 @@
+// How long a waiting sender sleeps at most before checking again, so a new limit applies promptly.
+const MAX_WAIT_MS = 250;
+
+/**
+ * Caps throughput at a user-set number of bytes per second.
+ * The bucket holds at most one second's worth of bytes, so a burst after an idle
+ * moment never exceeds the limit by more than that. A limit of 0 means unlimited.
+ */
+export class TokenBucket {
+    private bytesPerSecond: number;
+    private tokens: number;
+    private lastRefill: number;
+
+    constructor(bytesPerSecond = 0) {
+        this.bytesPerSecond = Math.max(0, bytesPerSecond);
+        this.tokens = this.bytesPerSecond;
+        this.lastRefill = performance.now();
+    }
+
+    public get limit(): number {
+        return this.bytesPerSecond;
+    }
+
+    /**
+     * Changes the limit. Callers already waiting pick it up within a quarter of a second.
+     * @param bytesPerSecond The new limit, or 0 to lift it.
+     */
+    public setLimit(bytesPerSecond: number) {
+        this.refill();
+        this.bytesPerSecond = Math.max(0, bytesPerSecond);
+        this.tokens = Math.min(this.tokens, this.bytesPerSecond);
+    }
+
+    /**
+     * Waits until the bytes may be sent without going over the limit, then takes them from the bucket.
+     * A request larger than the bucket is let through once it is full and leaves it in debt.
+     * @param bytes The number of bytes about to be sent.
+     */
+    public async take(bytes: number): Promise<void> {
+        while (this.bytesPerSecond > 0) {
+            this.refill();
+            const needed = Math.min(bytes, this.bytesPerSecond);
+            if (this.tokens >= needed) {
+                this.tokens -= bytes;
+                return;
+            }
+            const waitMs = ((needed - this.tokens) / this.bytesPerSecond) * 1000;
+            await new Promise(resolve => setTimeout(resolve, Math.min(waitMs, MAX_WAIT_MS)));
+        }
+    }
+
+    private refill() {
+        const now = performance.now();
+        const elapsed = (now - this.lastRefill) / 1000;
+        this.lastRefill = now;
+        this.tokens = Math.min(this.bytesPerSecond, this.tokens + elapsed * this.bytesPerSecond);
+    }
+}
@@ -0,0 +1,262 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { FileTransferManager, ReceivedFile, getFileId } from './webrtcService';
+import { WebRTCConnectionManager } from './WebRTCConnectionManager';
+import { EncryptionPipeline } from './EncryptionPipeline';
+import { FrameType, decodeFrame } from './frameCodec';
+import { getResumableFile, getStoredChunkIndexes } from '../utils/transferResumeDB';
+
+// IndexedDB does not exist here; resumable state lives in memory for the whole test file instead.
+vi.mock('../utils/transferResumeDB', () => {
+    const records = new Map<string, unknown>();
+    const chunks = new Map<string, Map<number, unknown>>();
+    return {
+        saveResumableFile: async (record: { fileId: string }) => { records.set(record.fileId, record); },
+        getResumableFile: async (fileId: string) => records.get(fileId) ?? null,
+        saveChunk: async (fileId: string, chunkIndex: number, chunk: unknown) => {
+            if (!chunks.has(fileId)) chunks.set(fileId, new Map());
+            chunks.get(fileId)!.set(chunkIndex, chunk);
+        },
+        getStoredChunkIndexes: async (fileId: string) => [...(chunks.get(fileId)?.keys() ?? [])],
+        getChunk: async (fileId: string, chunkIndex: number) => chunks.get(fileId)?.get(chunkIndex) ?? null,
+        clearResumableFile: async (fileId: string) => {
+            records.delete(fileId);
+            chunks.delete(fileId);
+        },
+    };
+});
+
+// Files are split into 64 KB chunks and 32 KB frames until the rate controller has stats to go on.
+const CHUNK_SIZE = 64 * 1024;
+const FRAME_SIZE = 32 * 1024;
+
+// Decides whether a frame reaches the other side. Returning false drops it.
+type FrameFilter = (frame: ArrayBuffer, label: string) => boolean;
+
+// One end of an in-memory data channel. Frames arrive on the other end in order, one task later.
+class FakeDataChannel {
+    public readyState: RTCDataChannelState = 'open';
+    public binaryType: BinaryType = 'blob';
+    public bufferedAmount = 0;
+    public bufferedAmountLowThreshold = 0;
+    public onmessage: ((event: MessageEvent) => void) | null = null;
+    public onopen: (() => void) | null = null;
+    public onclose: (() => void) | null = null;
+    public peer: FakeDataChannel | null = null;
+    // Every frame this end sent, delivered or not.
+    public sent: ArrayBuffer[] = [];
+
+    constructor(public label: string, private filter: () => FrameFilter) {}
+
+    send(frame: ArrayBuffer) {
+        this.sent.push(frame);
+        if (!this.filter()(frame, this.label)) return;
+        setTimeout(() => this.peer?.onmessage?.({ data: frame } as MessageEvent), 0);
+    }
+
+    addEventListener() {}
+    removeEventListener() {}
+}
+
+function channelPair(label: string, filter: () => FrameFilter): [FakeDataChannel, FakeDataChannel] {
+    const local = new FakeDataChannel(label, filter);
+    const remote = new FakeDataChannel(label, filter);
+    local.peer = remote;
+    remote.peer = local;
+    return [local, remote];
+}
+
+const createCallbacks = () => ({
+    onStatusUpdate: vi.fn(),
+    onFileProgress: vi.fn(),
+    onFileReceived: vi.fn<(file: ReceivedFile) => void>(),
+    onDirectoriesReceived: vi.fn(),
+    onManifestReceived: vi.fn(),
+    onFilesDeclined: vi.fn(),
+    onFileCancelled: vi.fn(),
+    onQueueChanged: vi.fn(),
+    onFileSent: vi.fn(),
+    onReceiptReceived: vi.fn(),
+    onRateUpdate: vi.fn(),
+    onPeerPauseChanged: vi.fn(),
+    onPeerRateLimit: vi.fn(),
+});
+
+// Runs the commit-then-reveal key exchange between two pipelines.
+async function connectPipelines(alice: EncryptionPipeline, bob: EncryptionPipeline) {
+    alice.setRemoteKeyCommitment(await bob.getKeyCommitment());
+    bob.setRemoteKeyCommitment(await alice.getKeyCommitment());
+    const [aliceOffer, bobOffer] = await Promise.all([alice.initialize(), bob.initialize()]);
+    await Promise.all([alice.deriveSharedSecret(bobOffer), bob.deriveSharedSecret(aliceOffer)]);
+}
+
+type Session = {
+    sender: FileTransferManager;
+    receiver: FileTransferManager;
+    senderCallbacks: ReturnType<typeof createCallbacks>;
+    receiverCallbacks: ReturnType<typeof createCallbacks>;
+    // The sender's ends of the file streams it opened.
+    senderStreams: FakeDataChannel[];
+    setFilter: (filter: FrameFilter) => void;
+};
+
+// Connects a sender and a receiver that accepts everything it is offered.
+async function createSession(): Promise<Session> {
+    let filter: FrameFilter = () => true;
+    const currentFilter = () => filter;
+    const senderCallbacks = createCallbacks();
+    const receiverCallbacks = createCallbacks();
+    const senderStreams: FakeDataChannel[] = [];
+    let receiver: FileTransferManager;
+    const senderRtc = {
+        createDataChannel: (label: string) => {
+            const [local, remote] = channelPair(label, currentFilter);
+            senderStreams.push(local);
+            receiver.setDataChannel(remote as unknown as RTCDataChannel);
+            return local;
+        },
+        getTransportStats: async () => null,
+        disconnect: () => {},
+    };
+    const receiverRtc = { createDataChannel: () => { throw new Error('The receiver opens no streams.'); }, getTransportStats: async () => null, disconnect: () => {} };
+    const sender = new FileTransferManager(senderRtc as unknown as WebRTCConnectionManager, senderCallbacks);
+    receiver = new FileTransferManager(receiverRtc as unknown as WebRTCConnectionManager, receiverCallbacks);
+    receiverCallbacks.onManifestReceived.mockImplementation(manifest =>
+        receiver.respondToManifest(manifest.batchId, manifest.files.map((file: { fileId: string }) => file.fileId)));
+
+    const senderPipeline = new EncryptionPipeline('room-1');
+    const receiverPipeline = new EncryptionPipeline('room-1');
+    await connectPipelines(senderPipeline, receiverPipeline);
+    sender.setEncryptionPipeline(senderPipeline);
+    receiver.setEncryptionPipeline(receiverPipeline);
+
+    const [senderControl, receiverControl] = channelPair('fileTransfer', currentFilter);
+    sender.setDataChannel(senderControl as unknown as RTCDataChannel);
+    receiver.setDataChannel(receiverControl as unknown as RTCDataChannel);
+    sender.confirmPeerVerified();
+    return { sender, receiver, senderCallbacks, receiverCallbacks, senderStreams, setFilter: next => { filter = next; } };
+}
+
+// A file of `size` bytes whose every byte depends on its position.
+function createFile(name: string, size: number): File {
+    const bytes = new Uint8Array(size);
+    for (let i = 0; i < size; i++) bytes[i] = (i * 31 + (i >> 8)) & 0xff;
+    return new File([bytes], name, { lastModified: 1700000000000 });
+}
+
+// The chunk index and offset of every chunk frame sent on the given streams.
+const sentChunkFrames = (streams: FakeDataChannel[]) => streams.flatMap(stream => stream.sent)
+    .map(frame => decodeFrame(frame))
+    .flatMap(frame => frame.type === FrameType.Chunk ? [{ chunkIndex: frame.chunk.chunkIndex, offset: frame.chunk.offset }] : []);
+
+async function receivedBytes(callbacks: ReturnType<typeof createCallbacks>): Promise<Uint8Array> {
+    await vi.waitFor(() => expect(callbacks.onFileReceived).toHaveBeenCalledTimes(1), { timeout: 5000 });
+    return new Uint8Array(await callbacks.onFileReceived.mock.calls[0][0].data.arrayBuffer());
+}
+
+describe('FileTransferManager', () => {
+    const sessions: Session[] = [];
+    const startSession = async () => {
+        const session = await createSession();
+        sessions.push(session);
+        return session;
+    };
+
+    beforeAll(() => {
+        // Crypto and timers are reached through `window`, as in the browser. Without `navigator.storage`,
+        // received files are kept in memory.
+        vi.stubGlobal('window', globalThis);
+        vi.stubGlobal('navigator', {});
+        // Dropped frames and status changes are logged; the assertions check the results instead.
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        vi.spyOn(console, 'info').mockImplementation(() => {});
+    });
+    afterEach(async () => {
+        await Promise.all(sessions.splice(0).flatMap(({ sender, receiver }) => [sender.close(), receiver.close()]));
+    });
+    afterAll(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('sends a file in chunks split into frames, and the receiver rebuilds it exactly', async () => {
+        const { sender, senderCallbacks, receiverCallbacks, senderStreams } = await startSession();
+        const file = createFile('data.bin', 2 * CHUNK_SIZE + 1000);
+        sender.sendFiles([file]);
+
+        expect(await receivedBytes(receiverCallbacks)).toEqual(new Uint8Array(await file.arrayBuffer()));
+        await vi.waitFor(() => expect(senderCallbacks.onFileSent).toHaveBeenCalledWith(file));
+        expect(sentChunkFrames(senderStreams)).toEqual([
+            { chunkIndex: 0, offset: 0 }, { chunkIndex: 0, offset: FRAME_SIZE },
+            { chunkIndex: 1, offset: 0 }, { chunkIndex: 1, offset: FRAME_SIZE },
+            { chunkIndex: 2, offset: 0 },
+        ]);
+        const received = receiverCallbacks.onFileReceived.mock.calls[0][0];
+        expect(received.manifest.chunks).toHaveLength(3);
+        expect(received.path).toBe('data.bin');
+    });
+
+    it('sends a chunk again when one of its frames was lost', async () => {
+        const { sender, setFilter, receiverCallbacks, senderStreams } = await startSession();
+        const file = createFile('lossy.bin', 3 * CHUNK_SIZE);
+        let dropped = false;
+        setFilter(frame => {
+            const decoded = decodeFrame(frame);
+            if (dropped || decoded.type !== FrameType.Chunk || decoded.chunk.chunkIndex !== 1 || decoded.chunk.offset !== FRAME_SIZE) return true;
+            dropped = true;
+            return false;
+        });
+        sender.sendFiles([file]);
+
+        expect(await receivedBytes(receiverCallbacks)).toEqual(new Uint8Array(await file.arrayBuffer()));
+        const chunk1Frames = sentChunkFrames(senderStreams).filter(frame => frame.chunkIndex === 1);
+        // The whole chunk goes out again, not just the missing frame.
+        expect(chunk1Frames.filter(frame => frame.offset === 0).length).toBeGreaterThanOrEqual(2);
+    });
+
+    it('accepts a chunk that arrives twice without writing it twice', async () => {
+        const { sender, setFilter, receiverCallbacks, senderStreams } = await startSession();
+        const file = createFile('twice.bin', CHUNK_SIZE + 10);
+        let replayed = false;
+        setFilter((frame, label) => {
+            const decoded = decodeFrame(frame);
+            // Delivers the last chunk a second time.
+            if (!replayed && decoded.type === FrameType.Chunk && decoded.chunk.chunkIndex === 1) {
+                replayed = true;
+                const stream = senderStreams.find(candidate => candidate.label === label)!;
+                setTimeout(() => stream.peer?.onmessage?.({ data: frame } as MessageEvent), 0);
+            }
+            return true;
+        });
+        sender.sendFiles([file]);
+
+        expect(await receivedBytes(receiverCallbacks)).toEqual(new Uint8Array(await file.arrayBuffer()));
+        expect(receiverCallbacks.onStatusUpdate).not.toHaveBeenCalledWith(expect.objectContaining({ type: 'error' }));
+    });
+
+    it('resumes from the chunks an earlier session left behind', async () => {
+        const file = createFile('resume.bin', 3 * CHUNK_SIZE - 5);
+        const fileId = getFileId(file);
+
+        // The first session breaks down once the third chunk is on its way.
+        const first = await startSession();
+        let cut = false;
+        first.setFilter((frame, label) => {
+            const decoded = decodeFrame(frame);
+            if (decoded.type === FrameType.Chunk && decoded.chunk.chunkIndex === 2) cut = true;
+            return !cut || label === 'fileTransfer';
+        });
+        first.sender.sendFiles([file]);
+        await vi.waitFor(async () => expect((await getStoredChunkIndexes(fileId)).sort()).toEqual([0, 1]), { timeout: 5000 });
+        await Promise.all([first.sender.close(), first.receiver.close()]);
+        expect(first.receiverCallbacks.onFileReceived).not.toHaveBeenCalled();
+
+        const second = await startSession();
+        second.sender.sendFiles([file]);
+        expect(await receivedBytes(second.receiverCallbacks)).toEqual(new Uint8Array(await file.arrayBuffer()));
+        // Only the chunk the receiver was missing crossed the connection again.
+        expect(sentChunkFrames(second.senderStreams).map(frame => frame.chunkIndex)).toEqual([2, 2]);
+        expect(second.senderCallbacks.onStatusUpdate).toHaveBeenCalledWith(expect.objectContaining({ message: expect.stringMatching(/peer already has 2 of 3 chunks/) }));
+        // A finished file leaves nothing behind for resumption.
+        await vi.waitFor(async () => expect(await getResumableFile(fileId)).toBeNull());
+    });
+});
@@ -1,49 +1,111 @@
 import { WebRTCConnectionManager } from './WebRTCConnectionManager';
 import { calculateSHA256 } from './cryptoService';
 import { EncryptionPipeline } from './EncryptionPipeline';
+import { createReceiveSink, createSubdirectories, ReceiveSink } from './receiveSink';
+import { SendScheduler } from './sendScheduler';
+import { RateController, RateDecision, MIN_CHUNK_SIZE, MAX_CHUNK_SIZE } from './rateController';
+import { TokenBucket } from './tokenBucket';
+import { getRelativePath, splitRelativePath } from '../utils/relativePaths';
+import { ChunkAck, SendWindow, encodeChunkAck, MAX_ACK_SPAN, STALL_TIMEOUT } from './chunkAcks';
+import { encodeControlFrameHeader, encodeChunkFrameHeader, encodeFrame, decodeFrame, DecodedFrame, ChunkFrameHeader, FrameType, MAX_FRAME_FILE_ID } from './frameCodec';
+import { MerkleTree, FileManifest, hashFileChunks, verifyMerkleProof, createFileManifest } from './merkle';
+import { TransferReceipt, isTransferReceipt } from './receiptService';
+import { saveResumableFile, getResumableFile, saveChunk, getChunk, getStoredChunkIndexes, clearResumableFile } from '../utils/transferResumeDB';
 
-// Constants for backpressure mechanism
-const HIGH_WATER_MARK = 15 * 1024 * 1024; // 15 MB buffer
-const LOW_WATER_MARK = 8 * 1024 * 1024; // 8 MB buffer
+// How often connection stats are sampled and stalled receivers are looked for while files are being sent.
+const MONITOR_INTERVAL = 1000; // 1 second
 
-// Constants for adaptive chunk sizing
-const MIN_CHUNK_SIZE = 16 * 1024;   // 16 KB
-const DEFAULT_CHUNK_SIZE = 64 * 1024; // 64 KB
-const MAX_CHUNK_SIZE = 256 * 1024; // 256 KB
+// The receiver acknowledges after this many chunks, or this long after the first unacknowledged one.
+const ACK_EVERY_CHUNKS = 16;
+const ACK_DELAY = 200; // ms
+
+// Constants for parallel sending. Each file stream gets its own data channel;
+// the channel handed to `setDataChannel` by the page carries control messages only.
+export const DEFAULT_PARALLEL_STREAMS = 3;
+export const MAX_PARALLEL_STREAMS = 8;
+const STREAM_CHANNEL_PREFIX = 'file-stream-';
+
+// How long the sender waits for the receiver to accept or decline offered files.
+const MANIFEST_RESPONSE_TIMEOUT = 5 * 60 * 1000; // 5 minutes
+// How long the sender waits for the receiver to say which chunks of a file it already holds.
+const RESUME_STATE_TIMEOUT = 30 * 1000; // 30 seconds
 
 // Type definitions for the file transfer protocol
 type FileMetadata = {
     fileId: string;
     name: string;
+    // Where the file sits in the folder it was sent from, ending in its name. Just the name for a loose file.
+    path: string;
     type: string;
     size: number;
+    // The file's modification time on the sender, in milliseconds since the epoch.
+    lastModified: number;
     totalChunks: number;
+    // Chunk i covers bytes [i * chunkSize, (i + 1) * chunkSize) of the file. The rate controller
+    // picks the size when the file starts; the grid is then fixed, as the Merkle tree and resumption rely on it.
+    chunkSize: number;
     fullFileChecksum: string;
+    // Root of the Merkle tree over the chunk digests; every chunk arrives with a proof against it.
+    merkleRoot: string;
+    // Compact number identifying the file in chunk frame headers for this session only.
+    frameFileId: number;
+};
+// One file in a transfer manifest: what the receiver sees before deciding whether to accept it.
+export type ManifestFile = Pick<FileMetadata, 'fileId' | 'name' | 'path' | 'type' | 'size' | 'lastModified'>;
+// Everything the sender is about to send in one batch, announced before any file starts streaming.
+export type TransferManifest = {
+    batchId: string;
+    files: ManifestFile[];
+    // Folders with no files in them.
+    directories: string[];
 };
 type ChunkMetadata = {
     fileId: string;
     chunkIndex: number;
     size: number;
     checksum: string;
+    proof: string[];
+};
+// A chunk being reassembled from its frames, which arrive in order on the file's stream.
+type PartialChunk = {
+    data: Uint8Array;
+    received: number;
+    checksum: string;
+    proof: string[];
 };
 type ProtocolMessage = 
     | { type: 'file-metadata', payload: FileMetadata }
-    | { type: 'chunk-metadata', payload: ChunkMetadata }
+    | { type: 'transfer-manifest', payload: TransferManifest } // Sender -> Receiver
+    | { type: 'manifest-response', payload: { batchId: string; acceptedFileIds: string[] } } // Receiver -> Sender
+    | { type: 'cancel-file', payload: { fileId: string } } // Either direction
+    | { type: 'prioritize-file', payload: { fileId: string } } // Receiver -> Sender
+    | { type: 'queue-order', payload: { fileIds: string[] } } // Sender -> Receiver, the files still waiting to start
+    | { type: 'pause-state', payload: { paused: boolean } } // Either direction
+    | { type: 'rate-limit', payload: { bytesPerSecond: number } } // Receiver -> Sender, the receiver's download cap; 0 lifts it
     | { type: 'transfer-complete', payload: { fileId: string } } // Sender -> Receiver
     | { type: 'request-chunks', payload: { fileId: string; indexes: number[] } } // Receiver -> Sender
-    | { type: 'file-received-ack', payload: { fileId: string } };
+    | { type: 'resume-state', payload: { fileId: string; receivedIndexes: number[] } } // Receiver -> Sender
+    | { type: 'chunk-ack', payload: ChunkAck & { fileId: string } } // Receiver -> Sender
+    | { type: 'file-received-ack', payload: { fileId: string } }
+    | { type: 'transfer-receipt', payload: TransferReceipt }; // Receiver -> Sender
+
+// The ID must be stable across sessions so the receiver can match it against persisted chunks.
+// It includes the path, as folders often hold several files of the same name.
+export const getFileId = (file: File): string => `${getRelativePath(file)}-${file.size}-${file.lastModified}`;
 
 // Callbacks for the UI to subscribe to
 export type FileProgress = {
     fileId: string;
     fileName: string;
+    // Relative path of the file in the sender's folder; unlike the name, unique within a transfer.
+    filePath: string;
     fileSize: number;
     fileType: string;
     progress: number;
     transferredChunks: number;
     totalChunks: number;
 };
-export type ReceivedFile = { name: string; type: string; size: number; url: string; };
+export type ReceivedFile = { name: string; path: string; type: string; size: number; lastModified: number; data: Blob; url: string; manifest: FileManifest; };
 export type TransferStatus = 
     | { type: 'info' | 'success'; message: string; }
     | { type: 'error'; message: string; code?: 'ENCRYPTION_FAILED' | 'DECRYPTION_FAILED' | 'CHECKSUM_MISMATCH'; context?: { fileName?: string; fileId?: string; chunkIndex?: number }};
@@ -53,7 +115,34 @@ type FileTransferManagerCallbacks = {
     onStatusUpdate: (status: TransferStatus) => void;
     onFileProgress: (progress: FileProgress) => void;
     onFileReceived: (file: ReceivedFile) => void;
+    onDirectoriesReceived: (paths: string[]) => void;
+    onManifestReceived: (manifest: TransferManifest) => void;
+    onFilesDeclined: (files: File[]) => void;
+    // `byPeer` is true when the other side cancelled the file.
+    onFileCancelled: (fileId: string, byPeer: boolean) => void;
+    // The files still waiting to start, in order. On the receiving side, as last reported by the sender.
+    onQueueChanged: (fileIds: string[]) => void;
     onFileSent: (file: File) => void;
+    onReceiptReceived: (receipt: TransferReceipt) => void;
+    onRateUpdate: (decision: RateDecision) => void;
+    onPeerPauseChanged: (paused: boolean) => void;
+    // The download cap the receiver asked for, in bytes per second; 0 means none.
+    onPeerRateLimit: (bytesPerSecond: number) => void;
+};
+
+// A reply the other peer owes to a message this side sent
+type PendingReply<T> = {
+    resolve: (value: T) => void;
+    reject: (error: Error) => void;
+    timer: number;
+};
+
+// A data channel: either the control channel or one dedicated to streaming one file at a time
+type ChannelState = {
+    channel: RTCDataChannel;
+    // Encryption and decryption are asynchronous; these chains keep frames in channel order.
+    incoming: Promise<void>;
+    outgoing: Promise<void>;
 };
 
 // State for sending a file
@@ -61,29 +150,78 @@ type SendingFileState = {
     file: File;
     metadata: FileMetadata;
     sentChunksCount: number;
+    // Chunks the receiver already holds from an earlier, interrupted session.
+    skipIndexes: Set<number>;
+    stream: ChannelState;
+    // Built while the file is hashed, before its metadata is sent.
+    merkleTree: MerkleTree | null;
+    // Chunks sent but not yet acknowledged. Created once the receiver reports its resume state.
+    window: SendWindow | null;
+    // Set while the receiver has stopped acknowledging, so recovery can be reported once.
+    stalled: boolean;
 };
 
 // State for receiving a file
 type ReceivingFileState = {
     metadata: FileMetadata;
-    chunks: (ArrayBuffer | null)[];
-    receivedChunksCount: number;
+    receivedIndexes: Set<number>;
+    // Verified chunks that arrived ahead of a gap. `null` means the bytes are persisted in IndexedDB.
+    pendingChunks: Map<number, ArrayBuffer | null>;
+    // Digest of every verified chunk, kept for the exported manifest.
+    chunkChecksums: string[];
+    nextChunkToWrite: number;
+    // Every chunk below this index has been received; acknowledgements start from here.
+    ackBase: number;
+    highestReceived: number;
+    chunksSinceAck: number;
+    ackTimer: number | null;
+    // Chunks whose frames are still arriving, by chunk index.
+    partialChunks: Map<number, PartialChunk>;
+    // Chunks still being verified and stored. The file is only checked for gaps once they settle.
+    chunkChecks: Set<Promise<void>>;
+    sink: ReceiveSink;
+    // Serializes sink writes, which must happen strictly in chunk order.
+    writeQueue: Promise<void>;
 };
 
 export class FileTransferManager {
     private webRTCManager: WebRTCConnectionManager;
-    private dataChannel: RTCDataChannel | null = null;
+    private controlChannel: ChannelState | null = null;
     private callbacks: FileTransferManagerCallbacks;
     private encryptionPipeline: EncryptionPipeline | null = null;
 
-    private filesToSend: File[] = [];
-    private sendingFileState: SendingFileState | null = null;
+    private scheduler = new SendScheduler(DEFAULT_PARALLEL_STREAMS);
+    private maxParallelStreams = DEFAULT_PARALLEL_STREAMS;
+    private sendingFiles: Map<string, SendingFileState> = new Map();
+    private streamChannels: Map<string, ChannelState> = new Map();
     private receivingFiles: Map<string, ReceivingFileState> = new Map();
-    private awaitingChunkDataFor: ChunkMetadata | null = null;
+    // Maps the compact ids in incoming chunk frame headers back to file ids.
+    private frameFileIds: Map<number, string> = new Map();
+    private nextFrameFileId = 1;
+    private pendingResumeStates: Map<string, PendingReply<number[]>> = new Map();
+    private pendingManifestResponses: Map<string, PendingReply<string[]>> = new Map();
+    // Receiver side: manifests waiting for the user's decision, and the files the user accepted.
+    private pendingManifests: Map<string, TransferManifest> = new Map();
+    private acceptedFileIds: Set<string> = new Set();
+    // The queue as last reported, so unchanged queues are not sent again.
+    private reportedQueue = '';
+    private saveDirectory: FileSystemDirectoryHandle | null = null;
+    private rateController = new RateController();
+    private monitorTimer: number | null = null;
+    // The chunk size each file was first announced with. Reusing it lets a receiver that rejoins resume.
+    private chunkSizes: Map<string, number> = new Map();
 
     private isPaused = false;
-    private chunkSize = DEFAULT_CHUNK_SIZE;
-    private consecutiveBufferWaits = 0;
+    private pausedByPeer = false;
+    // Caps the upload rate. The page shares one bucket between all peers; see `setUploadLimiter`.
+    private uploadLimiter = new TokenBucket();
+    // Caps the rate at which this peer is sent data, as the receiver asked.
+    private peerLimiter = new TokenBucket();
+    // The download cap this side asks the sender for.
+    private downloadLimit = 0;
+    // Set once the local user confirms the short authentication string matches the peer's.
+    private peerVerified = false;
+    private batchAwaitingVerification: { files: File[]; directories: string[] } | null = null;
 
     constructor(webRTCManager: WebRTCConnectionManager, callbacks: FileTransferManagerCallbacks) {
         this.webRTCManager = webRTCManager;
@@ -94,133 +232,509 @@ export class FileTransferManager {
         this.encryptionPipeline = pipeline;
     }
 
+    /**
+     * Sets a folder that received files are written into. Without one, files are
+     * streamed into the origin private file system (or memory, as a last resort).
+     */
+    public setSaveDirectory(directory: FileSystemDirectoryHandle | null) {
+        this.saveDirectory = directory;
+    }
+
+    /**
+     * Shares a record of the chunk sizes files were announced with. The page keeps one per
+     * peer across sessions, so a file resent after a reconnect keeps its original chunk grid.
+     */
+    public setChunkSizeMemory(chunkSizes: Map<string, number>) {
+        this.chunkSizes = chunkSizes;
+    }
+
+    /**
+     * Sets how many files may be streamed at once, each on its own data channel.
+     * Files already being sent are not interrupted when the number is lowered.
+     */
+    public setMaxParallelStreams(count: number) {
+        this.maxParallelStreams = Math.min(MAX_PARALLEL_STREAMS, Math.max(1, Math.floor(count)));
+        this.scheduler.setMaxStreams(this.maxParallelStreams);
+        this.fillStreams();
+    }
+
+    /**
+     * Shares the bucket that caps the upload rate. The page keeps one for all peers,
+     * so the cap applies to everything this device sends rather than to each receiver.
+     */
+    public setUploadLimiter(limiter: TokenBucket) {
+        this.uploadLimiter = limiter;
+    }
+
+    /**
+     * Asks the sender to send no faster than this. Sent again whenever the connection is re-established.
+     * @param bytesPerSecond The download cap, or 0 to lift it.
+     */
+    public setDownloadLimit(bytesPerSecond: number) {
+        this.downloadLimit = Math.max(0, bytesPerSecond);
+        this.sendMessage({ type: 'rate-limit', payload: { bytesPerSecond: this.downloadLimit } });
+    }
+
+    /**
+     * Attaches a data channel. The first channel is the control channel; channels
+     * opened by the peer for file streams are recognised by their label.
+     */
     public setDataChannel(dataChannel: RTCDataChannel) {
-        this.dataChannel = dataChannel;
-        this.dataChannel.binaryType = 'arraybuffer';
-        this.dataChannel.onmessage = this.handleDataChannelMessage.bind(this);
-        this.dataChannel.onopen = () => this.callbacks.onStatusUpdate({ type: 'info', message: 'Data channel is open.' });
-        this.dataChannel.onclose = () => this.callbacks.onStatusUpdate({ type: 'info', message: 'Data channel has closed.' });
-        this.dataChannel.bufferedAmountLowThreshold = LOW_WATER_MARK;
+        if (dataChannel.label.startsWith(STREAM_CHANNEL_PREFIX)) {
+            this.addStreamChannel(dataChannel);
+            return;
+        }
+        this.controlChannel = this.createChannelState(dataChannel);
+        dataChannel.onopen = () => this.callbacks.onStatusUpdate({ type: 'info', message: 'Data channel is open.' });
+        dataChannel.onclose = () => {
+            this.rejectPendingReplies('The connection closed before the peer answered.');
+            this.callbacks.onStatusUpdate({ type: 'info', message: 'Data channel has closed.' });
+        };
+        // A pause or download cap set before the connection was up applies from the start.
+        this.waitForChannelOpen(dataChannel)
+            .then(() => {
+                if (this.isPaused) this.sendMessage({ type: 'pause-state', payload: { paused: true } });
+                if (this.downloadLimit > 0) this.sendMessage({ type: 'rate-limit', payload: { bytesPerSecond: this.downloadLimit } });
+            })
+            .catch(() => {});
+    }
+
+    /**
+     * Stops all outgoing streams and discards partially written files. Chunks persisted for resumption are kept.
+     */
+    public async close() {
+        this.stopMonitoring();
+        this.rejectPendingReplies('The transfer was closed.');
+        this.scheduler.clear();
+        this.sendingFiles.clear();
+        const incomplete = [...this.receivingFiles.values()];
+        incomplete.forEach(fileState => { if (fileState.ackTimer !== null) clearTimeout(fileState.ackTimer); });
+        this.receivingFiles.clear();
+        this.frameFileIds.clear();
+        await Promise.all(incomplete.map(fileState => fileState.sink.abort()));
+    }
+
+    /**
+     * Records that the user compared the security code with the peer and it matched.
+     * Files queued by `sendFiles` before this point start streaming now.
+     */
+    public confirmPeerVerified() {
+        this.peerVerified = true;
+        if (this.batchAwaitingVerification) {
+            const { files, directories } = this.batchAwaitingVerification;
+            this.batchAwaitingVerification = null;
+            this.sendFiles(files, directories);
+        }
     }
 
+    /**
+     * Pauses sending on both sides. Either the sender or the receiver may pause;
+     * data flows again once neither has it paused.
+     */
     public pause() {
+        if (this.isPaused) return;
         this.isPaused = true;
+        this.sendMessage({ type: 'pause-state', payload: { paused: true } });
         this.callbacks.onStatusUpdate({ type: 'info', message: 'Transfer paused.' });
     }
 
     public resume() {
-        if (!this.sendingFileState || !this.isPaused) return;
+        if (!this.isPaused) return;
         this.isPaused = false;
-        this.callbacks.onStatusUpdate({ type: 'info', message: 'Transfer resumed.' });
+        // Time spent paused does not count towards a stall.
+        this.sendingFiles.forEach(fileState => fileState.window?.resetStallClock());
+        this.sendMessage({ type: 'pause-state', payload: { paused: false } });
+        this.callbacks.onStatusUpdate({ type: 'info', message: this.pausedByPeer ? 'Resumed on this side. The peer still has the transfer paused.' : 'Transfer resumed.' });
     }
 
-    public async sendFiles(files: File[]) {
+    /**
+     * Announces files to the receiver and queues the ones it accepts.
+     * @param files The files to send. Each keeps the relative path it was selected with.
+     * @param directories Relative paths of selected folders that contain no files, so the receiver can recreate them.
+     */
+    public async sendFiles(files: File[], directories: string[] = []) {
         if (!this.encryptionPipeline) {
             this.callbacks.onStatusUpdate({ type: 'error', message: 'Encryption is not set up. Cannot send files.' });
             return;
         }
         if (!files.length) return;
-        this.filesToSend = [...files];
-        if (!this.sendingFileState) {
-            this.startNextFileTransfer();
+        if (!this.peerVerified) {
+            this.batchAwaitingVerification = { files: [...files], directories: [...directories] };
+            this.callbacks.onStatusUpdate({ type: 'info', message: 'Confirm that the security code matches your peer\'s to start sending.' });
+            return;
         }
-    }
+        // Files that are already streaming keep their stream; everything else is announced and (re)queued.
+        const activeFiles = this.getActiveFiles();
+        const pendingFiles = files.filter(file => !activeFiles.includes(file));
+        if (pendingFiles.length === 0) return;
+        const batchId = crypto.randomUUID();
+        const response = this.waitForManifestResponse(batchId);
+        this.sendMessage({
+            type: 'transfer-manifest',
+            payload: {
+                batchId,
+                files: pendingFiles.map(file => ({
+                    fileId: getFileId(file),
+                    name: file.name,
+                    path: getRelativePath(file),
+                    type: file.type,
+                    size: file.size,
+                    lastModified: file.lastModified,
+                })),
+                directories,
+            },
+        });
+        this.callbacks.onStatusUpdate({ type: 'info', message: 'Waiting for the receiver to review the files...' });
 
-    private async startNextFileTransfer() {
-        if (this.filesToSend.length === 0) {
-            this.sendingFileState = null;
-            this.callbacks.onStatusUpdate({ type: 'success', message: 'All files have been sent successfully!' });
+        let acceptedFileIds: Set<string>;
+        try {
+            acceptedFileIds = new Set(await response);
+        } catch (error) {
+            this.callbacks.onStatusUpdate({ type: 'error', message: `The files were not sent: ${(error as Error).message}` });
+            return;
+        }
+        const acceptedFiles = pendingFiles.filter(file => acceptedFileIds.has(getFileId(file)));
+        const declinedFiles = pendingFiles.filter(file => !acceptedFileIds.has(getFileId(file)));
+        if (declinedFiles.length > 0) this.callbacks.onFilesDeclined(declinedFiles);
+        if (acceptedFiles.length === 0) {
+            this.callbacks.onStatusUpdate({ type: 'info', message: 'The receiver declined the transfer.' });
             return;
         }
+        if (declinedFiles.length > 0) {
+            this.callbacks.onStatusUpdate({ type: 'info', message: `The receiver accepted ${acceptedFiles.length} of ${pendingFiles.length} files.` });
+        }
+        this.scheduler.setQueue(acceptedFiles);
+        this.startMonitoring();
+        this.fillStreams();
+    }
+
+    private startMonitoring() {
+        if (this.monitorTimer !== null) return;
+        this.monitorTimer = window.setInterval(() => {
+            if (this.sendingFiles.size === 0 && this.scheduler.pendingCount === 0) {
+                this.stopMonitoring();
+                return;
+            }
+            this.checkForStalls();
+            this.sampleRate();
+        }, MONITOR_INTERVAL);
+    }
 
-        const file = this.filesToSend.shift()!;
-        // Reset chunk size for each new file
-        this.chunkSize = DEFAULT_CHUNK_SIZE;
-        const totalChunks = Math.ceil(file.size / this.chunkSize);
-        const fileId = `${file.name}-${file.size}-${Date.now()}`;
+    private stopMonitoring() {
+        if (this.monitorTimer === null) return;
+        clearInterval(this.monitorTimer);
+        this.monitorTimer = null;
+    }
+
+    private checkForStalls() {
+        if (this.isPaused || this.pausedByPeer) return;
+        this.sendingFiles.forEach(fileState => {
+            if (fileState.stalled || !fileState.window?.isStalled()) return;
+            fileState.stalled = true;
+            this.callbacks.onStatusUpdate({
+                type: 'info',
+                message: `The receiver has not acknowledged any part of ${fileState.file.name} for ${STALL_TIMEOUT / 1000} seconds. Waiting for it to catch up...`,
+            });
+        });
+    }
+
+    private async sampleRate() {
+        const stats = await this.webRTCManager.getTransportStats();
+        if (!stats) return;
+        this.callbacks.onRateUpdate(this.rateController.update(stats));
+    }
+
+    private getActiveFiles(): File[] {
+        return [...this.sendingFiles.values()].map(state => state.file);
+    }
+
+    // Starts queued files until every stream is busy or nothing is left to send.
+    private fillStreams() {
+        let file: File | null;
+        while ((file = this.scheduler.next(this.getActiveFiles()))) {
+            if (!this.startFileTransfer(file)) break;
+        }
+        this.reportQueue();
+    }
+
+    // Tells the UI and the receiver which files are still waiting, in order.
+    private reportQueue() {
+        const fileIds = this.scheduler.queuedFiles.map(getFileId);
+        const key = fileIds.join('\n');
+        if (key === this.reportedQueue) return;
+        this.reportedQueue = key;
+        this.callbacks.onQueueChanged(fileIds);
+        this.sendMessage({ type: 'queue-order', payload: { fileIds } });
+    }
+
+    /**
+     * Cancels a single file, whether it is queued, streaming or being received, and tells the peer.
+     * Partially received data for the file is discarded, including chunks kept for resumption.
+     * @param fileId The file to cancel.
+     */
+    public cancelFile(fileId: string) {
+        this.stopFile(fileId);
+        this.sendMessage({ type: 'cancel-file', payload: { fileId } });
+        this.callbacks.onFileCancelled(fileId, false);
+    }
+
+    /**
+     * Moves a queued file to the front of the sender's queue. On the receiving side, asks the sender to.
+     * @param fileId The file to send next.
+     */
+    public prioritizeFile(fileId: string) {
+        if (!this.moveQueuedFileToFront(fileId)) {
+            this.sendMessage({ type: 'prioritize-file', payload: { fileId } });
+        }
+    }
+
+    private handleCancelFile(fileId: string) {
+        if (typeof fileId !== 'string') return;
+        const name = this.stopFile(fileId);
+        this.callbacks.onFileCancelled(fileId, true);
+        if (name) this.callbacks.onStatusUpdate({ type: 'info', message: `The peer cancelled ${name}.` });
+    }
+
+    private handlePrioritizeFile(fileId: string) {
+        // Only a file that was offered to this receiver and is still waiting for a stream can be moved.
+        if (typeof fileId !== 'string' || !this.moveQueuedFileToFront(fileId)) {
+            console.warn('Ignoring a request to prioritize a file that is not queued for this peer.');
+        }
+    }
 
+    private moveQueuedFileToFront(fileId: string): boolean {
+        const file = this.scheduler.queuedFiles.find(queued => getFileId(queued) === fileId);
+        if (!file) return false;
+        this.scheduler.moveToFront(file);
+        this.reportQueue();
+        return true;
+    }
+
+    // Drops whatever this side holds for the file. Returns the file's name if it was queued, sending or receiving.
+    private stopFile(fileId: string): string | null {
+        let name: string | null = null;
+        const queuedFile = this.scheduler.queuedFiles.find(queued => getFileId(queued) === fileId);
+        if (queuedFile) {
+            this.scheduler.remove(queuedFile);
+            name = queuedFile.name;
+        }
+
+        const sendingState = this.sendingFiles.get(fileId);
+        if (sendingState) {
+            // The streaming loop notices on its next chunk and stops; a file still waiting for the
+            // receiver's resume state is released here.
+            this.sendingFiles.delete(fileId);
+            this.handleResumeState(fileId, []);
+            name = sendingState.metadata.name;
+        }
+
+        const receivingState = this.receivingFiles.get(fileId);
+        if (receivingState) {
+            this.receivingFiles.delete(fileId);
+            this.frameFileIds.delete(receivingState.metadata.frameFileId);
+            if (receivingState.ackTimer !== null) clearTimeout(receivingState.ackTimer);
+            // Nothing more is written; the sink is discarded once the write in progress settles.
+            receivingState.pendingChunks.clear();
+            receivingState.writeQueue.then(() => receivingState.sink.abort());
+            clearResumableFile(fileId).catch(error => console.error('Failed to clear resumable state:', error));
+            name = receivingState.metadata.name;
+        }
+        this.acceptedFileIds.delete(fileId);
+
+        // A cancelled stream is free for the next file.
+        this.fillStreams();
+        return name;
+    }
+
+    // Claims a stream for the file synchronously, then prepares and streams it in the background.
+    private startFileTransfer(file: File): boolean {
+        let stream: ChannelState;
         try {
-            this.sendingFileState = {
-                file,
-                metadata: {
-                    fileId,
-                    name: file.name,
-                    type: file.type,
-                    size: file.size,
-                    totalChunks,
-                    fullFileChecksum: await calculateSHA256(file),
-                },
-                sentChunksCount: 0,
-            };
-    
-            this.sendMessage({ type: 'file-metadata', payload: this.sendingFileState.metadata });
+            stream = this.acquireStreamChannel();
+        } catch (error) {
+            this.scheduler.clear();
+            this.callbacks.onStatusUpdate({ type: 'error', message: `Could not open a data channel for ${file.name}: ${(error as Error).message}` });
+            return false;
+        }
+
+        const path = getRelativePath(file);
+        const fileId = getFileId(file);
+        const chunkSize = this.chunkSizes.get(fileId) ?? this.rateController.decision.chunkSize;
+        this.chunkSizes.set(fileId, chunkSize);
+        const fileState: SendingFileState = {
+            file,
+            metadata: {
+                fileId,
+                name: file.name,
+                path,
+                type: file.type,
+                size: file.size,
+                lastModified: file.lastModified,
+                totalChunks: Math.ceil(file.size / chunkSize),
+                chunkSize,
+                fullFileChecksum: '',
+                merkleRoot: '',
+                frameFileId: this.nextFrameFileId++,
+            },
+            sentChunksCount: 0,
+            skipIndexes: new Set(),
+            stream,
+            merkleTree: null,
+            window: null,
+            stalled: false,
+        };
+        this.sendingFiles.set(fileId, fileState);
+        this.prepareFileTransfer(fileState); // Fire-and-forget async method
+        return true;
+    }
+
+    private async prepareFileTransfer(fileState: SendingFileState) {
+        const { file, metadata, stream } = fileState;
+        const { fileId, totalChunks } = metadata;
+
+        try {
+            // Large files take a while to hash; the file is streamed, so memory use stays flat.
+            this.callbacks.onStatusUpdate({ type: 'info', message: `Computing checksum for ${file.name}...` });
+            const { checksum, chunkChecksums } = await hashFileChunks(file, metadata.chunkSize);
+            metadata.fullFileChecksum = checksum;
+            fileState.merkleTree = MerkleTree.fromChunkChecksums(chunkChecksums);
+            metadata.merkleRoot = fileState.merkleTree.root;
+            await this.waitForChannelOpen(stream.channel);
+
+            const resumeState = this.waitForResumeState(fileId);
+            this.sendMessage({ type: 'file-metadata', payload: metadata }, stream);
             this.callbacks.onStatusUpdate({ type: 'info', message: `Sending metadata for ${file.name}...` });
-            this.streamFile(); // Fire-and-forget async method
+
+            // The receiver answers every file-metadata with the chunks it already holds (usually none).
+            const receivedIndexes = await resumeState;
+            if (this.sendingFiles.get(fileId) !== fileState) return;
+            fileState.skipIndexes = new Set(receivedIndexes);
+            fileState.sentChunksCount = fileState.skipIndexes.size;
+            fileState.window = new SendWindow(metadata.chunkSize);
+            if (receivedIndexes.length > 0) {
+                this.callbacks.onStatusUpdate({ type: 'info', message: `Resuming ${file.name}: peer already has ${receivedIndexes.length} of ${totalChunks} chunks.` });
+            }
+            await this.streamFile(fileState);
         } catch (error) {
+            // A file that was cancelled or closed meanwhile has nothing left to report.
+            if (this.sendingFiles.get(fileId) !== fileState) return;
             this.callbacks.onStatusUpdate({ type: 'error', message: `Critical error preparing ${file.name}: ${(error as Error).message}. Transfer of this file has been cancelled.` });
-            this.sendingFileState = null;
-            // Attempt to transfer the next file in the queue
-            this.startNextFileTransfer();
+            this.sendingFiles.delete(fileId);
+            // Let the stream pick up the next file in the queue
+            this.fillStreams();
         }
     }
 
-    private async streamFile() {
-        if (!this.sendingFileState || !this.dataChannel || !this.encryptionPipeline) return;
+    // Returns an idle stream channel, opening a new one while fewer than the configured number exist.
+    private acquireStreamChannel(): ChannelState {
+        const busyStreams = new Set([...this.sendingFiles.values()].map(state => state.stream));
+        const idleStream = [...this.streamChannels.values()].find(stream => !busyStreams.has(stream));
+        if (idleStream) return idleStream;
+
+        let index = 0;
+        while (this.streamChannels.has(`${STREAM_CHANNEL_PREFIX}${index}`)) index++;
+        return this.addStreamChannel(this.webRTCManager.createDataChannel(`${STREAM_CHANNEL_PREFIX}${index}`));
+    }
+
+    private addStreamChannel(channel: RTCDataChannel): ChannelState {
+        const stream = this.createChannelState(channel);
+        channel.onclose = () => this.streamChannels.delete(channel.label);
+        this.streamChannels.set(channel.label, stream);
+        return stream;
+    }
+
+    private createChannelState(channel: RTCDataChannel): ChannelState {
+        const state: ChannelState = { channel, incoming: Promise.resolve(), outgoing: Promise.resolve() };
+        channel.binaryType = 'arraybuffer';
+        channel.onmessage = (event) => this.handleDataChannelMessage(event, state);
+        return state;
+    }
+
+    private waitForChannelOpen(channel: RTCDataChannel): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (channel.readyState === 'open') {
+                resolve();
+                return;
+            }
+            channel.addEventListener('open', () => resolve(), { once: true });
+            channel.addEventListener('close', () => reject(new Error('The data channel closed before it opened.')), { once: true });
+        });
+    }
+
+    private async streamFile(fileState: SendingFileState) {
+        if (!this.encryptionPipeline) return;
+
+        const { metadata, skipIndexes, stream } = fileState;
+        const { fileId, name, totalChunks } = metadata;
 
-        const { file, metadata } = this.sendingFileState;
-        const { fileId, name } = metadata;
-        const totalChunks = Math.ceil(file.size / this.chunkSize);
-        this.sendingFileState.metadata.totalChunks = totalChunks;
+        for (let i = 0; i < totalChunks; i++) {
+            if (skipIndexes.has(i)) continue;
 
-        for (let i = this.sendingFileState.sentChunksCount; i < totalChunks; i++) {
-            while (this.isPaused) {
-                await new Promise(resolve => setTimeout(resolve, 200));
+            // Bound the unacknowledged data, so a receiver that falls behind is not buried under chunks.
+            while (fileState.window && !fileState.window.hasRoom() && this.sendingFiles.get(fileId) === fileState) {
+                await fileState.window.waitForRoom(MONITOR_INTERVAL);
             }
 
-            if (!this.sendingFileState || this.sendingFileState.metadata.fileId !== fileId) {
+            if (this.sendingFiles.get(fileId) !== fileState) {
                 this.callbacks.onStatusUpdate({ type: 'info', message: `Transfer of ${name} was cancelled.` });
                 return;
             }
 
-            if (this.dataChannel.bufferedAmount > HIGH_WATER_MARK) {
-                await this.waitForBufferToClear();
-                this.consecutiveBufferWaits++;
-                if (this.consecutiveBufferWaits > 2) {
-                    this.chunkSize = Math.max(MIN_CHUNK_SIZE, this.chunkSize / 2);
-                    this.consecutiveBufferWaits = 0;
-                }
-            } else {
-                this.consecutiveBufferWaits = 0;
-                 if (this.dataChannel.bufferedAmount < LOW_WATER_MARK / 2) {
-                    this.chunkSize = Math.min(MAX_CHUNK_SIZE, Math.floor(this.chunkSize * 1.1));
-                }
-            }
-            
-            await this.sendChunk(i, totalChunks);
+            if (!await this.sendChunkWhenAllowed(fileState, i)) return;
         }
         
-        // After sending all chunks, notify the receiver
-        this.sendMessage({ type: 'transfer-complete', payload: { fileId } });
+        // After sending all chunks, notify the receiver on the same channel so it arrives after them
+        this.sendMessage({ type: 'transfer-complete', payload: { fileId } }, stream);
     }
 
     private async resendChunks(fileId: string, indexes: number[]) {
-         if (!this.sendingFileState || this.sendingFileState.metadata.fileId !== fileId) return;
-         this.callbacks.onStatusUpdate({ type: 'info', message: `Resending ${indexes.length} missing chunks for ${this.sendingFileState.file.name}...` });
-         const totalChunks = this.sendingFileState.metadata.totalChunks;
+         const fileState = this.sendingFiles.get(fileId);
+         if (!fileState) return;
+         this.callbacks.onStatusUpdate({ type: 'info', message: `Resending ${indexes.length} missing chunks for ${fileState.file.name}...` });
          for (const index of indexes) {
-              await this.sendChunk(index, totalChunks);
+              if (!await this.sendChunkWhenAllowed(fileState, index)) return;
          }
-         this.sendMessage({ type: 'transfer-complete', payload: { fileId } });
+         this.sendMessage({ type: 'transfer-complete', payload: { fileId } }, fileState.stream);
     }
     
-    private async sendChunk(chunkIndex: number, totalChunks: number) {
-        if (!this.sendingFileState || !this.dataChannel || !this.encryptionPipeline) return;
+    // Every chunk goes out through here, whether streamed, retransmitted or resent for a resume. It waits while
+    // either side has the transfer paused, stays under the upload cap, the receiver's download cap and the stream's
+    // share of the buffer budget, and gives up as soon as the file is cancelled.
+    // Resolves to false if the chunk was not sent because the file's transfer stopped.
+    private async sendChunkWhenAllowed(fileState: SendingFileState, chunkIndex: number): Promise<boolean> {
+        const { metadata, stream } = fileState;
+        const isCurrent = () => this.sendingFiles.get(metadata.fileId) === fileState;
+
+        while ((this.isPaused || this.pausedByPeer) && isCurrent()) {
+            await new Promise(resolve => setTimeout(resolve, 200));
+        }
+
+        const chunkLength = Math.min(metadata.chunkSize, metadata.size - chunkIndex * metadata.chunkSize);
+        await this.uploadLimiter.take(chunkLength);
+        await this.peerLimiter.take(chunkLength);
+        if (!isCurrent()) return false;
+
+        // Each stream only gets its share of the buffer budget, so parallel streams cannot flood the connection.
+        // The budget follows the rate controller's latest decision.
+        const { highWaterMark, lowWaterMark } = this.rateController.decision;
+        stream.channel.bufferedAmountLowThreshold = lowWaterMark / this.maxParallelStreams;
+        if (stream.channel.bufferedAmount > highWaterMark / this.maxParallelStreams) {
+            await this.waitForBufferToClear(stream.channel);
+            if (!isCurrent()) return false;
+        }
+
+        return this.sendChunk(fileState, chunkIndex, metadata.totalChunks);
+    }
+
+    // Resolves to false if the file's transfer had to be stopped.
+    private async sendChunk(fileState: SendingFileState, chunkIndex: number, totalChunks: number): Promise<boolean> {
+        if (!this.encryptionPipeline || !fileState.merkleTree) return false;
         
-        const { file, metadata } = this.sendingFileState;
-        const { fileId, name, type } = metadata;
+        const { file, metadata, stream, merkleTree } = fileState;
+        const { fileId, name, path, type } = metadata;
 
-        const start = chunkIndex * this.chunkSize;
-        const end = start + this.chunkSize;
+        const start = chunkIndex * metadata.chunkSize;
+        const end = start + metadata.chunkSize;
         const chunkBlob = file.slice(start, end);
         const chunkData = await chunkBlob.arrayBuffer();
 
@@ -235,119 +749,403 @@ export class FileTransferManager {
                 context: { fileName: name, fileId, chunkIndex }
             });
             this.webRTCManager.disconnect();
-            return;
+            return false;
         }
 
-        const chunkMetadata: ChunkMetadata = {
-            fileId,
-            chunkIndex,
-            size: chunkData.byteLength,
-            checksum: chunkChecksum,
-        };
+        // The receiver would reject every chunk that no longer matches the announced Merkle root.
+        if (chunkChecksum !== merkleTree.chunkChecksum(chunkIndex)) {
+            this.callbacks.onStatusUpdate({ type: 'error', message: `${name} changed on disk while it was being sent. Transfer of this file has been cancelled.` });
+            this.sendingFiles.delete(fileId);
+            this.fillStreams();
+            return false;
+        }
 
-        const encryptedChunk = await this.encryptionPipeline.encrypt(chunkData);
-        if (!encryptedChunk) {
+        // The chunk goes out in frames of the size the rate controller currently wants; the grid itself never moves.
+        const frameSize = Math.min(this.rateController.decision.frameSize, chunkData.byteLength);
+        const proof = merkleTree.proof(chunkIndex);
+        const sealing: Promise<ArrayBuffer | null>[] = [];
+        for (let offset = 0; offset < chunkData.byteLength; offset += frameSize) {
+            const length = Math.min(frameSize, chunkData.byteLength - offset);
+            const header = encodeChunkFrameHeader({
+                fileId: metadata.frameFileId,
+                chunkIndex,
+                chunkLength: chunkData.byteLength,
+                offset,
+                length,
+                checksum: chunkChecksum,
+                proof: offset === 0 ? proof : [],
+            });
+            sealing.push(this.sealFrame(header, chunkData.slice(offset, offset + length)));
+        }
+        const frames = await Promise.all(sealing);
+        if (frames.some(frame => !frame)) {
             this.callbacks.onStatusUpdate({ type: 'error', message: `Encryption failed for chunk ${chunkIndex + 1} of ${name}.`, code: 'ENCRYPTION_FAILED', context: { fileName: name, fileId, chunkIndex } });
             this.webRTCManager.disconnect();
-            return;
+            return false;
         }
+        // Queued together, so the frames of one chunk follow each other on the stream.
+        await this.enqueueFrames(stream, frames as ArrayBuffer[]);
+        fileState.window?.markSent(chunkIndex);
 
-        this.sendMessage({ type: 'chunk-metadata', payload: chunkMetadata });
-        this.dataChannel.send(encryptedChunk);
-
-        if (chunkIndex >= this.sendingFileState.sentChunksCount) {
-             this.sendingFileState.sentChunksCount++;
+        if (chunkIndex >= fileState.sentChunksCount && !fileState.skipIndexes.has(chunkIndex)) {
+             fileState.sentChunksCount++;
         }
        
-        const progress = Math.round((this.sendingFileState.sentChunksCount / totalChunks) * 100);
+        const progress = Math.round((fileState.sentChunksCount / totalChunks) * 100);
         this.callbacks.onFileProgress({
             fileId,
             fileName: name,
+            filePath: path,
             fileSize: file.size,
             fileType: type,
             progress,
-            transferredChunks: this.sendingFileState.sentChunksCount,
+            transferredChunks: fileState.sentChunksCount,
             totalChunks,
         });
+        return true;
+    }
+
+    private handlePauseState(paused: boolean) {
+        if (typeof paused !== 'boolean' || paused === this.pausedByPeer) return;
+        this.pausedByPeer = paused;
+        if (!paused) this.sendingFiles.forEach(fileState => fileState.window?.resetStallClock());
+        this.callbacks.onPeerPauseChanged(paused);
+        this.callbacks.onStatusUpdate({ type: 'info', message: paused ? 'The peer paused the transfer.' : 'The peer resumed the transfer.' });
+    }
+
+    private handleRateLimit(bytesPerSecond: number) {
+        if (typeof bytesPerSecond !== 'number' || !Number.isFinite(bytesPerSecond) || bytesPerSecond < 0) return;
+        this.peerLimiter.setLimit(bytesPerSecond);
+        this.callbacks.onPeerRateLimit(bytesPerSecond);
+    }
+
+    private handleQueueOrder(fileIds: string[]) {
+        if (!Array.isArray(fileIds) || fileIds.some(fileId => typeof fileId !== 'string')) return;
+        this.callbacks.onQueueChanged(fileIds);
+    }
+
+    private waitForManifestResponse(batchId: string): Promise<string[]> {
+        return this.waitForReply(this.pendingManifestResponses, batchId, MANIFEST_RESPONSE_TIMEOUT, 'The receiver did not answer the file offer in time.');
+    }
+
+    private handleManifestResponse(batchId: string, acceptedFileIds: string[]) {
+        this.settleReply(this.pendingManifestResponses, batchId, Array.isArray(acceptedFileIds) ? acceptedFileIds : []);
+    }
+
+    // Registers a reply the peer owes. It is rejected if the peer takes too long or the connection closes.
+    private waitForReply<T>(replies: Map<string, PendingReply<T>>, key: string, timeoutMs: number, timeoutMessage: string): Promise<T> {
+        return new Promise((resolve, reject) => {
+            const reply: PendingReply<T> = {
+                resolve,
+                reject,
+                timer: window.setTimeout(() => {
+                    if (replies.get(key) !== reply) return;
+                    replies.delete(key);
+                    reject(new Error(timeoutMessage));
+                }, timeoutMs),
+            };
+            replies.set(key, reply);
+        });
+    }
+
+    private settleReply<T>(replies: Map<string, PendingReply<T>>, key: string, value: T) {
+        const reply = replies.get(key);
+        if (!reply) return;
+        replies.delete(key);
+        clearTimeout(reply.timer);
+        reply.resolve(value);
+    }
+
+    // Fails every reply still owed by the peer, so nothing waits on a connection that is gone.
+    private rejectPendingReplies(reason: string) {
+        const rejectAll = <T>(replies: Map<string, PendingReply<T>>) => {
+            replies.forEach(reply => {
+                clearTimeout(reply.timer);
+                reply.reject(new Error(reason));
+            });
+            replies.clear();
+        };
+        rejectAll(this.pendingManifestResponses);
+        rejectAll(this.pendingResumeStates);
     }
 
-    private waitForBufferToClear(): Promise<void> {
+    private waitForResumeState(fileId: string): Promise<number[]> {
+        return this.waitForReply(this.pendingResumeStates, fileId, RESUME_STATE_TIMEOUT, 'The receiver did not report which chunks it already has.');
+    }
+
+    private handleResumeState(fileId: string, receivedIndexes: number[]) {
+        this.settleReply(this.pendingResumeStates, fileId, receivedIndexes);
+    }
+
+    private waitForBufferToClear(channel: RTCDataChannel): Promise<void> {
         return new Promise(resolve => {
-            if (!this.dataChannel) {
-                resolve();
-                return;
-            }
             const onBufferLow = () => {
-                this.dataChannel?.removeEventListener('bufferedamountlow', onBufferLow);
+                channel.removeEventListener('bufferedamountlow', onBufferLow);
                 resolve();
             };
-            this.dataChannel.addEventListener('bufferedamountlow', onBufferLow);
+            channel.addEventListener('bufferedamountlow', onBufferLow);
         });
     }
 
-    private async handleDataChannelMessage(event: MessageEvent) {
-        if (event.data instanceof ArrayBuffer) {
-            if (this.awaitingChunkDataFor && this.encryptionPipeline) {
-                const chunkMetadataContext = this.awaitingChunkDataFor;
-                this.awaitingChunkDataFor = null;
-
-                const decryptedData = await this.encryptionPipeline.decrypt(event.data);
-                if (decryptedData) {
-                    this.handleChunkData(decryptedData, chunkMetadataContext);
-                } else {
-                    const fileState = this.receivingFiles.get(chunkMetadataContext.fileId);
-                    this.callbacks.onStatusUpdate({ 
-                        type: 'error', 
-                        message: `Decryption failed for a chunk of ${fileState?.metadata.name || 'a file'}.`, 
-                        code: 'DECRYPTION_FAILED', 
-                        context: { 
-                            fileName: fileState?.metadata.name,
-                            fileId: chunkMetadataContext.fileId,
-                            chunkIndex: chunkMetadataContext.chunkIndex 
-                        } 
-                    });
-                }
+    private handleDataChannelMessage(event: MessageEvent, source: ChannelState) {
+        // Frames are handled one at a time per channel, so a file's metadata is known before its chunks and completion arrive.
+        source.incoming = source.incoming
+            .then(() => this.handleFrame(event.data, source))
+            .catch(error => console.error('Failed to handle incoming data channel frame:', error));
+    }
+
+    private async handleFrame(data: unknown, source: ChannelState) {
+        if (!(data instanceof ArrayBuffer) || !this.encryptionPipeline) {
+            console.warn('Dropping a data channel message that is not an encrypted frame.');
+            return;
+        }
+        let frame: DecodedFrame;
+        try {
+            frame = decodeFrame(data);
+        } catch (error) {
+            console.warn('Dropping a malformed data channel frame:', (error as Error).message);
+            return;
+        }
+
+        if (frame.type === FrameType.Chunk) {
+            const fileId = this.frameFileIds.get(frame.chunk.fileId);
+            if (!fileId) {
+                console.warn(`Dropping a chunk frame for unknown file ${frame.chunk.fileId}.`);
+                return;
+            }
+            // A header that was altered in transit makes decryption fail outright.
+            const decryptedData = await this.encryptionPipeline.decrypt(frame.ciphertext, frame.header);
+            if (decryptedData && decryptedData.byteLength === frame.chunk.length) {
+                this.handleChunkFrame(decryptedData, fileId, frame.chunk);
             } else {
-                 console.warn('Received unexpected binary data without preceding metadata.');
+                const fileState = this.receivingFiles.get(fileId);
+                this.callbacks.onStatusUpdate({ 
+                    type: 'error', 
+                    message: `Decryption failed for a chunk of ${fileState?.metadata.name || 'a file'}.`, 
+                    code: 'DECRYPTION_FAILED', 
+                    context: { 
+                        fileName: fileState?.metadata.name,
+                        fileId,
+                        chunkIndex: frame.chunk.chunkIndex 
+                    } 
+                });
             }
             return;
         }
 
+        const plaintext = await this.encryptionPipeline.decrypt(frame.ciphertext, frame.header);
+        if (!plaintext) {
+            this.callbacks.onStatusUpdate({ type: 'error', message: 'Decryption failed for a control message from the peer.', code: 'DECRYPTION_FAILED' });
+            return;
+        }
+
         try {
-            const message = JSON.parse(event.data) as ProtocolMessage;
+            const message = JSON.parse(new TextDecoder().decode(plaintext)) as ProtocolMessage;
             switch (message.type) {
                 case 'file-metadata': this.handleFileMetadata(message.payload); break;
-                case 'chunk-metadata': this.awaitingChunkDataFor = message.payload; break;
+                case 'transfer-manifest': this.handleTransferManifest(message.payload); break;
+                case 'manifest-response': this.handleManifestResponse(message.payload.batchId, message.payload.acceptedFileIds); break;
+                case 'cancel-file': this.handleCancelFile(message.payload.fileId); break;
+                case 'prioritize-file': this.handlePrioritizeFile(message.payload.fileId); break;
+                case 'queue-order': this.handleQueueOrder(message.payload.fileIds); break;
+                case 'pause-state': this.handlePauseState(message.payload.paused); break;
+                case 'rate-limit': this.handleRateLimit(message.payload.bytesPerSecond); break;
                 case 'transfer-complete': this.handleTransferComplete(message.payload.fileId); break;
                 case 'request-chunks': this.resendChunks(message.payload.fileId, message.payload.indexes); break;
+                case 'resume-state': this.handleResumeState(message.payload.fileId, message.payload.receivedIndexes); break;
+                case 'chunk-ack': this.handleChunkAck(message.payload); break;
                 case 'file-received-ack': this.handleFileReceivedAck(message.payload.fileId); break;
+                case 'transfer-receipt': this.handleTransferReceipt(message.payload); break;
                 default: console.warn('Unknown message type received in data channel:', (message as any).type);
             }
         } catch (error) {
-            console.error('Failed to parse incoming data channel message:', event.data, error);
+            console.error('Failed to parse incoming control message:', error);
         }
     }
 
-    private handleFileMetadata(metadata: FileMetadata) {
-        this.receivingFiles.set(metadata.fileId, {
+    private async handleFileMetadata(metadata: FileMetadata) {
+        const { fileId, name, path, size, totalChunks, chunkSize, fullFileChecksum, merkleRoot, frameFileId } = metadata;
+        if (!Number.isInteger(chunkSize) || chunkSize < MIN_CHUNK_SIZE || chunkSize > MAX_CHUNK_SIZE || totalChunks !== Math.ceil(size / chunkSize)) {
+            this.callbacks.onStatusUpdate({ type: 'error', message: `The sender described ${name} with an invalid chunk layout. The file was not accepted.` });
+            return;
+        }
+        // The path decides where the file is written, so one that could escape the save folder is refused.
+        if (!splitRelativePath(path)) {
+            this.callbacks.onStatusUpdate({ type: 'error', message: `The sender gave ${name} an invalid folder path. The file was not accepted.` });
+            return;
+        }
+        // The sender only starts files the user accepted from its manifest.
+        if (!this.acceptedFileIds.has(fileId)) {
+            this.callbacks.onStatusUpdate({ type: 'error', message: `The sender started ${name}, which you did not accept. The file was refused.` });
+            return;
+        }
+        // Chunk frames name their file by this number, so it must fit the frame header and not belong to another file.
+        const frameFileOwner = this.frameFileIds.get(frameFileId);
+        if (!Number.isInteger(frameFileId) || frameFileId < 0 || frameFileId > MAX_FRAME_FILE_ID || (frameFileOwner !== undefined && frameFileOwner !== fileId)) {
+            this.callbacks.onStatusUpdate({ type: 'error', message: `The sender gave ${name} an invalid or duplicate frame number. The file was not accepted.` });
+            return;
+        }
+        // Only used for display and archives, so a missing time is replaced rather than refused.
+        if (!Number.isFinite(metadata.lastModified)) metadata.lastModified = Date.now();
+        const receivedIndexes = new Set<number>();
+        // Registered before any await so the chunk frames queued behind this message can be matched.
+        this.frameFileIds.set(frameFileId, fileId);
+
+        // Reuse chunks persisted by an earlier session, but only if they belong to the exact same file.
+        try {
+            const storedFile = await getResumableFile(fileId);
+            // Each stored chunk is checked against the Merkle root again before it is written out.
+            if (storedFile && storedFile.merkleRoot === merkleRoot && storedFile.chunkSize === chunkSize && storedFile.totalChunks === totalChunks) {
+                const storedIndexes = await getStoredChunkIndexes(fileId);
+                storedIndexes.filter(index => index < totalChunks).forEach(index => receivedIndexes.add(index));
+            } else {
+                if (storedFile) await clearResumableFile(fileId);
+                await saveResumableFile({ fileId, name, size, totalChunks, fullFileChecksum, chunkSize, merkleRoot, updatedAt: Date.now() });
+            }
+        } catch (error) {
+            console.error('Failed to load resumable state for', name, error);
+        }
+
+        let sink: ReceiveSink;
+        try {
+            sink = await createReceiveSink(metadata, this.saveDirectory);
+        } catch (error) {
+            this.callbacks.onStatusUpdate({ type: 'error', message: `Could not prepare storage for ${name}: ${(error as Error).message}` });
+            return;
+        }
+
+        const fileState: ReceivingFileState = {
             metadata,
-            chunks: new Array(metadata.totalChunks).fill(null),
-            receivedChunksCount: 0
+            receivedIndexes,
+            pendingChunks: new Map([...receivedIndexes].map(index => [index, null])),
+            chunkChecksums: [],
+            nextChunkToWrite: 0,
+            ackBase: 0,
+            highestReceived: -1,
+            chunksSinceAck: 0,
+            ackTimer: null,
+            partialChunks: new Map(),
+            chunkChecks: new Set(),
+            sink,
+            writeQueue: Promise.resolve(),
+        };
+        this.receivingFiles.set(fileId, fileState);
+        fileState.highestReceived = [...receivedIndexes].reduce((highest, index) => Math.max(highest, index), -1);
+        this.advanceAckBase(fileState);
+        // Replay the persisted prefix of the file into the new sink.
+        this.enqueueWrite(fileState);
+
+        this.callbacks.onStatusUpdate({
+            type: 'info',
+            message: receivedIndexes.size > 0
+                ? `Resuming ${name}: ${receivedIndexes.size} of ${totalChunks} chunks already received.`
+                : `Receiving metadata for ${name}`,
         });
-        this.callbacks.onStatusUpdate({ type: 'info', message: `Receiving metadata for ${metadata.name}` });
         this.callbacks.onFileProgress({
-            fileId: metadata.fileId,
-            fileName: metadata.name,
-            fileSize: metadata.size,
+            fileId,
+            fileName: name,
+            filePath: path,
+            fileSize: size,
             fileType: metadata.type,
-            progress: 0,
-            transferredChunks: 0,
-            totalChunks: metadata.totalChunks,
+            progress: Math.round((receivedIndexes.size / totalChunks) * 100) || 0,
+            transferredChunks: receivedIndexes.size,
+            totalChunks,
         });
+
+        this.sendMessage({ type: 'resume-state', payload: { fileId, receivedIndexes: [...receivedIndexes] } });
+    }
+
+    // Entries the receiver could not store safely are dropped before the user sees the manifest.
+    private handleTransferManifest(manifest: TransferManifest) {
+        if (typeof manifest?.batchId !== 'string' || !Array.isArray(manifest.files) || !Array.isArray(manifest.directories)) {
+            console.warn('Ignoring a malformed transfer manifest.');
+            return;
+        }
+        const files = manifest.files.filter(file => typeof file.fileId === 'string' && typeof file.name === 'string' &&
+            splitRelativePath(file.path) !== null && Number.isInteger(file.size) && file.size >= 0);
+        const directories = manifest.directories.filter(path => splitRelativePath(path) !== null);
+        const dropped = manifest.files.length - files.length + manifest.directories.length - directories.length;
+        if (dropped > 0) {
+            console.warn(`Ignoring ${dropped} manifest entries from the sender that do not have a valid relative path or size.`);
+        }
+        const validManifest = { batchId: manifest.batchId, files, directories };
+        this.pendingManifests.set(manifest.batchId, validManifest);
+        this.callbacks.onManifestReceived(validManifest);
+    }
+
+    /**
+     * Answers a transfer manifest with the user's choice. Only accepted files are streamed;
+     * accepting nothing rejects the whole batch.
+     * @param batchId The manifest being answered.
+     * @param acceptedFileIds The files to receive.
+     */
+    public respondToManifest(batchId: string, acceptedFileIds: string[]) {
+        const manifest = this.pendingManifests.get(batchId);
+        if (!manifest) return;
+        this.pendingManifests.delete(batchId);
+        const offered = new Set(manifest.files.map(file => file.fileId));
+        const accepted = acceptedFileIds.filter(fileId => offered.has(fileId));
+        accepted.forEach(fileId => this.acceptedFileIds.add(fileId));
+        this.sendMessage({ type: 'manifest-response', payload: { batchId, acceptedFileIds: accepted } });
+        if (accepted.length > 0) this.createEmptyDirectories(manifest.directories);
+    }
+
+    // Files recreate their own folders as they are written; only empty folders are created up front.
+    private async createEmptyDirectories(paths: string[]) {
+        if (paths.length === 0) return;
+        const saveDirectory = this.saveDirectory;
+        if (saveDirectory) {
+            try {
+                await Promise.all(paths.map(path => createSubdirectories(saveDirectory, splitRelativePath(path)!)));
+            } catch (error) {
+                this.callbacks.onStatusUpdate({ type: 'error', message: `Could not create empty folders in the chosen folder: ${(error as Error).message}` });
+            }
+        }
+        this.callbacks.onDirectoriesReceived(paths);
+    }
+
+    // Checks a frame against the file's chunk grid and reassembles chunks that were split across several frames.
+    private handleChunkFrame(data: ArrayBuffer, fileId: string, frame: ChunkFrameHeader) {
+        const fileState = this.receivingFiles.get(fileId);
+        if (!fileState) return;
+        const { chunkIndex, chunkLength, offset, length, checksum, proof } = frame;
+        const { size, chunkSize, totalChunks } = fileState.metadata;
+        if (chunkIndex >= totalChunks || chunkLength !== Math.min(chunkSize, size - chunkIndex * chunkSize) || offset + length > chunkLength) {
+            console.warn(`Dropping a frame of ${fileState.metadata.name} that does not fit chunk ${chunkIndex} of the file's chunk grid.`);
+            return;
+        }
+        if (offset === 0 && length === chunkLength) {
+            this.checkChunk(fileState, data, { fileId, chunkIndex, size: chunkLength, checksum, proof });
+            return;
+        }
+
+        let partial = fileState.partialChunks.get(chunkIndex);
+        if (offset === 0) {
+            partial = { data: new Uint8Array(chunkLength), received: 0, checksum, proof };
+            fileState.partialChunks.set(chunkIndex, partial);
+        }
+        if (!partial || offset !== partial.received || checksum !== partial.checksum) {
+            // A frame went missing; the chunk is left unacknowledged and will be sent again in full.
+            fileState.partialChunks.delete(chunkIndex);
+            console.warn(`Dropping an out-of-sequence frame of chunk ${chunkIndex} of ${fileState.metadata.name}.`);
+            return;
+        }
+        partial.data.set(new Uint8Array(data), offset);
+        partial.received += length;
+        if (partial.received === chunkLength) {
+            fileState.partialChunks.delete(chunkIndex);
+            this.checkChunk(fileState, partial.data.buffer, { fileId, chunkIndex, size: chunkLength, checksum, proof: partial.proof });
+        }
+    }
+
+    // Verifies and stores a chunk in the background while the channel moves on to its next frame.
+    private checkChunk(fileState: ReceivingFileState, data: ArrayBuffer, metadata: ChunkMetadata) {
+        const check = this.handleChunkData(data, metadata).finally(() => fileState.chunkChecks.delete(check));
+        fileState.chunkChecks.add(check);
     }
 
     private async handleChunkData(decryptedChunkData: ArrayBuffer, metadata: ChunkMetadata) {
-        const { fileId, chunkIndex, checksum } = metadata;
+        const { fileId, chunkIndex, checksum, proof } = metadata;
         const fileState = this.receivingFiles.get(fileId);
         if (!fileState) return;
 
@@ -370,39 +1168,131 @@ export class FileTransferManager {
             console.warn(`Chunk checksum mismatch for file ${fileId}, chunk ${chunkIndex}. Expected ${checksum}, got ${receivedChecksum}. Discarding chunk.`);
             return;
         }
-        
-        if (fileState.metadata.totalChunks <= chunkIndex) {
-            // This can happen if chunk size was adapted mid-transfer
-            const oldChunks = fileState.chunks;
-            fileState.chunks = new Array(chunkIndex + 1).fill(null);
-            fileState.chunks.splice(0, oldChunks.length, ...oldChunks);
-            fileState.metadata.totalChunks = chunkIndex + 1;
+
+        // Rejected right away rather than after the whole file has arrived.
+        if (!verifyMerkleProof(fileState.metadata.merkleRoot, receivedChecksum, chunkIndex, fileState.metadata.totalChunks, proof)) {
+            this.callbacks.onStatusUpdate({
+                type: 'info',
+                message: `A chunk of ${fileState.metadata.name} does not match the file's Merkle root. It will be re-requested automatically.`,
+            });
+            console.warn(`Merkle proof failed for file ${fileId}, chunk ${chunkIndex}. Discarding chunk.`);
+            return;
         }
 
-        if (!fileState.chunks[chunkIndex]) {
-            fileState.chunks[chunkIndex] = decryptedChunkData;
-            fileState.receivedChunksCount++;
+        if (!fileState.receivedIndexes.has(chunkIndex)) {
+            fileState.receivedIndexes.add(chunkIndex);
+            fileState.chunkChecksums[chunkIndex] = receivedChecksum;
+            const storedChunk = { data: decryptedChunkData, proof };
+            if (chunkIndex === fileState.nextChunkToWrite) {
+                fileState.pendingChunks.set(chunkIndex, decryptedChunkData);
+                saveChunk(fileId, chunkIndex, storedChunk).catch(error => {
+                    console.error(`Failed to persist chunk ${chunkIndex} of ${fileState.metadata.name}:`, error);
+                });
+            } else {
+                // Out-of-order chunks wait in IndexedDB rather than in memory until the gap is filled.
+                try {
+                    await saveChunk(fileId, chunkIndex, storedChunk);
+                    fileState.pendingChunks.set(chunkIndex, null);
+                } catch (error) {
+                    console.error(`Failed to persist chunk ${chunkIndex} of ${fileState.metadata.name}:`, error);
+                    fileState.pendingChunks.set(chunkIndex, decryptedChunkData);
+                }
+            }
+            fileState.highestReceived = Math.max(fileState.highestReceived, chunkIndex);
+            this.advanceAckBase(fileState);
+            this.enqueueWrite(fileState);
         }
+        // Duplicates are acknowledged too, in case the acknowledgement that covered them was lost.
+        this.scheduleChunkAck(fileState);
         
-        const progress = Math.round((fileState.receivedChunksCount / fileState.metadata.totalChunks) * 100);
+        const progress = Math.round((fileState.receivedIndexes.size / fileState.metadata.totalChunks) * 100);
         this.callbacks.onFileProgress({
             fileId,
             fileName: fileState.metadata.name,
+            filePath: fileState.metadata.path,
             fileSize: fileState.metadata.size,
             fileType: fileState.metadata.type,
             progress,
-            transferredChunks: fileState.receivedChunksCount,
+            transferredChunks: fileState.receivedIndexes.size,
             totalChunks: fileState.metadata.totalChunks,
         });
     }
+
+    private advanceAckBase(fileState: ReceivingFileState) {
+        while (fileState.receivedIndexes.has(fileState.ackBase)) fileState.ackBase++;
+    }
+
+    // Acknowledges once enough chunks have arrived, and otherwise shortly after the first unacknowledged one.
+    private scheduleChunkAck(fileState: ReceivingFileState) {
+        fileState.chunksSinceAck++;
+        if (fileState.chunksSinceAck >= ACK_EVERY_CHUNKS) {
+            this.sendChunkAck(fileState);
+        } else if (fileState.ackTimer === null) {
+            fileState.ackTimer = window.setTimeout(() => this.sendChunkAck(fileState), ACK_DELAY);
+        }
+    }
+
+    private sendChunkAck(fileState: ReceivingFileState) {
+        if (fileState.ackTimer !== null) {
+            clearTimeout(fileState.ackTimer);
+            fileState.ackTimer = null;
+        }
+        fileState.chunksSinceAck = 0;
+        const { fileId } = fileState.metadata;
+        if (this.receivingFiles.get(fileId) !== fileState) return;
+        const ack = encodeChunkAck(fileState.receivedIndexes, fileState.ackBase, fileState.highestReceived);
+        this.sendMessage({ type: 'chunk-ack', payload: { fileId, ...ack } });
+    }
+
+    // Writes every chunk that now directly follows the written prefix of the file into its sink.
+    private enqueueWrite(fileState: ReceivingFileState) {
+        fileState.writeQueue = fileState.writeQueue.then(async () => {
+            const { fileId } = fileState.metadata;
+            while (fileState.pendingChunks.has(fileState.nextChunkToWrite)) {
+                const index = fileState.nextChunkToWrite;
+                const data = fileState.pendingChunks.get(index) ?? await this.loadStoredChunk(fileState, index);
+                if (!data) {
+                    // The persisted copy is gone or damaged; forget the chunk and ask for it again.
+                    fileState.pendingChunks.delete(index);
+                    fileState.receivedIndexes.delete(index);
+                    fileState.ackBase = Math.min(fileState.ackBase, index);
+                    this.sendMessage({ type: 'request-chunks', payload: { fileId, indexes: [index] } });
+                    return;
+                }
+                await fileState.sink.write(data);
+                fileState.pendingChunks.delete(index);
+                fileState.nextChunkToWrite++;
+            }
+        }).catch(error => {
+            this.callbacks.onStatusUpdate({ type: 'error', message: `Failed to write ${fileState.metadata.name} to disk: ${(error as Error).message}` });
+        });
+    }
     
-    private handleTransferComplete(fileId: string) {
+    // Reads a persisted chunk back and checks it against the Merkle root before it is reused.
+    private async loadStoredChunk(fileState: ReceivingFileState, index: number): Promise<ArrayBuffer | null> {
+        const { fileId, merkleRoot, totalChunks, name } = fileState.metadata;
+        const stored = await getChunk(fileId, index);
+        if (!stored) return null;
+        const checksum = await calculateSHA256(stored.data);
+        if (!verifyMerkleProof(merkleRoot, checksum, index, totalChunks, stored.proof)) {
+            console.warn(`Stored chunk ${index} of ${name} failed Merkle verification and will be requested again.`);
+            return null;
+        }
+        fileState.chunkChecksums[index] = checksum;
+        return stored.data;
+    }
+
+    private async handleTransferComplete(fileId: string) {
         const fileState = this.receivingFiles.get(fileId);
         if (!fileState) return;
+        // The last chunks usually arrive just before this notice and may still be being verified.
+        await Promise.allSettled(fileState.chunkChecks);
+        if (this.receivingFiles.get(fileId) !== fileState) return;
 
-        const missingChunks = fileState.chunks
-            .map((chunk, index) => (chunk === null ? index : -1))
-            .filter(index => index !== -1);
+        const missingChunks: number[] = [];
+        for (let index = 0; index < fileState.metadata.totalChunks; index++) {
+            if (!fileState.receivedIndexes.has(index)) missingChunks.push(index);
+        }
             
         if (missingChunks.length > 0) {
             this.callbacks.onStatusUpdate({ type: 'info', message: `Found ${missingChunks.length} missing chunks. Requesting re-transmission...`});
@@ -414,27 +1304,29 @@ export class FileTransferManager {
 
     private async reconstructFile(fileId: string) {
         const fileState = this.receivingFiles.get(fileId);
-        if (!fileState || fileState.chunks.some(c => c === null)) {
+        if (fileState) await fileState.writeQueue;
+        if (!fileState || fileState.nextChunkToWrite < fileState.metadata.totalChunks) {
             this.callbacks.onStatusUpdate({ type: 'error', message: `File reconstruction for ${fileState?.metadata.name} failed: missing chunks.` });
             return;
         };
 
-        const fileBlob = new Blob(fileState.chunks as BlobPart[]);
-        
         try {
-            const fullFileChecksum = await calculateSHA256(fileBlob);
+            // The sink hashed every byte as it was written, so verification needs no second pass.
+            const { file, checksum: fullFileChecksum } = await fileState.sink.close();
     
             if (fullFileChecksum === fileState.metadata.fullFileChecksum) {
-                const url = URL.createObjectURL(fileBlob);
-                this.callbacks.onFileReceived({
-                    name: fileState.metadata.name,
-                    type: fileState.metadata.type,
-                    size: fileState.metadata.size,
-                    url,
-                });
+                const { name, path, type, size, lastModified, chunkSize, merkleRoot } = fileState.metadata;
+                const manifest = createFileManifest({ name, path, type, size, sha256: fullFileChecksum, merkleRoot }, chunkSize, fileState.chunkChecksums);
+                const url = URL.createObjectURL(file);
+                this.callbacks.onFileReceived({ name, path, type, size, lastModified, data: file, url, manifest });
                 this.sendMessage({ type: 'file-received-ack', payload: { fileId } });
                 this.receivingFiles.delete(fileId);
+                clearResumableFile(fileId).catch(error => console.error('Failed to clear resumable state:', error));
             } else {
+                this.receivingFiles.delete(fileId);
+                await fileState.sink.abort();
+                // The persisted chunks produced a corrupt file; do not offer them for resumption again.
+                clearResumableFile(fileId).catch(error => console.error('Failed to clear resumable state:', error));
                 this.callbacks.onStatusUpdate({ type: 'error', message: `Final file checksum mismatch for ${fileState.metadata.name}. Transfer failed.`, code: 'CHECKSUM_MISMATCH', context: { fileName: fileState.metadata.name, fileId } });
             }
         } catch (error) {
@@ -447,17 +1339,93 @@ export class FileTransferManager {
         }
     }
 
+    private handleChunkAck(ack: ChunkAck & { fileId: string }) {
+        const fileState = this.sendingFiles.get(ack.fileId);
+        if (!fileState?.window) return;
+        if (!Number.isInteger(ack.base) || ack.base < 0 || typeof ack.bitmap !== 'string' ||
+            ack.bitmap.length > MAX_ACK_SPAN / 4 || !/^[0-9a-f]*$/.test(ack.bitmap)) {
+            console.warn('Ignoring a malformed chunk acknowledgement from the peer.');
+            return;
+        }
+        const lost = fileState.window.applyAck(ack);
+        if (fileState.stalled && !fileState.window.isStalled()) {
+            fileState.stalled = false;
+            this.callbacks.onStatusUpdate({ type: 'info', message: `The receiver is acknowledging ${fileState.file.name} again.` });
+        }
+        if (lost.length > 0) {
+            this.retransmitChunks(fileState, lost);
+        }
+    }
+
+    // Sends chunks again while the file is still streaming; unlike `resendChunks`, the file is not completed afterwards.
+    private async retransmitChunks(fileState: SendingFileState, indexes: number[]) {
+        this.callbacks.onStatusUpdate({ type: 'info', message: `Retransmitting ${indexes.length} chunks of ${fileState.metadata.name} that the receiver did not get...` });
+        for (const index of indexes) {
+            if (!await this.sendChunkWhenAllowed(fileState, index)) return;
+        }
+    }
+
     private handleFileReceivedAck(fileId: string) {
-        if (this.sendingFileState?.metadata.fileId === fileId) {
-            this.callbacks.onStatusUpdate({ type: 'success', message: `Peer confirmed receipt of ${this.sendingFileState.file.name}.` });
-            this.callbacks.onFileSent(this.sendingFileState.file);
-            this.startNextFileTransfer();
+        const fileState = this.sendingFiles.get(fileId);
+        if (!fileState) return;
+        this.sendingFiles.delete(fileId);
+        this.callbacks.onStatusUpdate({ type: 'success', message: `Peer confirmed receipt of ${fileState.file.name}.` });
+        this.callbacks.onFileSent(fileState.file);
+        // The stream is free again; hand it the next file.
+        this.fillStreams();
+        if (this.sendingFiles.size === 0 && this.scheduler.pendingCount === 0) {
+            this.callbacks.onStatusUpdate({ type: 'success', message: 'All files have been sent successfully!' });
         }
     }
 
-    private sendMessage(message: Omit<ProtocolMessage, 'type'> & { type: string }) {
-        if (this.dataChannel?.readyState === 'open') {
-            this.dataChannel.send(JSON.stringify(message));
+    /**
+     * Sends the receiver's signed receipt for the files received so far to the sender.
+     * @param receipt The signed receipt.
+     */
+    public sendReceipt(receipt: TransferReceipt) {
+        this.sendMessage({ type: 'transfer-receipt', payload: receipt });
+    }
+
+    private handleTransferReceipt(receipt: unknown) {
+        // The signature is checked by the page, which knows the session and trusted devices.
+        if (!isTransferReceipt(receipt)) {
+            console.warn('Ignoring a malformed transfer receipt from the peer.');
+            return;
         }
+        this.callbacks.onReceiptReceived(receipt);
+    }
+
+    // Control messages default to the control channel; per-file messages from the sender go on the file's stream.
+    private sendMessage(message: ProtocolMessage, target: ChannelState | null = this.controlChannel): Promise<void> {
+        return this.enqueueFrames(target, [this.sealMessage(message)]);
+    }
+
+    private sealMessage(message: ProtocolMessage): Promise<ArrayBuffer | null> {
+        return this.sealFrame(encodeControlFrameHeader(), new TextEncoder().encode(JSON.stringify(message)).buffer);
+    }
+
+    // Encrypts a payload into a frame. The frame header is authenticated along with it.
+    private async sealFrame(header: Uint8Array, plaintext: ArrayBuffer): Promise<ArrayBuffer | null> {
+        if (!this.encryptionPipeline) return null;
+        const ciphertext = await this.encryptionPipeline.encrypt(plaintext, header);
+        return ciphertext && encodeFrame(header, ciphertext);
+    }
+
+    // Sends frames in the order they were queued, even though each one may still be encrypting.
+    private enqueueFrames(target: ChannelState | null, frames: (ArrayBuffer | Promise<ArrayBuffer | null>)[]): Promise<void> {
+        if (!target) return Promise.resolve();
+        target.outgoing = target.outgoing.then(async () => {
+            const sealed = await Promise.all(frames);
+            if (sealed.some(frame => !frame)) {
+                this.callbacks.onStatusUpdate({ type: 'error', message: 'A message could not be encrypted and was not sent.', code: 'ENCRYPTION_FAILED' });
+                return;
+            }
+            if (target.channel.readyState !== 'open') return;
+            sealed.forEach(frame => target.channel.send(frame!));
+        }).catch(error => {
+            // Keep the chain usable for later frames.
+            this.callbacks.onStatusUpdate({ type: 'error', message: `Failed to send a message: ${(error as Error).message}`, code: 'ENCRYPTION_FAILED' });
+        });
+        return target.outgoing;
     }
 }
\ No newline at end of file
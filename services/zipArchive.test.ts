@@ -0,0 +1,214 @@
+import { crc32 } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { ZipOutput, ZipStreamWriter, writeZipArchive } from './zipArchive';
+
+const GiB = 1024 * 1024 * 1024;
+const MAX_32_BIT = 0xffffffff;
+
+// A blob of any size that holds no bytes. Its slices read as empty, so the CRC-32 of a huge
+// entry is wrong, but every size and offset in the archive is what it would be for real data.
+class SparseBlob extends Blob {
+  private readonly length: number;
+
+  constructor(length: number) {
+    super([]);
+    this.length = length;
+  }
+
+  get size(): number {
+    return this.length;
+  }
+
+  slice(start = 0, end = this.length): Blob {
+    return new SparseBlob(Math.max(0, Math.min(end, this.length) - start));
+  }
+
+  async arrayBuffer(): Promise<ArrayBuffer> {
+    return new ArrayBuffer(0);
+  }
+}
+
+type Write = { offset: number; size: number };
+type Recording = { writes: Write[]; headers: Map<number, Uint8Array> };
+
+// Records the offset of every write, and the bytes of every header. Blob contents are not kept.
+function recordingOutput(): { output: ZipOutput } & Recording {
+  const writes: Write[] = [];
+  const headers = new Map<number, Uint8Array>();
+  let offset = 0;
+  const output: ZipOutput = {
+    async write(data) {
+      const size = data instanceof Blob ? data.size : data.length;
+      writes.push({ offset, size });
+      if (!(data instanceof Blob)) headers.set(offset, data);
+      offset += size;
+    },
+  };
+  return { output, writes, headers };
+}
+
+// The header written at `offset`.
+function headerAt({ headers }: Recording, offset: number): DataView {
+  const bytes = headers.get(offset);
+  if (!bytes) throw new Error(`No header was written at offset ${offset}.`);
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+// Splits the extra field block of a header into its fields, by ID.
+function extraFields(view: DataView, start: number, length: number): Map<number, DataView> {
+  const fields = new Map<number, DataView>();
+  for (let offset = start; offset < start + length;) {
+    const id = view.getUint16(offset, true);
+    const size = view.getUint16(offset + 2, true);
+    fields.set(id, new DataView(view.buffer, view.byteOffset + offset + 4, size));
+    offset += 4 + size;
+  }
+  return fields;
+}
+
+const getUint64 = (view: DataView, offset: number) =>
+  view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 0x100000000;
+
+type CentralEntry = { name: string; version: number; crc: number; size: number; offset: number; attributes: number; zip64: DataView | undefined };
+
+// Reads the end records and the central directory of the archive.
+function readCentralDirectory(recording: Recording) {
+  const { writes } = recording;
+  const end = headerAt(recording, writes[writes.length - 1].offset);
+  expect(end.getUint32(0, true)).toBe(0x06054b50);
+  let count = end.getUint16(10, true);
+  let size = end.getUint32(12, true);
+  let offset = end.getUint32(16, true);
+
+  let zip64End: DataView | null = null;
+  if (offset === MAX_32_BIT || count === 0xffff) {
+    const records = headerAt(recording, writes[writes.length - 2].offset);
+    const locator = new DataView(records.buffer, records.byteOffset + 56, 20);
+    expect(locator.getUint32(0, true)).toBe(0x07064b50);
+    expect(getUint64(locator, 8)).toBe(writes[writes.length - 2].offset);
+    zip64End = new DataView(records.buffer, records.byteOffset, 56);
+    expect(zip64End.getUint32(0, true)).toBe(0x06064b50);
+    expect(zip64End.getUint16(14, true)).toBe(45);
+    count = getUint64(zip64End, 32);
+    size = getUint64(zip64End, 40);
+    offset = getUint64(zip64End, 48);
+  }
+
+  const entries: CentralEntry[] = [];
+  let position = offset;
+  for (let i = 0; i < count; i++) {
+    const header = headerAt(recording, position);
+    if (header.getUint32(0, true) !== 0x02014b50) throw new Error(`No central directory header at offset ${position}.`);
+    const nameLength = header.getUint16(28, true);
+    const extraLength = header.getUint16(30, true);
+    entries.push({
+      name: new TextDecoder().decode(new Uint8Array(header.buffer, header.byteOffset + 46, nameLength)),
+      version: header.getUint16(6, true),
+      crc: header.getUint32(16, true),
+      size: header.getUint32(24, true),
+      offset: header.getUint32(42, true),
+      attributes: header.getUint32(38, true),
+      zip64: extraFields(header, 46 + nameLength, extraLength).get(0x0001),
+    });
+    position += header.byteLength;
+  }
+  expect(position - offset).toBe(size);
+  return { end, zip64End, entries, centralDirectoryOffset: offset };
+}
+
+describe('ZipStreamWriter', () => {
+  it('writes stored files and folders with a classic central directory', async () => {
+    const recording = recordingOutput();
+    const { output } = recording;
+    const text = 'The quick brown fox jumps over the lazy dog';
+    await writeZipArchive([
+      { path: 'docs/fox.txt', data: new Blob([text]), lastModified: Date.UTC(2024, 0, 1) },
+      { path: 'docs/empty', data: null, lastModified: Date.UTC(2024, 0, 1) },
+    ], output);
+
+    const { zip64End, entries } = readCentralDirectory(recording);
+    expect(zip64End).toBeNull();
+    expect(entries).toEqual([
+      { name: 'docs/fox.txt', version: 20, crc: crc32(text), size: text.length, offset: 0, attributes: 0, zip64: undefined },
+      { name: 'docs/empty/', version: 20, crc: 0, size: 0, offset: entries[1].offset, attributes: 0x10, zip64: undefined },
+    ]);
+
+    const local = headerAt(recording, 0);
+    expect(local.getUint32(0, true)).toBe(0x04034b50);
+    // UTF-8 names, and the CRC-32 and sizes follow the data.
+    expect(local.getUint16(6, true)).toBe(0x0808);
+    expect(local.getUint32(18, true)).toBe(0);
+    const dataOffset = local.byteLength;
+    const descriptor = headerAt(recording, dataOffset + text.length);
+    expect(descriptor.byteLength).toBe(16);
+    expect(descriptor.getUint32(0, true)).toBe(0x08074b50);
+    expect(descriptor.getUint32(4, true)).toBe(crc32(text));
+    expect(descriptor.getUint32(8, true)).toBe(text.length);
+    expect(entries[1].offset).toBe(dataOffset + text.length + 16);
+  });
+
+  it('writes ZIP64 sizes and offsets for a file above 4 GiB and the entries after it', async () => {
+    const recording = recordingOutput();
+    const { output } = recording;
+    const writer = new ZipStreamWriter(output);
+    const size = 5 * GiB;
+    await writer.addFile('big.bin', new SparseBlob(size), 0);
+    await writer.addFile('small.txt', new Blob(['hi']), 0);
+    await writer.close();
+
+    const local = headerAt(recording, 0);
+    expect(local.getUint16(4, true)).toBe(45);
+    expect(local.getUint32(18, true)).toBe(MAX_32_BIT);
+    expect(local.getUint32(22, true)).toBe(MAX_32_BIT);
+    const localZip64 = extraFields(local, 30 + local.getUint16(26, true), local.getUint16(28, true)).get(0x0001)!;
+    expect(localZip64.byteLength).toBe(16);
+
+    const descriptor = headerAt(recording, local.byteLength + size);
+    expect(descriptor.byteLength).toBe(24);
+    expect(getUint64(descriptor, 8)).toBe(size);
+    expect(getUint64(descriptor, 16)).toBe(size);
+
+    const { end, zip64End, entries, centralDirectoryOffset } = readCentralDirectory(recording);
+    const [big, small] = entries;
+    expect(big).toMatchObject({ name: 'big.bin', version: 45, size: MAX_32_BIT, offset: 0 });
+    expect([getUint64(big.zip64!, 0), getUint64(big.zip64!, 8)]).toEqual([size, size]);
+    expect(big.zip64!.byteLength).toBe(16);
+
+    const smallOffset = local.byteLength + size + 24;
+    expect(small).toMatchObject({ name: 'small.txt', version: 45, crc: crc32('hi'), size: 2, offset: MAX_32_BIT });
+    expect(small.zip64!.byteLength).toBe(8);
+    expect(getUint64(small.zip64!, 0)).toBe(smallOffset);
+    expect(headerAt(recording, smallOffset).getUint32(0, true)).toBe(0x04034b50);
+
+    expect(end.getUint32(16, true)).toBe(MAX_32_BIT);
+    expect(end.getUint16(10, true)).toBe(2);
+    expect(getUint64(zip64End!, 24)).toBe(2);
+    expect(centralDirectoryOffset).toBeGreaterThan(4 * GiB);
+  });
+
+  it('switches to a ZIP64 end record when there are more entries than 16 bits can count', async () => {
+    const recording = recordingOutput();
+    const { output } = recording;
+    const writer = new ZipStreamWriter(output);
+    const count = 0x10000;
+    for (let i = 0; i < count; i++) await writer.addDirectory(`d${i}`, 0);
+    await writer.close();
+
+    const { end, zip64End, entries } = readCentralDirectory(recording);
+    expect(end.getUint16(8, true)).toBe(0xffff);
+    expect(end.getUint16(10, true)).toBe(0xffff);
+    expect(getUint64(zip64End!, 24)).toBe(count);
+    expect(entries).toHaveLength(count);
+    expect(entries[count - 1].name).toBe(`d${count - 1}/`);
+  }, 30_000);
+
+  it('refuses entries once it is closed', async () => {
+    const recording = recordingOutput();
+    const { output } = recording;
+    const writer = new ZipStreamWriter(output);
+    await writer.close();
+    await writer.close();
+    expect(recording.writes).toHaveLength(1);
+    await expect(writer.addDirectory('late', 0)).rejects.toThrow(/already been closed/);
+  });
+});
@@ -0,0 +1,316 @@
+// --- ZIP archives ---
+// Packs received files into an uncompressed ("stored") ZIP archive so a folder can be saved in one
+// download with its tree intact. Recovered files are mostly already compressed, so deflating them
+// would cost time for little gain. Paths are stored as UTF-8.
+//
+// The archive is written front to back as a stream, so it never has to be held in memory. Each
+// file's CRC-32 is computed while its bytes are copied and follows them in a data descriptor.
+//
+// ZIP64 records are added wherever a size, an offset or the entry count outgrows its classic field.
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06064b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIGNATURE = 0x07064b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+// Version 2.0 covers folders and stored entries; 4.5 is needed once ZIP64 fields appear.
+const ZIP_VERSION = 20;
+const ZIP64_VERSION = 45;
+// General purpose flag bits: 3, sizes and CRC-32 follow the data; 11, file names are UTF-8.
+const DATA_DESCRIPTOR_FLAG = 0x0008;
+const UTF8_FLAG = 0x0800;
+const ZIP64_EXTRA_FIELD = 0x0001;
+// Extended timestamp: the modification time in Unix seconds, as MS-DOS times are local and coarse.
+const EXTENDED_TIMESTAMP_EXTRA_FIELD = 0x5455;
+const MS_DOS_DIRECTORY_ATTRIBUTE = 0x10;
+const MAX_16_BIT = 0xffff;
+const MAX_32_BIT = 0xffffffff;
+// Files are copied into the archive in slices of this size.
+const COPY_SLICE_SIZE = 4 * 1024 * 1024; // 4 MB
+
+/**
+ * Where the archive bytes go, in order. File contents are handed over as slices of the original
+ * blobs, so a destination that collects parts into a Blob only references them.
+ */
+export type ZipOutput = {
+  write(data: Uint8Array | Blob): Promise<void>;
+};
+
+export type ZipEntry = {
+  // Relative path inside the archive, with "/" separators.
+  path: string;
+  // The file's contents, or `null` for an (empty) folder.
+  data: Blob | null;
+  // Modification time in milliseconds since the epoch.
+  lastModified: number;
+};
+
+type CentralDirectoryEntry = {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  lastModified: number;
+  isDirectory: boolean;
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32Update = (crc: number, bytes: Uint8Array): number => {
+  let c = crc;
+  for (let i = 0; i < bytes.length; i++) {
+    c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  }
+  return c;
+};
+
+// MS-DOS dates start in 1980 and end in 2107, and only count every other second.
+const toDosDateTime = (timestamp: number): { date: number; time: number } => {
+  const d = new Date(timestamp);
+  const year = d.getFullYear();
+  if (!Number.isFinite(timestamp) || year < 1980) return { date: (1 << 5) | 1, time: 0 };
+  if (year > 2107) return { date: (127 << 9) | (12 << 5) | 31, time: (23 << 11) | (59 << 5) | 29 };
+  return {
+    date: ((year - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1),
+  };
+};
+
+const toUnixSeconds = (timestamp: number): number =>
+  Number.isFinite(timestamp) ? Math.min(0x7fffffff, Math.max(0, Math.floor(timestamp / 1000))) : 0;
+
+// DataView has no 64-bit setter for plain numbers; archive sizes stay far below 2^53.
+const setUint64 = (view: DataView, offset: number, value: number) => {
+  view.setUint32(offset, value % 0x100000000, true);
+  view.setUint32(offset + 4, Math.floor(value / 0x100000000), true);
+};
+
+const extendedTimestampField = (lastModified: number): Uint8Array => {
+  const field = new Uint8Array(9);
+  const view = new DataView(field.buffer);
+  view.setUint16(0, EXTENDED_TIMESTAMP_EXTRA_FIELD, true);
+  view.setUint16(2, 5, true);
+  view.setUint8(4, 1); // modification time present
+  view.setUint32(5, toUnixSeconds(lastModified), true);
+  return field;
+};
+
+const zip64Field = (values: number[]): Uint8Array => {
+  const field = new Uint8Array(4 + values.length * 8);
+  const view = new DataView(field.buffer);
+  view.setUint16(0, ZIP64_EXTRA_FIELD, true);
+  view.setUint16(2, values.length * 8, true);
+  values.forEach((value, i) => setUint64(view, 4 + i * 8, value));
+  return field;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+/**
+ * Writes a ZIP archive entry by entry. Entries must be added one at a time, each after the previous one's promise resolves.
+ */
+export class ZipStreamWriter {
+  private output: ZipOutput;
+  private encoder = new TextEncoder();
+  private entries: CentralDirectoryEntry[] = [];
+  private offset = 0;
+  private closed = false;
+
+  /**
+   * @param output Receives the archive's bytes in order.
+   */
+  constructor(output: ZipOutput) {
+    this.output = output;
+  }
+
+  /**
+   * Adds a folder, which is how empty folders survive in an archive.
+   * @param path The folder's relative path.
+   * @param lastModified The folder's modification time in milliseconds since the epoch.
+   */
+  public async addDirectory(path: string, lastModified: number): Promise<void> {
+    const name = this.encoder.encode(`${path.replace(/\/$/, '')}/`);
+    const offset = this.offset;
+    await this.write(this.localHeader(name, lastModified, false, false));
+    this.entries.push({ name, crc: 0, size: 0, offset, lastModified, isDirectory: true });
+  }
+
+  /**
+   * Adds a file, copying its contents slice by slice.
+   * @param path The file's relative path.
+   * @param data The file's contents.
+   * @param lastModified The file's modification time in milliseconds since the epoch.
+   */
+  public async addFile(path: string, data: Blob, lastModified: number): Promise<void> {
+    const name = this.encoder.encode(path);
+    const offset = this.offset;
+    const isZip64 = data.size >= MAX_32_BIT;
+    await this.write(this.localHeader(name, lastModified, true, isZip64));
+
+    let crc = 0xffffffff;
+    for (let position = 0; position < data.size; position += COPY_SLICE_SIZE) {
+      const slice = data.slice(position, position + COPY_SLICE_SIZE);
+      crc = crc32Update(crc, new Uint8Array(await slice.arrayBuffer()));
+      await this.write(slice);
+    }
+    crc = (crc ^ 0xffffffff) >>> 0;
+
+    const descriptor = new Uint8Array(isZip64 ? 24 : 16);
+    const view = new DataView(descriptor.buffer);
+    view.setUint32(0, DATA_DESCRIPTOR_SIGNATURE, true);
+    view.setUint32(4, crc, true);
+    if (isZip64) {
+      setUint64(view, 8, data.size);
+      setUint64(view, 16, data.size);
+    } else {
+      view.setUint32(8, data.size, true);
+      view.setUint32(12, data.size, true);
+    }
+    await this.write(descriptor);
+    this.entries.push({ name, crc, size: data.size, offset, lastModified, isDirectory: false });
+  }
+
+  /**
+   * Writes the central directory. No entries can be added afterwards.
+   */
+  public async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    const centralDirectoryOffset = this.offset;
+    for (const entry of this.entries) {
+      await this.write(this.centralDirectoryHeader(entry));
+    }
+    const centralDirectorySize = this.offset - centralDirectoryOffset;
+    const count = this.entries.length;
+    const needsZip64 = count > MAX_16_BIT || centralDirectoryOffset >= MAX_32_BIT || centralDirectorySize >= MAX_32_BIT;
+
+    if (needsZip64) {
+      const zip64EndOffset = this.offset;
+      const record = new Uint8Array(56);
+      const recordView = new DataView(record.buffer);
+      recordView.setUint32(0, ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+      setUint64(recordView, 4, record.length - 12);
+      recordView.setUint16(12, ZIP64_VERSION, true);
+      recordView.setUint16(14, ZIP64_VERSION, true);
+      // Both disk numbers stay zero: the archive is a single file.
+      setUint64(recordView, 24, count);
+      setUint64(recordView, 32, count);
+      setUint64(recordView, 40, centralDirectorySize);
+      setUint64(recordView, 48, centralDirectoryOffset);
+
+      const locator = new Uint8Array(20);
+      const locatorView = new DataView(locator.buffer);
+      locatorView.setUint32(0, ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR_SIGNATURE, true);
+      setUint64(locatorView, 8, zip64EndOffset);
+      locatorView.setUint32(16, 1, true);
+      await this.write(concat([record, locator]));
+    }
+
+    const end = new Uint8Array(22);
+    const endView = new DataView(end.buffer);
+    endView.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+    endView.setUint16(8, Math.min(count, MAX_16_BIT), true);
+    endView.setUint16(10, Math.min(count, MAX_16_BIT), true);
+    endView.setUint32(12, Math.min(centralDirectorySize, MAX_32_BIT), true);
+    endView.setUint32(16, Math.min(centralDirectoryOffset, MAX_32_BIT), true);
+    await this.write(end);
+  }
+
+  private async write(data: Uint8Array | Blob) {
+    await this.output.write(data);
+    this.offset += data instanceof Blob ? data.size : data.length;
+  }
+
+  // With a data descriptor, the CRC-32 and sizes in the local header are zero; ZIP64 entries mark
+  // them as stored in the (likewise zeroed) ZIP64 extra field.
+  private localHeader(name: Uint8Array, lastModified: number, hasDescriptor: boolean, isZip64: boolean): Uint8Array {
+    if (this.closed) {
+      throw new Error('The ZIP archive has already been closed.');
+    }
+    const extra = concat([...(isZip64 ? [zip64Field([0, 0])] : []), extendedTimestampField(lastModified)]);
+    const header = new Uint8Array(30 + name.length + extra.length);
+    const view = new DataView(header.buffer);
+    const { date, time } = toDosDateTime(lastModified);
+    view.setUint32(0, LOCAL_FILE_HEADER_SIGNATURE, true);
+    view.setUint16(4, isZip64 ? ZIP64_VERSION : ZIP_VERSION, true);
+    view.setUint16(6, UTF8_FLAG | (hasDescriptor ? DATA_DESCRIPTOR_FLAG : 0), true);
+    view.setUint16(8, 0, true); // stored
+    view.setUint16(10, time, true);
+    view.setUint16(12, date, true);
+    view.setUint32(14, 0, true);
+    view.setUint32(18, isZip64 ? MAX_32_BIT : 0, true);
+    view.setUint32(22, isZip64 ? MAX_32_BIT : 0, true);
+    view.setUint16(26, name.length, true);
+    view.setUint16(28, extra.length, true);
+    header.set(name, 30);
+    header.set(extra, 30 + name.length);
+    return header;
+  }
+
+  private centralDirectoryHeader(entry: CentralDirectoryEntry): Uint8Array {
+    const sizeOverflows = entry.size >= MAX_32_BIT;
+    const offsetOverflows = entry.offset >= MAX_32_BIT;
+    const zip64Values = [...(sizeOverflows ? [entry.size, entry.size] : []), ...(offsetOverflows ? [entry.offset] : [])];
+    const extra = concat([...(zip64Values.length > 0 ? [zip64Field(zip64Values)] : []), extendedTimestampField(entry.lastModified)]);
+    const version = zip64Values.length > 0 ? ZIP64_VERSION : ZIP_VERSION;
+    const header = new Uint8Array(46 + entry.name.length + extra.length);
+    const view = new DataView(header.buffer);
+    const { date, time } = toDosDateTime(entry.lastModified);
+    view.setUint32(0, CENTRAL_DIRECTORY_SIGNATURE, true);
+    view.setUint16(4, version, true);
+    view.setUint16(6, version, true);
+    view.setUint16(8, UTF8_FLAG | (entry.isDirectory ? 0 : DATA_DESCRIPTOR_FLAG), true);
+    view.setUint16(10, 0, true);
+    view.setUint16(12, time, true);
+    view.setUint16(14, date, true);
+    view.setUint32(16, entry.crc, true);
+    view.setUint32(20, sizeOverflows ? MAX_32_BIT : entry.size, true);
+    view.setUint32(24, sizeOverflows ? MAX_32_BIT : entry.size, true);
+    view.setUint16(28, entry.name.length, true);
+    view.setUint16(30, extra.length, true);
+    // Comment length, disk number and internal attributes stay zero.
+    view.setUint32(38, entry.isDirectory ? MS_DOS_DIRECTORY_ATTRIBUTE : 0, true);
+    view.setUint32(42, offsetOverflows ? MAX_32_BIT : entry.offset, true);
+    header.set(entry.name, 46);
+    header.set(extra, 46 + entry.name.length);
+    return header;
+  }
+}
+
+/**
+ * Writes a complete archive of files and folders.
+ * @param entries The files and empty folders to include, by relative path.
+ * @param output Receives the archive's bytes in order.
+ * @param onProgress Called after each entry with the number of entries written so far.
+ */
+export async function writeZipArchive(entries: ZipEntry[], output: ZipOutput, onProgress?: (entriesWritten: number) => void): Promise<void> {
+  const writer = new ZipStreamWriter(output);
+  for (const [i, entry] of entries.entries()) {
+    if (entry.data) {
+      await writer.addFile(entry.path, entry.data, entry.lastModified);
+    } else {
+      await writer.addDirectory(entry.path, entry.lastModified);
+    }
+    onProgress?.(i + 1);
+  }
+  await writer.close();
+}
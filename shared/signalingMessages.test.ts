@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_SIGNALING_MESSAGE_BYTES, isValidRoomId, parseClientMessage, parseServerMessage } from './signalingMessages';
+
+const ROOM_ID = 'room-1';
+const PEER_ID = '8f14e45f-ceea-467f-a8f8-3b2a1c0d9e7b';
+const HEX_DIGEST = 'ab'.repeat(32);
+const PUBLIC_KEY = { kty: 'EC', crv: 'P-256', x: 'x-coordinate', y: 'y-coordinate' };
+
+const publicKeyPayload = (overrides: Record<string, unknown> = {}) => ({
+    roomId: ROOM_ID,
+    to: PEER_ID,
+    publicKeys: [PUBLIC_KEY],
+    cipherSuites: ['P256_AES256GCM'],
+    ...overrides,
+});
+
+const client = (type: string, payload?: unknown) => parseClientMessage(JSON.stringify({ type, payload }));
+const server = (type: string, payload?: unknown) => parseServerMessage(JSON.stringify({ type, payload }));
+
+describe('isValidRoomId', () => {
+    it('accepts short IDs of letters, digits and dashes', () => {
+        expect(isValidRoomId('abc-123')).toBe(true);
+        expect(isValidRoomId('a'.repeat(64))).toBe(true);
+    });
+
+    it('rejects empty, overlong and non-string IDs', () => {
+        expect(isValidRoomId('')).toBe(false);
+        expect(isValidRoomId('a'.repeat(65))).toBe(false);
+        expect(isValidRoomId('room/1')).toBe(false);
+        expect(isValidRoomId(42)).toBe(false);
+    });
+});
+
+describe('parseClientMessage', () => {
+    it('accepts a join-room message with or without a room ID', () => {
+        expect(client('join-room', { roomId: ROOM_ID, peerId: PEER_ID }).ok).toBe(true);
+        expect(client('join-room', { asHost: true, passphraseProtected: true }).ok).toBe(true);
+        expect(client('join-room').ok).toBe(true);
+    });
+
+    it('rejects a join-room message with fields of the wrong type', () => {
+        expect(client('join-room', { roomId: '../room' }).ok).toBe(false);
+        expect(client('join-room', { asHost: 'yes' }).ok).toBe(false);
+        expect(client('join-room', { passphraseProtected: 1 }).ok).toBe(false);
+    });
+
+    it('requires relayed messages to name their recipient', () => {
+        const payload = { roomId: ROOM_ID, commitment: HEX_DIGEST };
+        expect(client('key-commitment', { ...payload, to: PEER_ID }).ok).toBe(true);
+        expect(client('key-commitment', payload).ok).toBe(false);
+        expect(client('key-commitment', { ...payload, from: PEER_ID }).ok).toBe(false);
+    });
+
+    it('checks key commitments and confirmations are SHA-256 hex digests', () => {
+        expect(client('key-confirmation', { roomId: ROOM_ID, to: PEER_ID, confirmation: HEX_DIGEST }).ok).toBe(true);
+        expect(client('key-confirmation', { roomId: ROOM_ID, to: PEER_ID, confirmation: HEX_DIGEST.toUpperCase() }).ok).toBe(false);
+        expect(client('key-commitment', { roomId: ROOM_ID, to: PEER_ID, commitment: 'abcd' }).ok).toBe(false);
+    });
+
+    it('accepts a public key offer with an optional CPace share and signed identity', () => {
+        expect(client('public-key', publicKeyPayload()).ok).toBe(true);
+        expect(client('public-key', publicKeyPayload({ pakeShare: `02${HEX_DIGEST}` })).ok).toBe(true);
+        expect(client('public-key', publicKeyPayload({
+            identity: { deviceId: PEER_ID, name: 'Laptop', publicKey: PUBLIC_KEY, signature: 'cd'.repeat(64) },
+        })).ok).toBe(true);
+    });
+
+    it('rejects a public key offer with no keys, an invalid CPace share or a malformed identity', () => {
+        expect(client('public-key', publicKeyPayload({ publicKeys: [] })).ok).toBe(false);
+        expect(client('public-key', publicKeyPayload({ cipherSuites: ['aes; drop'] })).ok).toBe(false);
+        expect(client('public-key', publicKeyPayload({ pakeShare: `04${HEX_DIGEST}` })).ok).toBe(false);
+        expect(client('public-key', publicKeyPayload({
+            identity: { deviceId: PEER_ID, name: 'Laptop', publicKey: PUBLIC_KEY, signature: 'short' },
+        })).ok).toBe(false);
+    });
+
+    it('checks the shape of session descriptions and ICE candidates', () => {
+        expect(client('offer', { roomId: ROOM_ID, to: PEER_ID, sdp: { type: 'offer', sdp: 'v=0' } }).ok).toBe(true);
+        expect(client('offer', { roomId: ROOM_ID, to: PEER_ID, sdp: { type: 'bogus' } }).ok).toBe(false);
+        expect(client('ice-candidate', { roomId: ROOM_ID, to: PEER_ID, candidate: { candidate: 'candidate:1', sdpMLineIndex: 0 } }).ok).toBe(true);
+        expect(client('ice-candidate', { roomId: ROOM_ID, to: PEER_ID, candidate: { sdpMLineIndex: 0.5 } }).ok).toBe(false);
+    });
+
+    it('rejects messages that are too large, not JSON, untyped or of an unknown type', () => {
+        expect(parseClientMessage('x'.repeat(MAX_SIGNALING_MESSAGE_BYTES + 1))).toEqual({ ok: false, error: 'Message is too large.' });
+        expect(parseClientMessage('{not json')).toEqual({ ok: false, error: 'Message is not valid JSON.' });
+        expect(parseClientMessage(JSON.stringify({ payload: {} }))).toEqual({ ok: false, error: 'Message has no type.' });
+        expect(client('peer-joined', { peerId: PEER_ID, initiator: true })).toEqual({ ok: false, error: 'Unknown message type "peer-joined".' });
+        expect(client('toString').ok).toBe(false);
+    });
+});
+
+describe('parseServerMessage', () => {
+    it('accepts the messages the server sends', () => {
+        expect(server('room-joined', { roomId: ROOM_ID, peerId: PEER_ID, isHost: false, passphraseProtected: true }).ok).toBe(true);
+        expect(server('peer-joined', { peerId: PEER_ID, initiator: true }).ok).toBe(true);
+        expect(server('peer-left', { peerId: PEER_ID }).ok).toBe(true);
+        expect(server('error', { message: 'Room is full.' }).ok).toBe(true);
+    });
+
+    it('requires relayed messages to name their sender', () => {
+        const payload = { roomId: ROOM_ID, confirmation: HEX_DIGEST };
+        expect(server('key-confirmation', { ...payload, from: PEER_ID }).ok).toBe(true);
+        expect(server('key-confirmation', { ...payload, to: PEER_ID }).ok).toBe(false);
+    });
+
+    it('rejects messages only clients send', () => {
+        expect(server('join-room', { roomId: ROOM_ID }).ok).toBe(false);
+    });
+
+    it('returns the parsed message unchanged', () => {
+        const message = { type: 'peer-left', payload: { peerId: PEER_ID } };
+        expect(parseServerMessage(JSON.stringify(message))).toEqual({ ok: true, message });
+    });
+});
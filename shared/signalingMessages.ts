@@ -0,0 +1,178 @@
+// Message schema for the WebSocket signaling channel, shared by the browser client and the
+// signaling server. Every inbound message is validated at runtime with the parsers below
+// before either side acts on it.
+
+// Structural equivalents of the DOM types, so the server can use this module without the DOM lib.
+export type SessionDescription = { type: 'offer' | 'answer' | 'pranswer' | 'rollback'; sdp?: string };
+export type IceCandidate = {
+    candidate?: string;
+    sdpMid?: string | null;
+    sdpMLineIndex?: number | null;
+    usernameFragment?: string | null;
+};
+export type PublicKeyJwk = { kty?: string; crv?: string; x?: string; y?: string; ext?: boolean; key_ops?: string[] };
+// A device's long-term identity key and its signature over the key offer it accompanies.
+export type SignedIdentityPayload = { deviceId: string; name: string; publicKey: PublicKeyJwk; signature: string };
+
+// Payloads of the messages the server forwards from one peer to another.
+type RelayedPayloads = {
+    'offer': { sdp: SessionDescription };
+    'answer': { sdp: SessionDescription };
+    'ice-candidate': { candidate: IceCandidate };
+    'key-commitment': { commitment: string };
+    // One public key per supported key agreement, and the supported cipher suites, most preferred first.
+    // In a passphrase-protected room the offer carries a CPace share. Devices with a persistent identity sign the offer with it.
+    'public-key': { publicKeys: PublicKeyJwk[]; cipherSuites: string[]; pakeShare?: string; identity?: SignedIdentityPayload };
+    'key-confirmation': { confirmation: string };
+};
+type RelayedType = keyof RelayedPayloads;
+
+// A room has one host (the sender who created it) and any number of receivers. Receivers only
+// talk to the host, so every relayed message names its recipient (`to`) and the server stamps
+// the sender (`from`) before forwarding it.
+export type OutgoingRelayMessage = { [K in RelayedType]: { type: K; payload: RelayedPayloads[K] & { roomId: string; to: string } } }[RelayedType];
+export type RelayedSignalingMessage = { [K in RelayedType]: { type: K; payload: RelayedPayloads[K] & { roomId: string; from: string } } }[RelayedType];
+
+// Messages a client sends to the server. `peerId` lets a receiver keep its identity across a page reload;
+// `asHost` is set by senders, who may create rooms, while receivers may only join existing ones.
+// A host sets `passphraseProtected` when its peers must know the room passphrase. The server only
+// relays the flag; the passphrase itself never leaves the browser.
+export type ClientSignalingMessage =
+    | { type: 'join-room'; payload: { roomId?: string; peerId?: string; asHost?: boolean; passphraseProtected?: boolean } }
+    | OutgoingRelayMessage;
+
+// Messages the server sends to a client.
+export type ServerSignalingMessage =
+    | RelayedSignalingMessage
+    | { type: 'room-joined'; payload: { roomId: string; peerId: string; isHost: boolean; passphraseProtected: boolean } }
+    | { type: 'peer-joined'; payload: { peerId: string; initiator: boolean } }
+    | { type: 'peer-left'; payload: { peerId: string } }
+    | { type: 'error'; payload: { message: string } };
+
+export const RELAYED_MESSAGE_TYPES: readonly RelayedType[] = [
+    'offer', 'answer', 'ice-candidate', 'key-commitment', 'public-key', 'key-confirmation',
+];
+
+// Upper bound for a single signaling message; SDP blobs are by far the largest payload.
+export const MAX_SIGNALING_MESSAGE_BYTES = 64 * 1024;
+
+const ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/;
+const SDP_TYPES = ['offer', 'answer', 'pranswer', 'rollback'];
+
+// --- Validation helpers ---
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+const isOptional = (value: unknown, check: (v: unknown) => boolean) => value === undefined || check(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNullableString = (value: unknown) => value === null || isString(value);
+const isNullableInteger = (value: unknown) => value === null || Number.isInteger(value);
+
+export const isValidRoomId = (value: unknown): value is string => isString(value) && ID_PATTERN.test(value);
+export const isValidPeerId = isValidRoomId;
+
+const isSessionDescription = (value: unknown) =>
+    isRecord(value) && isString(value.type) && SDP_TYPES.includes(value.type) && isOptional(value.sdp, isString);
+
+const isIceCandidate = (value: unknown) =>
+    isRecord(value) &&
+    isOptional(value.candidate, isString) &&
+    isOptional(value.sdpMid, isNullableString) &&
+    isOptional(value.sdpMLineIndex, isNullableInteger) &&
+    isOptional(value.usernameFragment, isNullableString);
+
+const isPublicKeyJwk = (value: unknown) =>
+    isRecord(value) && isString(value.kty) && isString(value.crv) && isString(value.x) && isOptional(value.y, isString);
+
+const isHexDigest = (value: unknown) => isString(value) && /^[0-9a-f]{64}$/.test(value);
+
+const isListOf = (value: unknown, maxLength: number, check: (v: unknown) => boolean) =>
+    Array.isArray(value) && value.length >= 1 && value.length <= maxLength && value.every(check);
+const isCipherSuiteName = (value: unknown) => isString(value) && /^[A-Z0-9_]{1,64}$/.test(value);
+// A compressed P-256 point.
+const isPakeShare = (value: unknown) => isString(value) && /^0[23][0-9a-f]{64}$/.test(value);
+
+// ECDSA P-256 signatures are 64 bytes.
+const isSignedIdentity = (value: unknown) =>
+    isRecord(value) &&
+    isValidPeerId(value.deviceId) &&
+    isString(value.name) && value.name.length <= 64 &&
+    isPublicKeyJwk(value.publicKey) &&
+    isString(value.signature) && /^[0-9a-f]{128}$/.test(value.signature);
+
+const relayedPayloadValidators: { [K in RelayedType]: (payload: UnknownRecord) => boolean } = {
+    'offer': p => isValidRoomId(p.roomId) && isSessionDescription(p.sdp),
+    'answer': p => isValidRoomId(p.roomId) && isSessionDescription(p.sdp),
+    'ice-candidate': p => isValidRoomId(p.roomId) && isIceCandidate(p.candidate),
+    'key-commitment': p => isValidRoomId(p.roomId) && isHexDigest(p.commitment),
+    'public-key': p =>
+        isValidRoomId(p.roomId) && isListOf(p.publicKeys, 4, isPublicKeyJwk) && isListOf(p.cipherSuites, 16, isCipherSuiteName) &&
+        isOptional(p.pakeShare, isPakeShare) && isOptional(p.identity, isSignedIdentity),
+    'key-confirmation': p => isValidRoomId(p.roomId) && isHexDigest(p.confirmation),
+};
+
+// Adds the addressing field each direction of a relayed message must carry.
+const withAddress = (field: 'to' | 'from') => Object.fromEntries(
+    Object.entries(relayedPayloadValidators).map(([type, validate]) => [type, (p: UnknownRecord) => isValidPeerId(p[field]) && validate(p)])
+) as typeof relayedPayloadValidators;
+
+const clientPayloadValidators: { [K in ClientSignalingMessage['type']]: (payload: UnknownRecord) => boolean } = {
+    ...withAddress('to'),
+    // An empty room ID asks the server to create a new room.
+    'join-room': p =>
+        isOptional(p.roomId, v => v === '' || isValidRoomId(v)) &&
+        isOptional(p.peerId, isValidPeerId) &&
+        isOptional(p.asHost, v => typeof v === 'boolean') &&
+        isOptional(p.passphraseProtected, v => typeof v === 'boolean'),
+};
+
+const serverPayloadValidators: { [K in ServerSignalingMessage['type']]: (payload: UnknownRecord) => boolean } = {
+    ...withAddress('from'),
+    'room-joined': p =>
+        isValidRoomId(p.roomId) && isValidPeerId(p.peerId) && typeof p.isHost === 'boolean' && typeof p.passphraseProtected === 'boolean',
+    'peer-joined': p => isValidPeerId(p.peerId) && typeof p.initiator === 'boolean',
+    'peer-left': p => isValidPeerId(p.peerId),
+    'error': p => isString(p.message),
+};
+
+export type ParseResult<T> = { ok: true; message: T } | { ok: false; error: string };
+
+function parseMessage<T>(raw: string, validators: Record<string, (payload: UnknownRecord) => boolean>): ParseResult<T> {
+    if (raw.length > MAX_SIGNALING_MESSAGE_BYTES) {
+        return { ok: false, error: 'Message is too large.' };
+    }
+    let data: unknown;
+    try {
+        data = JSON.parse(raw);
+    } catch {
+        return { ok: false, error: 'Message is not valid JSON.' };
+    }
+    if (!isRecord(data) || !isString(data.type)) {
+        return { ok: false, error: 'Message has no type.' };
+    }
+    const validator = Object.prototype.hasOwnProperty.call(validators, data.type) ? validators[data.type] : undefined;
+    if (!validator) {
+        return { ok: false, error: `Unknown message type "${data.type}".` };
+    }
+    const payload = data.payload === undefined ? {} : data.payload;
+    if (!isRecord(payload) || !validator(payload)) {
+        return { ok: false, error: `Malformed payload for "${data.type}".` };
+    }
+    return { ok: true, message: data as T };
+}
+
+/**
+ * Parses and validates a raw message received by the signaling server.
+ * @param raw The text frame received from a client.
+ * @returns The typed message, or the reason it was rejected.
+ */
+export const parseClientMessage = (raw: string) => parseMessage<ClientSignalingMessage>(raw, clientPayloadValidators);
+
+/**
+ * Parses and validates a raw message received by a client from the signaling server.
+ * @param raw The text frame received from the server.
+ * @returns The typed message, or the reason it was rejected.
+ */
+export const parseServerMessage = (raw: string) => parseMessage<ServerSignalingMessage>(raw, serverPayloadValidators);
@@ -0,0 +1,149 @@
+// A simple IndexedDB wrapper for this device's long-term signing identity and the
+// identities of devices the user has chosen to trust.
+
+const DB_NAME = 'swaz-identity';
+const DB_VERSION = 1;
+const IDENTITY_STORE = 'identity';
+const TRUSTED_STORE = 'trusted-devices';
+const IDENTITY_KEY = 'device';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Establishes a connection to the IndexedDB database.
+function getDB(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+            request.onerror = () => {
+                reject('Error opening IndexedDB.');
+                dbPromise = null;
+            };
+
+            request.onsuccess = () => {
+                resolve(request.result);
+            };
+
+            // This event is only triggered for version changes.
+            request.onupgradeneeded = (event) => {
+                const db = (event.target as IDBOpenDBRequest).result;
+                // A single record holding this device's identity.
+                if (!db.objectStoreNames.contains(IDENTITY_STORE)) {
+                    db.createObjectStore(IDENTITY_STORE);
+                }
+                // One record per trusted device, keyed by its device ID.
+                if (!db.objectStoreNames.contains(TRUSTED_STORE)) {
+                    db.createObjectStore(TRUSTED_STORE, { keyPath: 'deviceId' });
+                }
+            };
+        });
+    }
+    return dbPromise;
+}
+
+export interface DeviceIdentity {
+    // Random, stable ID that lets peers recognise this device across sessions.
+    deviceId: string;
+    // Name shown to peers, chosen by the user.
+    name: string;
+    // The private key is non-extractable; IndexedDB stores the CryptoKey object itself.
+    keyPair: CryptoKeyPair;
+    publicKey: JsonWebKey;
+    createdAt: number;
+}
+
+export interface TrustedDevice {
+    deviceId: string;
+    name: string;
+    publicKey: JsonWebKey;
+    addedAt: number;
+}
+
+/**
+ * Saves this device's identity, replacing any previous one.
+ * @param identity - The identity to keep.
+ */
+export async function saveDeviceIdentity(identity: DeviceIdentity): Promise<void> {
+    const db = await getDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(IDENTITY_STORE, 'readwrite');
+        const request = transaction.objectStore(IDENTITY_STORE).put(identity, IDENTITY_KEY);
+
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject('Failed to save device identity to IndexedDB.');
+    });
+}
+
+/**
+ * Retrieves this device's identity.
+ * @returns A promise that resolves with the identity, or null if none has been created.
+ */
+export async function getDeviceIdentity(): Promise<DeviceIdentity | null> {
+    const db = await getDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(IDENTITY_STORE, 'readonly');
+        const request = transaction.objectStore(IDENTITY_STORE).get(IDENTITY_KEY);
+
+        request.onsuccess = () => resolve(request.result || null);
+        request.onerror = () => reject('Failed to retrieve device identity from IndexedDB.');
+    });
+}
+
+/**
+ * Deletes this device's identity. Peers that trusted it will see a new identity next time.
+ */
+export async function clearDeviceIdentity(): Promise<void> {
+    const db = await getDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(IDENTITY_STORE, 'readwrite');
+        const request = transaction.objectStore(IDENTITY_STORE).delete(IDENTITY_KEY);
+
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject('Failed to clear device identity from IndexedDB.');
+    });
+}
+
+/**
+ * Adds a device to the trusted list, or replaces the key stored for it.
+ * @param device - The device and the identity key to trust for it.
+ */
+export async function saveTrustedDevice(device: TrustedDevice): Promise<void> {
+    const db = await getDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(TRUSTED_STORE, 'readwrite');
+        const request = transaction.objectStore(TRUSTED_STORE).put(device);
+
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject('Failed to save trusted device to IndexedDB.');
+    });
+}
+
+/**
+ * Retrieves every trusted device.
+ * @returns A promise that resolves with the trusted devices, oldest first.
+ */
+export async function getTrustedDevices(): Promise<TrustedDevice[]> {
+    const db = await getDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(TRUSTED_STORE, 'readonly');
+        const request = transaction.objectStore(TRUSTED_STORE).getAll();
+
+        request.onsuccess = () => resolve((request.result as TrustedDevice[]).sort((a, b) => a.addedAt - b.addedAt));
+        request.onerror = () => reject('Failed to retrieve trusted devices from IndexedDB.');
+    });
+}
+
+/**
+ * Removes a device from the trusted list.
+ * @param deviceId - The device to forget.
+ */
+export async function removeTrustedDevice(deviceId: string): Promise<void> {
+    const db = await getDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(TRUSTED_STORE, 'readwrite');
+        const request = transaction.objectStore(TRUSTED_STORE).delete(deviceId);
+
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject('Failed to remove trusted device from IndexedDB.');
+    });
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { getRelativePath, splitRelativePath, withRelativePath } from './relativePaths';
+
+describe('splitRelativePath', () => {
+    it('splits a path into its folder and file names', () => {
+        expect(splitRelativePath('Photos/2019/img.jpg')).toEqual(['Photos', '2019', 'img.jpg']);
+        expect(splitRelativePath('notes.txt')).toEqual(['notes.txt']);
+    });
+
+    it('rejects empty names, dot segments and absolute paths', () => {
+        expect(splitRelativePath('')).toBeNull();
+        expect(splitRelativePath('Photos//img.jpg')).toBeNull();
+        expect(splitRelativePath('Photos/')).toBeNull();
+        expect(splitRelativePath('.')).toBeNull();
+        expect(splitRelativePath('Photos/./img.jpg')).toBeNull();
+        expect(splitRelativePath('..')).toBeNull();
+        expect(splitRelativePath('../secret.txt')).toBeNull();
+        expect(splitRelativePath('Photos/../../secret.txt')).toBeNull();
+        expect(splitRelativePath('/etc/passwd')).toBeNull();
+    });
+
+    it('rejects paths nested too deeply', () => {
+        expect(splitRelativePath(Array(64).fill('a').join('/'))).toHaveLength(64);
+        expect(splitRelativePath(Array(65).fill('a').join('/'))).toBeNull();
+    });
+
+    it('replaces characters that are not allowed in file names', () => {
+        expect(splitRelativePath('C:\\Windows/a<b>?.txt')).toEqual(['C__Windows', 'a_b__.txt']);
+        expect(splitRelativePath('tab\there')).toEqual(['tab_here']);
+    });
+
+    it('rejects anything that is not a string', () => {
+        expect(splitRelativePath(42 as unknown as string)).toBeNull();
+    });
+});
+
+describe('withRelativePath', () => {
+    it('sets the path that getRelativePath reports', () => {
+        const file = new File(['x'], 'img.jpg');
+        expect(getRelativePath(file)).toBe('img.jpg');
+        expect(withRelativePath(file, 'Photos/img.jpg')).toBe(file);
+        expect(getRelativePath(file)).toBe('Photos/img.jpg');
+    });
+});
@@ -0,0 +1,38 @@
+// Helpers for the folder structure of a transfer. Paths are relative to the folder the user
+// dropped or picked, use "/" as the separator and never start with one: "Photos/2019/img.jpg".
+
+// Paths deeper than this are not recreated; no real recovered folder comes close.
+const MAX_PATH_DEPTH = 64;
+// Characters that are not allowed in a file or folder name on common file systems.
+const UNSAFE_NAME_CHARACTERS = /[\\:*?"<>|\u0000-\u001f]/g;
+
+/**
+ * Gets the path of a file within the folder it was selected from.
+ * @param file A selected or dropped file.
+ * @returns The relative path, or just the file name for a loose file.
+ */
+export const getRelativePath = (file: File): string => file.webkitRelativePath || file.name;
+
+/**
+ * Records where a file sits in a dropped folder. Browsers only fill in `webkitRelativePath`
+ * for folders picked through a file input, so dropped files get it set here.
+ * @param file The dropped file.
+ * @param path Its path relative to the dropped folder's parent.
+ * @returns The same file.
+ */
+export const withRelativePath = (file: File, path: string): File => {
+    Object.defineProperty(file, 'webkitRelativePath', { value: path, configurable: true });
+    return file;
+};
+
+/**
+ * Splits a relative path received from a peer into names that are safe to create on disk.
+ * @param path The path as the peer sent it.
+ * @returns The folder and file names, or `null` if the path is empty, absolute or climbs out of its folder.
+ */
+export const splitRelativePath = (path: string): string[] | null => {
+    if (typeof path !== 'string' || path.startsWith('/')) return null;
+    const names = path.split('/');
+    if (names.length > MAX_PATH_DEPTH || names.some(name => name === '' || name === '.' || name === '..')) return null;
+    return names.map(name => name.replace(UNSAFE_NAME_CHARACTERS, '_'));
+};
@@ -37,8 +37,15 @@ function getDB(): Promise<IDBDatabase> {
 
 export interface ScheduledJob {
     files: File[];
+    // Relative path of each file, by index. Stored separately, as IndexedDB does not keep the paths of dropped files.
+    paths?: string[];
+    // Empty folders in the selection.
+    directories?: string[];
     scheduledTime: number;
     roomId: string;
+    // Whether the room has a passphrase. The passphrase itself is never stored, so after a reload
+    // the host has to enter it again before the room is recreated.
+    passphraseProtected?: boolean;
 }
 
 /**
@@ -0,0 +1,175 @@
+// A simple IndexedDB wrapper for persisting partially received files so that
+// a transfer can be resumed after a page reload or a dropped peer connection.
+
+const DB_NAME = 'swaz-transfer-resume';
+const DB_VERSION = 2;
+const FILES_STORE = 'files';
+const CHUNKS_STORE = 'chunks';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Establishes a connection to the IndexedDB database.
+function getDB(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+            request.onerror = () => {
+                reject('Error opening IndexedDB.');
+                dbPromise = null;
+            };
+
+            request.onsuccess = () => {
+                resolve(request.result);
+            };
+
+            // This event is only triggered for version changes.
+            request.onupgradeneeded = (event) => {
+                const db = (event.target as IDBOpenDBRequest).result;
+                // One record per partially received file, keyed by fileId.
+                if (!db.objectStoreNames.contains(FILES_STORE)) {
+                    db.createObjectStore(FILES_STORE);
+                }
+                // One record per received chunk, keyed by [fileId, chunkIndex].
+                if (!db.objectStoreNames.contains(CHUNKS_STORE)) {
+                    db.createObjectStore(CHUNKS_STORE);
+                } else if (event.oldVersion < 2) {
+                    // Version 1 stored bare ArrayBuffers without Merkle proofs, which can no longer be verified.
+                    request.transaction!.objectStore(CHUNKS_STORE).clear();
+                }
+            };
+        });
+    }
+    return dbPromise;
+}
+
+// Key range covering every chunk stored for a single file.
+const chunkRangeFor = (fileId: string) => IDBKeyRange.bound([fileId, 0], [fileId, Infinity]);
+
+export interface ResumableFileRecord {
+    fileId: string;
+    name: string;
+    size: number;
+    totalChunks: number;
+    fullFileChecksum: string;
+    // Stored chunks are only reused for a file with the same chunk grid and Merkle root.
+    chunkSize: number;
+    merkleRoot: string;
+    updatedAt: number;
+}
+
+export interface StoredChunk {
+    data: ArrayBuffer;
+    // The Merkle proof the chunk arrived with, so it can be checked again when it is reused.
+    proof: string[];
+}
+
+/**
+ * Saves (or refreshes) the record describing a partially received file.
+ * @param record - The metadata needed to decide whether stored chunks can be reused.
+ */
+export async function saveResumableFile(record: ResumableFileRecord): Promise<void> {
+    const db = await getDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(FILES_STORE, 'readwrite');
+        const store = transaction.objectStore(FILES_STORE);
+        const request = store.put(record, record.fileId);
+
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject('Failed to save resumable file to IndexedDB.');
+    });
+}
+
+/**
+ * Retrieves the record for a partially received file.
+ * @param fileId - The protocol file ID.
+ * @returns A promise that resolves with the record, or null if none is stored.
+ */
+export async function getResumableFile(fileId: string): Promise<ResumableFileRecord | null> {
+    const db = await getDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(FILES_STORE, 'readonly');
+        const store = transaction.objectStore(FILES_STORE);
+        const request = store.get(fileId);
+
+        request.onsuccess = () => {
+            resolve(request.result || null);
+        };
+        request.onerror = () => {
+            reject('Failed to retrieve resumable file from IndexedDB.');
+        };
+    });
+}
+
+/**
+ * Persists a single verified, decrypted chunk.
+ * @param fileId - The protocol file ID the chunk belongs to.
+ * @param chunkIndex - The index of the chunk within the file.
+ * @param chunk - The plaintext chunk bytes and their Merkle proof.
+ */
+export async function saveChunk(fileId: string, chunkIndex: number, chunk: StoredChunk): Promise<void> {
+    const db = await getDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(CHUNKS_STORE, 'readwrite');
+        const store = transaction.objectStore(CHUNKS_STORE);
+        const request = store.put(chunk, [fileId, chunkIndex]);
+
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject('Failed to save chunk to IndexedDB.');
+    });
+}
+
+/**
+ * Lists the indexes of every chunk stored for a file, without loading the chunk bytes.
+ * @param fileId - The protocol file ID.
+ * @returns A promise that resolves with the stored chunk indexes in ascending order.
+ */
+export async function getStoredChunkIndexes(fileId: string): Promise<number[]> {
+    const db = await getDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(CHUNKS_STORE, 'readonly');
+        const store = transaction.objectStore(CHUNKS_STORE);
+        const request = store.getAllKeys(chunkRangeFor(fileId));
+
+        request.onsuccess = () => {
+            resolve((request.result as [string, number][]).map(([, chunkIndex]) => chunkIndex));
+        };
+        request.onerror = () => reject('Failed to retrieve stored chunk indexes from IndexedDB.');
+    });
+}
+
+/**
+ * Retrieves a single stored chunk.
+ * @param fileId - The protocol file ID.
+ * @param chunkIndex - The index of the chunk within the file.
+ * @returns A promise that resolves with the plaintext chunk bytes and proof, or null if the chunk is not stored.
+ */
+export async function getChunk(fileId: string, chunkIndex: number): Promise<StoredChunk | null> {
+    const db = await getDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(CHUNKS_STORE, 'readonly');
+        const store = transaction.objectStore(CHUNKS_STORE);
+        const request = store.get([fileId, chunkIndex]);
+
+        request.onsuccess = () => {
+            resolve(request.result || null);
+        };
+        request.onerror = () => reject('Failed to retrieve chunk from IndexedDB.');
+    });
+}
+
+/**
+ * Removes a file record and all of its stored chunks.
+ * @param fileId - The protocol file ID.
+ */
+export async function clearResumableFile(fileId: string): Promise<void> {
+    const db = await getDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([FILES_STORE, CHUNKS_STORE], 'readwrite');
+        transaction.objectStore(FILES_STORE).delete(fileId);
+        transaction.objectStore(CHUNKS_STORE).delete(chunkRangeFor(fileId));
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject('Failed to clear resumable file from IndexedDB.');
+    });
+}